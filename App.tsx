@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef } from 'react';
 import { FightAnalysis } from './types';
 import { analyzeFightData } from './services/geminiService';
 import LoadingOverlay from './components/LoadingOverlay';
@@ -7,15 +7,31 @@ import VideoUploader from './components/video/VideoUploader';
 import VideoPlayer from './components/video/VideoPlayer';
 import OpponentScoutPage from './app/opponent-scout/page';
 import SelfScoutPage from './app/self-scout/page';
-import { UploadedVideo } from './hooks/useVideoUpload';
+import GamePlanPage from './app/game-plan/page';
+import ReportLibrary from './components/library/ReportLibrary';
+import ExportMenu from './components/reports/ExportMenu';
+import FightersPage from './app/fighters/page';
+import CornerPage from './app/corner/page';
+import { UploadedVideo, useVideoUpload } from './hooks/useVideoUpload';
 import { MAX_FILE_SIZE_MB } from './constants';
+import { isAbortError } from './lib/abort';
+import { getErrorMessage } from './services/aiErrors';
+import { LibraryEntry, describeReport, loadVideos, saveReport } from './lib/report-library';
 
-type ViewMode = 'analyzer' | 'scout' | 'self-scout';
+type ViewMode = 'analyzer' | 'scout' | 'self-scout' | 'game-plan' | 'library' | 'fighters' | 'corner';
 
-const SCORING_STORAGE_KEY = 'fight_analyzer_scoring_report';
+// Which view opens a saved report of each kind
+const LIBRARY_VIEW: Record<LibraryEntry['kind'], ViewMode> = {
+  scoring: 'analyzer',
+  opponent: 'scout',
+  'self-scout': 'self-scout',
+  'game-plan': 'game-plan',
+};
 
 const App: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('analyzer');
+  const [libraryEntry, setLibraryEntry] = useState<LibraryEntry | null>(null);
+  const { upload } = useVideoUpload();
 
   // --- FIGHT ANALYZER STATE ---
   const [uploadedVideo, setUploadedVideo] = useState<UploadedVideo | null>(null);
@@ -23,22 +39,39 @@ const App: React.FC = () => {
   const [textNotes, setTextNotes] = useState<string>('');
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<FightAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const navigate = (mode: ViewMode) => {
+    setLibraryEntry(null);
+    setViewMode(mode);
+  };
+
+  /**
+   * Opens a saved report in the view that produced it, with its footage.
+   */
+  const handleOpenReport = async (entry: LibraryEntry) => {
+    if (entry.kind !== 'scoring') {
+      setLibraryEntry(entry);
+      setViewMode(LIBRARY_VIEW[entry.kind]);
+      return;
+    }
 
-  // Load from local storage on mount
-  useEffect(() => {
     try {
-      const stored = localStorage.getItem(SCORING_STORAGE_KEY);
-      if (stored) {
-        setAnalysisResult(JSON.parse(stored));
-      }
+      const [file] = await loadVideos(entry);
+      setUploadedVideo(file ? await upload(file) : null);
     } catch (e) {
-      console.error('Failed to load scoring report', e);
+      console.error('Failed to load saved footage', e);
+      setUploadedVideo(null);
     }
-  }, []);
+    setAnalysisResult(entry.report as FightAnalysis);
+    setError(null);
+    navigate('analyzer');
+  };
 
   const handleVideoUploadComplete = (video: UploadedVideo) => {
     setUploadedVideo(video);
@@ -66,36 +99,54 @@ const App: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsAnalyzing(true);
     setError(null);
 
     try {
       const videoFile = uploadedVideo ? uploadedVideo.file : null;
-      const result = await analyzeFightData(videoFile, imageFiles, textNotes);
-      localStorage.setItem(SCORING_STORAGE_KEY, JSON.stringify(result));
+      const result = await analyzeFightData(videoFile, imageFiles, textNotes, ({ fileName, loaded, total }) => {
+        setUploadStatus(loaded < total ? `Uploading ${fileName}: ${Math.round((loaded / total) * 100)}%` : null);
+      }, controller.signal);
+      if (controller.signal.aborted) return;
+      try {
+        await saveReport({ kind: 'scoring', ...describeReport('scoring', result), report: result }, videoFile ? [videoFile] : []);
+      } catch (e) {
+        console.error('Failed to save scoring report to the library', e);
+      }
       setAnalysisResult(result);
     } catch (err) {
-      setError("Analysis failed. Please try again. Ensure your API Key supports the selected model.");
+      if (isAbortError(err)) return;
+      setError(getErrorMessage(err));
       console.error(err);
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
+      setUploadStatus(null);
     }
   };
 
+  const handleCancelAnalysis = () => {
+    abortRef.current?.abort();
+  };
+
   const handleReset = () => {
     setAnalysisResult(null);
     setUploadedVideo(null);
     setImageFiles([]);
     setTextNotes('');
     setError(null);
-    localStorage.removeItem(SCORING_STORAGE_KEY);
     if (imageInputRef.current) imageInputRef.current.value = '';
   };
 
   // --- RENDER ---
 
   if (isAnalyzing) {
-    return <LoadingOverlay />;
+    return uploadStatus
+      ? <LoadingOverlay message="Uploading Footage" subMessage={uploadStatus} onCancel={handleCancelAnalysis} />
+      : <LoadingOverlay onCancel={handleCancelAnalysis} />;
   }
 
   return (
@@ -109,23 +160,47 @@ const App: React.FC = () => {
             </span>
             <div className="hidden md:flex gap-1">
               <button 
-                onClick={() => setViewMode('analyzer')}
+                onClick={() => navigate('analyzer')}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'analyzer' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
               >
                 Fight Scoring
               </button>
               <button 
-                onClick={() => setViewMode('scout')}
+                onClick={() => navigate('scout')}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'scout' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
               >
                 Opponent Scout
               </button>
               <button 
-                onClick={() => setViewMode('self-scout')}
+                onClick={() => navigate('self-scout')}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'self-scout' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
               >
                 Self Scout
               </button>
+              <button 
+                onClick={() => navigate('game-plan')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'game-plan' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Game Plan
+              </button>
+              <button 
+                onClick={() => navigate('library')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'library' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Library
+              </button>
+              <button 
+                onClick={() => navigate('fighters')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'fighters' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Fighters
+              </button>
+              <button 
+                onClick={() => navigate('corner')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${viewMode === 'corner' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Corner
+              </button>
             </div>
           </div>
           <div className="text-xs text-slate-500 font-mono">
@@ -135,36 +210,69 @@ const App: React.FC = () => {
         {/* Mobile Nav */}
         <div className="md:hidden flex border-t border-slate-800">
           <button 
-            onClick={() => setViewMode('analyzer')}
+            onClick={() => navigate('analyzer')}
             className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'analyzer' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
           >
             Scoring
           </button>
           <button 
-            onClick={() => setViewMode('scout')}
+            onClick={() => navigate('scout')}
             className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'scout' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
           >
             Scout
           </button>
           <button 
-            onClick={() => setViewMode('self-scout')}
+            onClick={() => navigate('self-scout')}
             className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'self-scout' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
           >
             Self
           </button>
+          <button 
+            onClick={() => navigate('game-plan')}
+            className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'game-plan' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
+          >
+            Plan
+          </button>
+          <button 
+            onClick={() => navigate('library')}
+            className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'library' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
+          >
+            Library
+          </button>
+          <button 
+            onClick={() => navigate('fighters')}
+            className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'fighters' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
+          >
+            Fighters
+          </button>
+          <button 
+            onClick={() => navigate('corner')}
+            className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${viewMode === 'corner' ? 'text-white bg-slate-800' : 'text-slate-500'}`}
+          >
+            Corner
+          </button>
         </div>
       </nav>
 
       <main className="flex-1">
-        {viewMode === 'scout' ? (
-          <OpponentScoutPage />
+        {viewMode === 'library' ? (
+          <ReportLibrary onOpen={handleOpenReport} />
+        ) : viewMode === 'fighters' ? (
+          <FightersPage onOpenReport={handleOpenReport} />
+        ) : viewMode === 'corner' ? (
+          <CornerPage />
+        ) : viewMode === 'scout' ? (
+          <OpponentScoutPage libraryEntry={libraryEntry} />
         ) : viewMode === 'self-scout' ? (
-          <SelfScoutPage />
+          <SelfScoutPage libraryEntry={libraryEntry} />
+        ) : viewMode === 'game-plan' ? (
+          <GamePlanPage libraryEntry={libraryEntry} />
         ) : (
           <div className="flex flex-col items-center p-4 md:p-8">
             {analysisResult ? (
               <div className="w-full">
-                 <div className="max-w-5xl mx-auto flex justify-end mb-4">
+                 <div className="max-w-5xl mx-auto flex justify-end items-center gap-4 mb-4">
+                   <ExportMenu input={{ kind: 'scoring', report: analysisResult }} />
                    <button onClick={handleReset} className="text-slate-500 hover:text-white text-sm">Reset</button>
                  </div>
                  <AnalysisResults data={analysisResult} onReset={handleReset} />
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import useReportLibrary from '../../hooks/useReportLibrary';
+import useCornerMode from '../../hooks/useCornerMode';
+import RoundClock from '../../components/corner/RoundClock';
+import TagPad from '../../components/corner/TagPad';
+import { CornerSources, cornerCards, cuesForRound, relevantDecisions } from '../../lib/corner-mode';
+import { cleanText } from '../../lib/corner-card';
+import { GamePlanReport, OpponentReport } from '../../lib/report-parser';
+import { getErrorMessage } from '../../services/aiErrors';
+
+const ROUND_MINUTES = [1, 2, 3, 4, 5];
+const REST_SECONDS = [30, 45, 60, 90, 120];
+
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-red-500';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const CornerPage: React.FC = () => {
+  const { entries: scouts } = useReportLibrary({ kind: 'opponent' });
+  const { entries: plans } = useReportLibrary({ kind: 'game-plan' });
+  const [scoutId, setScoutId] = useState('');
+  const [planId, setPlanId] = useState('');
+
+  // Memoized so the hook's callbacks only change with the picked reports
+  const sources = useMemo<CornerSources>(() => ({
+    opponent: scouts.find(e => e.id === scoutId)?.report as OpponentReport | undefined,
+    plan: plans.find(e => e.id === planId)?.report as GamePlanReport | undefined,
+  }), [scouts, plans, scoutId, planId]);
+
+  const {
+    config, setConfig, phase, round, remaining, isPaused, tags, instruction, isGenerating, error,
+    start, togglePause, skip, reset, addTag, removeTag, regenerate,
+  } = useCornerMode(sources);
+
+  const cards = useMemo(() => cornerCards(sources), [sources]);
+
+  // Between rounds the plan is for the next one; tags are still about the last
+  const nextRound = phase === 'rest' ? round + 1 : round;
+  const roundTags = tags.filter(tag => tag.round === round);
+  const cues = cuesForRound(cards, nextRound);
+  const decisions = relevantDecisions(sources.opponent?.decisionTree ?? [], roundTags);
+
+  if (phase === 'ready') {
+    return (
+      <div className="w-full max-w-3xl mx-auto p-4 md:p-8">
+        <header className="mb-8">
+          <h1 className="text-3xl md:text-5xl font-heading font-bold text-white mb-2">
+            CORNER <span className="text-transparent bg-clip-text bg-gradient-to-r from-red-500 to-orange-400">MODE</span>
+          </h1>
+          <p className="text-slate-400 text-sm md:text-base max-w-2xl">
+            Run the round clock from the corner. Tag what you see during each round, and get a three-point instruction for the rest built from your tags and the scouting report.
+          </p>
+        </header>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-5 space-y-5">
+          <div className="grid md:grid-cols-2 gap-4">
+            <Field label="Scouting Report">
+              <select value={scoutId} onChange={e => setScoutId(e.target.value)} className={inputClass}>
+                <option value="">None</option>
+                {scouts.map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+              </select>
+            </Field>
+            <Field label="Game Plan">
+              <select value={planId} onChange={e => setPlanId(e.target.value)} className={inputClass}>
+                <option value="">None</option>
+                {plans.map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+              </select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Field label="Rounds">
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={config.rounds}
+                onChange={e => setConfig({ ...config, rounds: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Round">
+              <select
+                value={config.roundSeconds}
+                onChange={e => setConfig({ ...config, roundSeconds: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {ROUND_MINUTES.map(m => <option key={m} value={m * 60}>{m} min</option>)}
+              </select>
+            </Field>
+            <Field label="Rest">
+              <select
+                value={config.restSeconds}
+                onChange={e => setConfig({ ...config, restSeconds: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {REST_SECONDS.map(s => <option key={s} value={s}>{s} sec</option>)}
+              </select>
+            </Field>
+          </div>
+
+          {!sources.opponent && !sources.plan && (
+            <p className="text-xs text-slate-500">
+              Without a scouting report or game plan, the instruction is built from your tags alone.
+            </p>
+          )}
+
+          <button
+            onClick={start}
+            className="w-full py-4 bg-red-600 hover:bg-red-700 text-white rounded-lg font-heading text-2xl tracking-widest"
+          >
+            Start Round 1
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 md:p-8 grid md:grid-cols-2 gap-4">
+      <div className="space-y-4">
+        <RoundClock
+          phase={phase}
+          round={round}
+          rounds={config.rounds}
+          remaining={remaining}
+          isPaused={isPaused}
+          onTogglePause={togglePause}
+          onSkip={skip}
+          onReset={reset}
+        />
+
+        {(phase === 'rest' || instruction || isGenerating || error) && (
+          <div className="bg-slate-800 rounded-xl border border-amber-500/40 p-4">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-amber-400 font-heading text-2xl uppercase">
+                {instruction ? `After Round ${instruction.round}` : 'Instruction'}
+              </h3>
+              <button
+                onClick={regenerate}
+                disabled={isGenerating}
+                className="text-sm text-slate-400 hover:text-white underline decoration-slate-600 underline-offset-4 disabled:opacity-40"
+              >
+                {isGenerating ? 'Thinking…' : 'Regenerate'}
+              </button>
+            </div>
+            {error ? (
+              <p className="text-red-300 text-sm">{getErrorMessage(error)}</p>
+            ) : isGenerating && !instruction ? (
+              <p className="text-slate-400 animate-pulse">Reading your tags…</p>
+            ) : instruction && (
+              <ol className="space-y-3">
+                {instruction.bullets.map((bullet, i) => (
+                  <li key={i} className="flex gap-3 text-xl md:text-2xl font-semibold text-white leading-tight">
+                    <span className="font-heading text-3xl text-amber-400 leading-none">{i + 1}</span>
+                    {bullet}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {phase !== 'done' && (cues.length > 0 || decisions.length > 0) && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+            <h3 className="text-white font-heading text-2xl uppercase">Round {nextRound} Plan</h3>
+            {cues.map((cue, i) => (
+              <p key={i} className="text-lg text-slate-200">
+                <span className="font-heading text-amber-400 mr-2">{cue.label}</span>{cue.text}
+              </p>
+            ))}
+            {decisions.length > 0 && (
+              <ul className="space-y-2">
+                {decisions.map((node, i) => (
+                  <li key={i} className="text-lg text-white leading-tight">
+                    <span className="font-heading text-blue-400">IF </span>{cleanText(node.trigger)}
+                    <span className="font-heading text-emerald-400"> → </span>
+                    <span className="font-semibold">{cleanText(node.response)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <TagPad tags={roundTags} onAdd={addTag} onRemove={removeTag} disabled={phase === 'done'} />
+    </div>
+  );
+};
+
+export default CornerPage;
@@ -0,0 +1,322 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import useFighters from '../../hooks/useFighters';
+import FighterEditor from '../../components/fighters/FighterEditor';
+import FighterPhoto from '../../components/fighters/FighterPhoto';
+import DossierCard from '../../components/fighters/DossierCard';
+import { KIND_LABELS, KIND_STYLES } from '../../components/library/ReportLibrary';
+import { Fighter, LibraryEntry, StoredVideo, describeVideos, listFighterReports } from '../../lib/report-library';
+import { findRecurringWeaknesses } from '../../lib/fighter-history';
+import { buildOpponentDossier } from '../../lib/opponent-dossier';
+import { OpponentReport } from '../../lib/report-parser';
+
+interface FightersPageProps {
+  onOpenReport: (entry: LibraryEntry) => void;
+}
+
+type VideoInfo = Omit<StoredVideo, 'blob'>;
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: 'bg-red-500/20 text-red-300',
+  high: 'bg-orange-500/20 text-orange-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  low: 'bg-slate-500/20 text-slate-300',
+};
+
+const formatMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-5">
+    <h3 className="text-white font-heading text-lg uppercase mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+/**
+ * One fighter's details, report history, recurring weaknesses and footage.
+ */
+const FighterDetails: React.FC<{
+  fighter: Fighter;
+  onSave: React.ComponentProps<typeof FighterEditor>['onSave'];
+  onDelete: () => Promise<void>;
+  onOpenReport: (entry: LibraryEntry) => void;
+}> = ({ fighter, onSave, onDelete, onOpenReport }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [videos, setVideos] = useState<VideoInfo[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listFighterReports(fighter.id)
+      .then(async linked => {
+        const info = await describeVideos([...new Set(linked.flatMap(e => e.videoIds))]);
+        if (cancelled) return;
+        setEntries(linked);
+        setVideos(info);
+      })
+      .catch(err => console.error('Failed to load fighter history', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [fighter.id]);
+
+  const weaknesses = useMemo(() => findRecurringWeaknesses(fighter.id, entries), [fighter.id, entries]);
+  const titleOf = (id: string) => entries.find(e => e.id === id)?.title || 'Deleted report';
+
+  // Several scouting reports on the same fighter are merged into one dossier
+  const dossier = useMemo(() => {
+    const scouts = entries.filter(e => e.kind === 'opponent');
+    return scouts.length > 1
+      ? buildOpponentDossier(scouts.map(e => ({ report: e.report as OpponentReport, videoIds: e.videoIds })))
+      : null;
+  }, [entries]);
+  const videoNames = useMemo(() => Object.fromEntries(videos.map(v => [v.id, v.name])), [videos]);
+
+  const handleDelete = async () => {
+    if (window.confirm(`Delete ${fighter.name}? Their reports stay in the library, unlinked.`)) {
+      await onDelete();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-5">
+        {isEditing ? (
+          <FighterEditor
+            fighter={fighter}
+            onSave={async (input) => {
+              await onSave(input);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <div className="flex items-start gap-4">
+            <FighterPhoto photo={fighter.photo} name={fighter.name} className="w-20 h-20 rounded-xl text-2xl" />
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-heading font-bold text-white truncate">{fighter.name}</h2>
+              {fighter.aliases.length > 0 && (
+                <p className="text-xs text-slate-500 mb-2">aka {fighter.aliases.join(', ')}</p>
+              )}
+              <div className="flex flex-wrap gap-2 text-xs">
+                {[fighter.division, fighter.stance, fighter.record].filter(Boolean).map(detail => (
+                  <span key={detail} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300">{detail}</span>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => setIsEditing(true)}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+              >
+                Edit
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-red-600 text-white rounded-lg text-sm transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {dossier && <DossierCard dossier={dossier} videoNames={videoNames} />}
+
+      <Card title="Recurring Weaknesses">
+        {weaknesses.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {entries.length < 2 ? 'Needs at least two reports to compare.' : 'No weakness shows up in more than one report.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {weaknesses.map(w => (
+              <li key={w.title} className="bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${SEVERITY_STYLES[w.severity]}`}>
+                    {w.severity}
+                  </span>
+                  <span className="text-white text-sm font-medium">{w.title}</span>
+                  <span className="text-xs text-slate-500 ml-auto">{w.reportIds.length} reports</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1 truncate">{w.reportIds.map(titleOf).join(' • ')}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <Card title="Report History">
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-500">No reports are linked to this fighter yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map(entry => {
+              // Same rule as the library: scout reports need their footage to open
+              const canOpen = entry.kind === 'scoring' || entry.videoIds.length > 0;
+              return (
+                <li key={entry.id} className="flex items-center gap-3 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+                  <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded flex-shrink-0 ${KIND_STYLES[entry.kind]}`}>
+                    {KIND_LABELS[entry.kind]}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm truncate">{entry.title}</p>
+                    <p className="text-xs text-slate-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                  </div>
+                  <button
+                    onClick={() => onOpenReport(entry)}
+                    disabled={!canOpen}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Open
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+
+      <Card title="Linked Videos">
+        {videos.length === 0 ? (
+          <p className="text-sm text-slate-500">No footage is stored with this fighter's reports.</p>
+        ) : (
+          <ul className="space-y-2">
+            {videos.map(video => (
+              <li key={video.id} className="bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-white text-sm truncate">{video.name}</span>
+                  <span className="text-xs text-slate-500 flex-shrink-0">{formatMB(video.size)} MB</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1 truncate">
+                  {entries.filter(e => e.videoIds.includes(video.id)).map(e => e.title).join(' • ')}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+const FightersPage: React.FC<FightersPageProps> = ({ onOpenReport }) => {
+  const { fighters, isLoading, error, save, remove } = useFighters();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const selected = fighters.find(f => f.id === selectedId) ?? null;
+  const text = search.trim().toLowerCase();
+  const shown = text
+    ? fighters.filter(f => [f.name, ...f.aliases].some(n => n.toLowerCase().includes(text)))
+    : fighters;
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    const fighter = await save({ name: newName });
+    setNewName('');
+    setSelectedId(fighter.id);
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-4 md:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-5xl font-heading font-bold text-white mb-2">
+          FIGHTER <span className="text-transparent bg-clip-text bg-gradient-to-r from-red-500 to-blue-500">PROFILES</span>
+        </h1>
+        <p className="text-slate-400 text-sm md:text-base">
+          Every saved report about a fighter in one place. Reports are linked by name or alias when they are saved.
+        </p>
+      </header>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/30 border border-red-500 rounded text-red-200 text-sm">
+          {error.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Fighter list */}
+        <div className="space-y-3">
+          <input
+            type="search"
+            placeholder="Search name or alias..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex gap-2">
+            <input
+              placeholder="New fighter name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+
+          {isLoading && fighters.length === 0 ? (
+            <p className="text-slate-500 text-center py-8">Loading fighters...</p>
+          ) : shown.length === 0 ? (
+            <p className="text-slate-500 text-center py-8 text-sm">
+              {text ? 'No fighters match this search.' : 'No fighters yet. Scout an opponent or score a fight and they appear here.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {shown.map(fighter => (
+                <li key={fighter.id}>
+                  <button
+                    onClick={() => setSelectedId(fighter.id)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors ${
+                      fighter.id === selectedId
+                        ? 'bg-slate-800 border-blue-500'
+                        : 'bg-slate-800/60 border-slate-700 hover:border-slate-500'
+                    }`}
+                  >
+                    <FighterPhoto photo={fighter.photo} name={fighter.name} />
+                    <div className="min-w-0">
+                      <p className="text-white text-sm font-medium truncate">{fighter.name}</p>
+                      <p className="text-xs text-slate-500 truncate">
+                        {[fighter.division, fighter.record].filter(Boolean).join(' • ') || 'No details yet'}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Profile */}
+        <div className="lg:col-span-2">
+          {selected ? (
+            <FighterDetails
+              key={selected.id}
+              fighter={selected}
+              onSave={save}
+              onDelete={async () => {
+                await remove(selected.id);
+                setSelectedId(null);
+              }}
+              onOpenReport={onOpenReport}
+            />
+          ) : (
+            <div className="text-center py-16 text-slate-500 border border-dashed border-slate-700 rounded-xl">
+              Pick a fighter to see their reports.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FightersPage;
@@ -0,0 +1,106 @@
+import React from 'react';
+import GamePlanForm, { GamePlanInput } from '../../components/reports/GamePlanForm';
+import GamePlanDisplay from '../../components/reports/GamePlanDisplay';
+import CornerCardButton from '../../components/reports/CornerCardButton';
+import useGamePlan from '../../hooks/useGamePlan';
+import LoadingOverlay from '../../components/LoadingOverlay';
+import { getErrorMessage } from '../../services/aiErrors';
+import { useVideoUpload } from '../../hooks/useVideoUpload';
+import { LibraryEntry, loadVideos } from '../../lib/report-library';
+import { GamePlanReport } from '../../lib/report-parser';
+
+interface GamePlanPageProps {
+  libraryEntry?: LibraryEntry | null; // Saved plan to open instead of starting fresh
+}
+
+const GamePlanPage: React.FC<GamePlanPageProps> = ({ libraryEntry }) => {
+  const { analyze, report, isAnalyzing, isStreaming, error, cancel, reset, load } = useGamePlan();
+  const { upload } = useVideoUpload();
+
+  // Both tapes are needed to play back the plan's timestamps
+  const [currentInput, setCurrentInput] = React.useState<GamePlanInput | null>(null);
+
+  // Open a saved plan together with both stored tapes (user first)
+  React.useEffect(() => {
+    if (!libraryEntry) return;
+    let cancelled = false;
+    const saved = libraryEntry.report as GamePlanReport;
+
+    loadVideos(libraryEntry)
+      .then(files => Promise.all(files.map(upload)))
+      .then(([userVideo, opponentVideo]) => {
+        if (cancelled || !userVideo || !opponentVideo) return;
+        setCurrentInput({
+          userVideo,
+          opponentVideo,
+          context: { fighterName: saved.fighterName, opponentName: saved.opponentName },
+          reportType: saved.reportType,
+        });
+        load(saved);
+      })
+      .catch(err => console.error('Failed to open saved game plan', err));
+
+    return () => { cancelled = true; };
+  }, [libraryEntry, upload]); // `load` is not memoized; reopen only when the entry changes
+
+  const handleAnalyze = async (data: GamePlanInput) => {
+    setCurrentInput(data);
+    await analyze(data);
+  };
+
+  const handleReset = () => {
+    reset();
+    setCurrentInput(null);
+  };
+
+  // Once the plan starts streaming in, show it instead of the overlay
+  if (isAnalyzing && !report) return <LoadingOverlay onCancel={cancel} />;
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-4 md:p-8">
+      <header className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl md:text-5xl font-heading font-bold text-white mb-2">
+            GAME <span className="text-transparent bg-clip-text bg-gradient-to-r from-amber-400 to-orange-300">PLAN</span>
+          </h1>
+          <p className="text-slate-400 text-sm md:text-base max-w-2xl">
+            Upload your footage and your opponent's. Get a matchup breakdown, a victory blueprint and a round-by-round plan tied to moments on both tapes.
+          </p>
+        </div>
+        {report && (
+          <div className="flex items-center gap-4">
+            <CornerCardButton source={{ kind: 'game-plan', report }} disabled={isStreaming} />
+            <button
+              onClick={isStreaming ? cancel : handleReset}
+              className="text-sm text-slate-400 hover:text-white underline decoration-slate-600 underline-offset-4"
+            >
+              {isStreaming ? 'Stop' : 'Start New Plan'}
+            </button>
+          </div>
+        )}
+      </header>
+
+      {report && currentInput ? (
+        <GamePlanDisplay
+          report={report}
+          userVideo={currentInput.userVideo}
+          opponentVideo={currentInput.opponentVideo}
+          isStreaming={isStreaming}
+          onRegenerate={() => handleAnalyze(currentInput)}
+        />
+      ) : (
+        <div className="max-w-5xl mx-auto">
+          {error && (
+            <div className="mb-6 p-4 bg-red-900/30 border border-red-500 rounded text-red-200">
+              <span className="font-bold block mb-1">Error Generating Game Plan</span>
+              {getErrorMessage(error)}
+            </div>
+          )}
+          <GamePlanForm onSubmit={handleAnalyze} isLoading={isAnalyzing} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GamePlanPage;
@@ -3,14 +3,47 @@ import OpponentReportForm, { OpponentReportInput } from '../../components/report
 import OpponentReportDisplay from '../../components/reports/OpponentReportDisplay';
 import useOpponentAnalysis from '../../hooks/useOpponentAnalysis';
 import LoadingOverlay from '../../components/LoadingOverlay';
+import ExportMenu from '../../components/reports/ExportMenu';
+import CornerCardButton from '../../components/reports/CornerCardButton';
+import { getErrorMessage } from '../../services/aiErrors';
+import { useVideoUpload } from '../../hooks/useVideoUpload';
+import { LibraryEntry, loadVideos } from '../../lib/report-library';
+import { OpponentReport } from '../../lib/report-parser';
 
-const OpponentScoutPage: React.FC = () => {
-  const { analyze, report, isAnalyzing, error, reset } = useOpponentAnalysis();
+interface OpponentScoutPageProps {
+  libraryEntry?: LibraryEntry | null; // Saved report to open instead of starting fresh
+}
+
+const OpponentScoutPage: React.FC<OpponentScoutPageProps> = ({ libraryEntry }) => {
+  const { analyze, report, isAnalyzing, isStreaming, isVerifying, error, cancel, reset, load } = useOpponentAnalysis();
+  const { upload } = useVideoUpload();
   
   // We need to keep track of the input video to pass to the display
   // In a real app with proper state management, this would be cleaner.
   const [currentInput, setCurrentInput] = React.useState<OpponentReportInput | null>(null);
 
+  // Open a saved report together with its stored footage
+  React.useEffect(() => {
+    if (!libraryEntry) return;
+    let cancelled = false;
+    const saved = libraryEntry.report as OpponentReport;
+
+    loadVideos(libraryEntry)
+      .then(files => Promise.all(files.map(upload)))
+      .then(videos => {
+        if (cancelled || videos.length === 0) return;
+        setCurrentInput({
+          videos,
+          context: { fighterName: saved.fighterName },
+          reportType: saved.reportType,
+        });
+        load(saved);
+      })
+      .catch(err => console.error('Failed to open saved opponent report', err));
+
+    return () => { cancelled = true; };
+  }, [libraryEntry, upload]); // `load` is not memoized; reopen only when the entry changes
+
   const handleAnalyze = async (data: OpponentReportInput) => {
     setCurrentInput(data);
     await analyze(data);
@@ -21,7 +54,8 @@ const OpponentScoutPage: React.FC = () => {
     setCurrentInput(null);
   };
 
-  if (isAnalyzing) return <LoadingOverlay />;
+  // Once the report starts streaming in, show it instead of the overlay
+  if (isAnalyzing && !report) return <LoadingOverlay onCancel={cancel} />;
 
   return (
     <div className="w-full max-w-7xl mx-auto p-4 md:p-8">
@@ -35,23 +69,37 @@ const OpponentScoutPage: React.FC = () => {
           </p>
         </div>
         {report && (
-          <button 
-            onClick={handleReset}
-            className="text-sm text-slate-400 hover:text-white underline decoration-slate-600 underline-offset-4"
-          >
-            Start New Scout
-          </button>
+          <div className="flex items-center gap-4">
+            <CornerCardButton source={{ kind: 'opponent', report }} disabled={isStreaming} />
+            <ExportMenu
+              input={{ kind: 'opponent', report }}
+              videos={currentInput?.videos.map(v => v.file)}
+              disabled={isStreaming || isVerifying}
+            />
+            <button 
+              onClick={isStreaming || isVerifying ? cancel : handleReset}
+              className="text-sm text-slate-400 hover:text-white underline decoration-slate-600 underline-offset-4"
+            >
+              {isStreaming || isVerifying ? 'Stop' : 'Start New Scout'}
+            </button>
+          </div>
         )}
       </header>
 
-      {report && currentInput && currentInput.videos[0] ? (
-        <OpponentReportDisplay report={report} video={currentInput.videos[0]} />
+      {report && currentInput && currentInput.videos.length > 0 ? (
+        <OpponentReportDisplay
+          report={report}
+          videos={currentInput.videos}
+          isStreaming={isStreaming}
+          isVerifying={isVerifying}
+          onRegenerate={() => handleAnalyze(currentInput)}
+        />
       ) : (
         <div className="max-w-4xl mx-auto">
           {error && (
             <div className="mb-6 p-4 bg-red-900/30 border border-red-500 rounded text-red-200">
               <span className="font-bold block mb-1">Error Generating Report</span>
-              {error.message}
+              {getErrorMessage(error)}
             </div>
           )}
           <OpponentReportForm onSubmit={handleAnalyze} isLoading={isAnalyzing} />
@@ -1,20 +1,78 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useSelfScout } from '../../hooks/useSelfScout';
 import { useVideoUpload, UploadedVideo } from '../../hooks/useVideoUpload';
 import VideoUploader from '../../components/video/VideoUploader';
 import SelfScoutReportDisplay from '../../components/reports/SelfScoutReportDisplay';
+import BaselinePicker from '../../components/reports/BaselinePicker';
+import SegmentationPicker from '../../components/reports/SegmentationPicker';
+import ImageInput from '../../components/reports/ImageInput';
+import FighterPicker from '../../components/fighters/FighterPicker';
 import LoadingOverlay from '../../components/LoadingOverlay';
+import ExportMenu from '../../components/reports/ExportMenu';
+import { isAbortError } from '../../lib/abort';
+import { getErrorMessage } from '../../services/aiErrors';
+import { LibraryEntry, getReport, loadVideos } from '../../lib/report-library';
+import { SelfScoutReport } from '../../lib/report-parser';
+import { DEFAULT_SEGMENTATION, SegmentationMode } from '../../lib/segmentation';
 
-type AnalysisType = 'full' | 'quick';
+type AnalysisType = 'full' | 'quick' | 'progress';
 
-export default function SelfScoutPage() {
+interface SelfScoutPageProps {
+  libraryEntry?: LibraryEntry | null; // Saved report to open instead of starting fresh
+}
+
+export default function SelfScoutPage({ libraryEntry }: SelfScoutPageProps = {}) {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [uploadedVideo, setUploadedVideo] = useState<UploadedVideo | null>(null);
   const [analysisType, setAnalysisType] = useState<AnalysisType>('full');
   const [context, setContext] = useState('');
   const [specificQuestions, setSpecificQuestions] = useState('');
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [fighterId, setFighterId] = useState<string>();
+  const [baselines, setBaselines] = useState<LibraryEntry[]>([]);
+  const [baselineVideos, setBaselineVideos] = useState<Record<string, UploadedVideo>>({});
+  const [segmentation, setSegmentation] = useState<SegmentationMode>(DEFAULT_SEGMENTATION);
+
+  const { analyze, report, isAnalyzing, isStreaming, isVerifying, progress, error, cancel, reset, load } = useSelfScout();
+  const { upload } = useVideoUpload();
+
+  // Open a saved report together with its stored footage
+  useEffect(() => {
+    if (!libraryEntry) return;
+    let cancelled = false;
+
+    loadVideos(libraryEntry)
+      .then(async ([file]) => {
+        if (!file || cancelled) return;
+        const video = await upload(file);
+        if (cancelled) return;
+        setUploadedVideo(video);
+        setUploadedFiles([file]);
+        load(libraryEntry.report as SelfScoutReport);
+      })
+      .catch(err => console.error('Failed to open saved self scout report', err));
+
+    return () => { cancelled = true; };
+  }, [libraryEntry, upload, load]);
+
+  // Load the baseline tapes a progress report was compared against, where the library has them
+  const comparison = report?.progress;
+  useEffect(() => {
+    if (!comparison) return;
+    let cancelled = false;
+
+    Promise.all(comparison.baselines.map(async ({ reportId }) => {
+      const entry = await getReport(reportId);
+      const [file] = entry ? await loadVideos(entry) : [];
+      return file ? [reportId, await upload(file)] as const : null;
+    }))
+      .then(videos => {
+        if (!cancelled) setBaselineVideos(Object.fromEntries(videos.filter(v => v !== null)));
+      })
+      .catch(err => console.error('Failed to load baseline footage', err));
 
-  const { analyze, report, isAnalyzing, progress, error, reset } = useSelfScout();
+    return () => { cancelled = true; };
+  }, [comparison, upload]);
 
   const handleVideoUpload = (video: UploadedVideo, file: File) => {
     setUploadedVideo(video);
@@ -30,12 +88,16 @@ export default function SelfScoutPage() {
     try {
       await analyze({
         videos: uploadedFiles,
-        analysisType: analysisType as any, // Cast to match hook type which still might have progress
+        analysisType,
         context,
         specificQuestions,
+        baselines: analysisType === 'progress' ? baselines.map(e => e.report as SelfScoutReport) : undefined,
+        images: imageFiles,
+        segmentation,
+        fighterId,
       });
     } catch (err) {
-      console.error('Analysis failed:', err);
+      if (!isAbortError(err)) console.error('Analysis failed:', err);
     }
   };
 
@@ -45,13 +107,22 @@ export default function SelfScoutPage() {
     setUploadedVideo(null);
     setContext('');
     setSpecificQuestions('');
+    setImageFiles([]);
+    setFighterId(undefined);
+    setBaselines([]);
+    setBaselineVideos({});
+    setSegmentation(DEFAULT_SEGMENTATION);
   };
 
-  if (isAnalyzing) {
+  const canAnalyze = !isAnalyzing && uploadedFiles.length > 0 && (analysisType !== 'progress' || baselines.length > 0);
+
+  // Once the report starts streaming in, show it instead of the overlay
+  if (isAnalyzing && !report) {
     return (
       <LoadingOverlay 
         message={progress.message || "ANALYZING FOOTAGE"} 
         subMessage={`Progress: ${progress.percent}%`} 
+        onCancel={cancel}
       />
     );
   }
@@ -65,18 +136,41 @@ export default function SelfScoutPage() {
             <div>
               <h1 className="text-2xl font-bold text-white">Self-Scout Report</h1>
               <p className="text-slate-400 text-sm mt-1">
-                {analysisType} analysis • Generated {new Date(report.generatedAt).toLocaleString()}
+                {report.analysisType} analysis • Generated {new Date(report.generatedAt).toLocaleString()}
               </p>
             </div>
-            <button
-              onClick={handleReset}
-              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
-            >
-              New Analysis
-            </button>
+            <div className="flex gap-2">
+              <ExportMenu
+                input={{ kind: 'self-scout', report }}
+                videos={uploadedFiles}
+                disabled={isStreaming || isVerifying}
+              />
+              {isStreaming || isVerifying ? (
+                <button
+                  onClick={cancel}
+                  className="px-4 py-2 bg-slate-700 hover:bg-red-600 text-white rounded-lg text-sm transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleReset}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                >
+                  New Analysis
+                </button>
+              )}
+            </div>
           </div>
 
-          <SelfScoutReportDisplay report={report} video={uploadedVideo} />
+          <SelfScoutReportDisplay
+            report={report}
+            video={uploadedVideo}
+            isStreaming={isStreaming}
+            isVerifying={isVerifying}
+            baselineVideos={baselineVideos}
+            onRegenerate={handleAnalyze}
+          />
         </div>
       </div>
     );
@@ -121,6 +215,7 @@ export default function SelfScoutPage() {
             {[
               { id: 'full', label: 'Full Analysis', desc: 'Comprehensive breakdown of all aspects' },
               { id: 'quick', label: 'Quick Review', desc: 'Key habits and one fix for today' },
+              { id: 'progress', label: 'Progress Check', desc: 'Compare against your earlier reports' },
             ].map((type) => (
               <button
                 key={type.id}
@@ -138,6 +233,26 @@ export default function SelfScoutPage() {
           </div>
         </div>
 
+        {/* Segmentation */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-1">Long Fights</h2>
+          <p className="text-sm text-slate-400 mb-4">
+            Long footage is split into segments that are analysed separately, then merged on the full video's timeline.
+          </p>
+          <SegmentationPicker value={segmentation} onChange={setSegmentation} duration={uploadedVideo?.duration} size={uploadedVideo?.file.size} />
+        </div>
+
+        {/* Baseline Reports */}
+        {analysisType === 'progress' && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-6">
+            <h2 className="text-lg font-semibold text-white mb-1">Compare Against</h2>
+            <p className="text-sm text-slate-400 mb-4">
+              Pick one or more earlier reports. Their issues and priority fixes are checked against this footage.
+            </p>
+            <BaselinePicker selected={baselines} onChange={setBaselines} />
+          </div>
+        )}
+
         {/* Context */}
         <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-6">
           <h2 className="text-lg font-semibold text-white mb-4">Context (Optional)</h2>
@@ -167,19 +282,37 @@ export default function SelfScoutPage() {
           </div>
         </div>
 
+        {/* Fighter */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-1">Fighter (Optional)</h2>
+          <p className="text-sm text-slate-400 mb-4">
+            File the report under a fighter, so it shows up in their history on the Fighters page.
+          </p>
+          <FighterPicker value={fighterId} onChange={setFighterId} />
+        </div>
+
+        {/* Stat Sheets */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-1">Stat Sheets (Optional)</h2>
+          <p className="text-sm text-slate-400 mb-4">
+            Tale-of-the-tape or profile images. Your height, reach, stance, record and age are read from them.
+          </p>
+          <ImageInput images={imageFiles} onChange={setImageFiles} />
+        </div>
+
         {/* Error Display */}
         {error && (
           <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-6">
-            <p className="text-red-400">{error.message}</p>
+            <p className="text-red-400">{getErrorMessage(error)}</p>
           </div>
         )}
 
         {/* Analyze Button */}
         <button
           onClick={handleAnalyze}
-          disabled={isAnalyzing || uploadedFiles.length === 0}
+          disabled={!canAnalyze}
           className={`w-full py-4 rounded-xl font-semibold text-lg transition-all ${
-            isAnalyzing || uploadedFiles.length === 0
+            !canAnalyze
               ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
               : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-600/20'
           }`}
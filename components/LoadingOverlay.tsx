@@ -3,11 +3,13 @@ import React from 'react';
 interface LoadingOverlayProps {
   message?: string;
   subMessage?: string;
+  onCancel?: () => void;
 }
 
 const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ 
   message = "Analyzing Fight Data", 
-  subMessage = "Parsing strikes, grappling exchanges, and control time..." 
+  subMessage = "Parsing strikes, grappling exchanges, and control time...",
+  onCancel
 }) => {
   return (
     <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center p-4">
@@ -26,6 +28,15 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
         <div className="h-1 bg-slate-600 rounded animate-pulse" style={{ animationDelay: '150ms' }}></div>
         <div className="h-1 bg-blue-600 rounded animate-pulse" style={{ animationDelay: '300ms' }}></div>
       </div>
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-8 px-6 py-2 border border-slate-600 hover:border-red-500 text-slate-300 hover:text-white rounded-lg text-sm transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
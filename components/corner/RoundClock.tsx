@@ -0,0 +1,64 @@
+import React from 'react';
+import { CornerPhase } from '../../lib/corner-mode';
+import { formatTimestamp } from '../../lib/video-processing';
+
+interface RoundClockProps {
+  phase: CornerPhase;
+  round: number;
+  rounds: number;
+  remaining: number; // Seconds
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onSkip: () => void;
+  onReset: () => void;
+}
+
+// The clock turns red for the last seconds of a round or rest
+const WARNING_SECONDS = 10;
+
+/**
+ * Big round or rest clock with pause, skip and end controls.
+ */
+const RoundClock: React.FC<RoundClockProps> = ({ phase, round, rounds, remaining, isPaused, onTogglePause, onSkip, onReset }) => {
+  const label = phase === 'rest' ? `Rest • Round ${round + 1} next` : phase === 'done' ? 'Fight over' : `Round ${round} of ${rounds}`;
+  const color = phase === 'done'
+    ? 'text-slate-500'
+    : remaining <= WARNING_SECONDS ? 'text-red-500' : phase === 'rest' ? 'text-amber-300' : 'text-white';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 md:p-6 text-center">
+      <p className={`font-heading text-2xl md:text-3xl tracking-widest ${phase === 'rest' ? 'text-amber-400' : 'text-slate-300'}`}>{label}</p>
+      <p className={`font-heading text-8xl md:text-9xl leading-none tabular-nums ${color} ${isPaused ? 'animate-pulse' : ''}`}>
+        {formatTimestamp(remaining)}
+      </p>
+      <div className="mt-4 flex justify-center gap-3">
+        {phase !== 'done' && (
+          <>
+            <button
+              onClick={onTogglePause}
+              className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-bold"
+            >
+              {isPaused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={onSkip}
+              className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg"
+            >
+              {phase === 'rest' ? 'Start Round' : 'End Round'}
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => {
+            if (phase === 'done' || window.confirm('End corner mode? The tags from this fight are cleared.')) onReset();
+          }}
+          className="px-6 py-3 text-slate-400 hover:text-white"
+        >
+          {phase === 'done' ? 'New Fight' : 'Stop'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoundClock;
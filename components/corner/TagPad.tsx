@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CornerTag, QUICK_TAGS } from '../../lib/corner-mode';
+import { formatTimestamp } from '../../lib/video-processing';
+
+interface TagPadProps {
+  tags: CornerTag[]; // This round's
+  onAdd: (label: string) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Large buttons for the common tags, a field for anything else and the
+ * round's tags so far.
+ */
+const TagPad: React.FC<TagPadProps> = ({ tags, onAdd, onRemove, disabled }) => {
+  const [custom, setCustom] = useState('');
+
+  const handleAdd = () => {
+    onAdd(custom);
+    setCustom('');
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-4">
+      <h3 className="text-white font-heading text-2xl uppercase">Tag It</h3>
+      <div className="grid grid-cols-2 gap-2">
+        {QUICK_TAGS.map(label => (
+          <button
+            key={label}
+            onClick={() => onAdd(label)}
+            disabled={disabled}
+            className="px-3 py-4 bg-slate-700 hover:bg-slate-600 active:bg-red-600 text-white rounded-lg text-base font-semibold leading-tight transition-colors disabled:opacity-40"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          disabled={disabled}
+          placeholder="Something else..."
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={disabled || !custom.trim()}
+          className="px-5 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-bold disabled:opacity-40"
+        >
+          Tag
+        </button>
+      </div>
+
+      {tags.length > 0 && (
+        <ul className="space-y-1">
+          {tags.map(tag => (
+            <li key={tag.id} className="flex items-center gap-3 text-sm">
+              <span className="font-mono text-slate-500 w-12">{formatTimestamp(tag.second)}</span>
+              <span className="flex-1 text-slate-200">{tag.label}</span>
+              <button onClick={() => onRemove(tag.id)} className="text-slate-500 hover:text-red-400" aria-label={`Remove ${tag.label}`}>
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagPad;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { formatTimestampText } from '../video/TimestampMarker';
+import { DossierPattern, OpponentDossier } from '../../lib/opponent-dossier';
+
+interface DossierCardProps {
+  dossier: OpponentDossier;
+  videoNames: Record<string, string>; // Library video id -> file name
+}
+
+const KIND_STYLES: Record<DossierPattern['kind'], { label: string; className: string }> = {
+  strength: { label: 'Strength', className: 'bg-emerald-500/20 text-emerald-300' },
+  weakness: { label: 'Weakness', className: 'bg-red-500/20 text-red-300' },
+  decision: { label: 'Habit', className: 'bg-blue-500/20 text-blue-300' },
+};
+
+/**
+ * The patterns from every scouting report on an opponent, most consistent first.
+ */
+const DossierCard: React.FC<DossierCardProps> = ({ dossier, videoNames }) => (
+  <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-5">
+    <div className="flex items-baseline justify-between mb-3">
+      <h3 className="text-white font-heading text-lg uppercase">Dossier</h3>
+      <span className="text-xs text-slate-500">
+        {dossier.reportIds.length} reports • {dossier.fightCount} fights
+      </span>
+    </div>
+
+    <ol className="space-y-2">
+      {dossier.patterns.map(pattern => (
+        <li key={pattern.id} className="bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${KIND_STYLES[pattern.kind].className}`}>
+              {KIND_STYLES[pattern.kind].label}
+            </span>
+            <span className="text-white text-sm font-medium">{pattern.title}</span>
+            {pattern.severity && pattern.kind === 'weakness' && (
+              <span className="text-[10px] uppercase text-slate-400">{pattern.severity}</span>
+            )}
+            <span className="text-xs text-slate-400 ml-auto">
+              {pattern.fightCount} of {dossier.fightCount} fights • {pattern.instanceCount}x
+            </span>
+          </div>
+
+          <div className="h-1 bg-slate-800 rounded mt-2 overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${Math.round(pattern.consistency * 100)}%` }} />
+          </div>
+
+          {pattern.kind === 'decision' && (
+            <p className="text-xs text-slate-400 mt-2">→ {pattern.description}</p>
+          )}
+          {pattern.variants.length > 0 && (
+            <p className="text-xs text-slate-500 mt-1">Also called: {pattern.variants.join('; ')}</p>
+          )}
+
+          <ul className="mt-2 space-y-1">
+            {pattern.evidence.filter(e => e.timestamps.length > 0).map(e => (
+              <li key={e.videoKey} className="text-xs text-slate-400 flex gap-2">
+                <span className="truncate max-w-[40%] text-slate-500">{videoNames[e.videoKey] || 'Unsaved tape'}</span>
+                <span className="font-mono">{e.timestamps.map(formatTimestampText).join(', ')}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default DossierCard;
@@ -0,0 +1,129 @@
+import React, { useId, useState } from 'react';
+import { Fighter, FighterInput } from '../../lib/report-library';
+import FighterPhoto from './FighterPhoto';
+
+interface FighterEditorProps {
+  fighter: Fighter;
+  onSave: (input: FighterInput) => Promise<unknown>;
+  onCancel: () => void;
+}
+
+const STANCES = ['Orthodox', 'Southpaw', 'Switch'];
+
+const inputClass =
+  'w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 focus:outline-none';
+
+/**
+ * Edits a fighter's details. Aliases are entered comma-separated.
+ */
+const FighterEditor: React.FC<FighterEditorProps> = ({ fighter, onSave, onCancel }) => {
+  const photoId = useId();
+  const [name, setName] = useState(fighter.name);
+  const [aliases, setAliases] = useState(fighter.aliases.join(', '));
+  const [division, setDivision] = useState(fighter.division || '');
+  const [stance, setStance] = useState(fighter.stance || '');
+  const [record, setRecord] = useState(fighter.record || '');
+  const [photo, setPhoto] = useState<Blob | undefined>(fighter.photo);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        id: fighter.id,
+        name,
+        aliases: aliases.split(','),
+        division: division.trim() || undefined,
+        stance: stance || undefined,
+        record: record.trim() || undefined,
+        photo,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <FighterPhoto photo={photo} name={name} className="w-20 h-20 rounded-xl text-2xl" />
+        <div className="flex gap-2">
+          <label htmlFor={photoId} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm cursor-pointer transition-colors">
+            {photo ? 'Change Photo' : 'Add Photo'}
+          </label>
+          <input
+            id={photoId}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && setPhoto(e.target.files[0])}
+          />
+          {photo && (
+            <button onClick={() => setPhoto(undefined)} className="px-3 py-1.5 text-sm text-slate-400 hover:text-red-400">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Aliases</label>
+          <input
+            value={aliases}
+            onChange={(e) => setAliases(e.target.value)}
+            placeholder="e.g. Bones, J. Jones"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Division</label>
+          <input
+            value={division}
+            onChange={(e) => setDivision(e.target.value)}
+            placeholder="e.g. Light Heavyweight"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Stance</label>
+          <select value={stance} onChange={(e) => setStance(e.target.value)} className={inputClass}>
+            <option value="">Unknown</option>
+            {/* Keep a stance read from a stat sheet even if it isn't one of the usual three */}
+            {[...STANCES, ...(stance && !STANCES.includes(stance) ? [stance] : [])].map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Record</label>
+          <input
+            value={record}
+            onChange={(e) => setRecord(e.target.value)}
+            placeholder="e.g. 27-1-0"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors disabled:opacity-40"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 text-sm text-slate-400 hover:text-slate-200">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FighterEditor;
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+
+interface FighterPhotoProps {
+  photo?: Blob;
+  name: string;
+  className?: string; // Size and shape
+}
+
+/**
+ * A fighter's stored photo, or their initials when there is none.
+ */
+const FighterPhoto: React.FC<FighterPhotoProps> = ({ photo, name, className = 'w-10 h-10 rounded-full' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!photo) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(photo);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  if (url) {
+    return <img src={url} alt={name} className={`${className} object-cover bg-slate-800 flex-shrink-0`} />;
+  }
+
+  const initials = name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('');
+  return (
+    <div className={`${className} bg-slate-700 text-slate-300 font-bold flex items-center justify-center flex-shrink-0`}>
+      {initials || '?'}
+    </div>
+  );
+};
+
+export default FighterPhoto;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import useFighters from '../../hooks/useFighters';
+
+interface FighterPickerProps {
+  value?: string; // Fighter id
+  onChange: (fighterId: string | undefined) => void;
+}
+
+const NEW_FIGHTER = '__new__';
+
+/**
+ * Picks the library fighter a report is filed under, or adds one by name.
+ */
+const FighterPicker: React.FC<FighterPickerProps> = ({ value, onChange }) => {
+  const { fighters, isLoading, save } = useFighters();
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    const fighter = await save({ name });
+    onChange(fighter.id);
+    setName('');
+    setIsAdding(false);
+  };
+
+  if (isAdding) {
+    return (
+      <div className="flex gap-2">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+            if (e.key === 'Escape') setIsAdding(false);
+          }}
+          placeholder="Fighter name"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim()}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm transition-colors disabled:opacity-40"
+        >
+          Add
+        </button>
+        <button onClick={() => setIsAdding(false)} className="px-3 py-2 text-sm text-slate-400 hover:text-slate-200">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      value={value || ''}
+      disabled={isLoading}
+      onChange={(e) => {
+        if (e.target.value === NEW_FIGHTER) setIsAdding(true);
+        else onChange(e.target.value || undefined);
+      }}
+      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+    >
+      <option value="">Not linked to a fighter</option>
+      {fighters.map(f => (
+        <option key={f.id} value={f.id}>{f.name}</option>
+      ))}
+      <option value={NEW_FIGHTER}>+ New fighter...</option>
+    </select>
+  );
+};
+
+export default FighterPicker;
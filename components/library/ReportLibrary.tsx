@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { LibraryEntry, LibraryReportKind } from '../../lib/report-library';
+import useReportLibrary from '../../hooks/useReportLibrary';
+
+interface ReportLibraryProps {
+  onOpen: (entry: LibraryEntry) => void;
+}
+
+export const KIND_LABELS: Record<LibraryReportKind, string> = {
+  'self-scout': 'Self Scout',
+  opponent: 'Opponent Scout',
+  'game-plan': 'Game Plan',
+  scoring: 'Fight Scoring',
+};
+
+export const KIND_STYLES: Record<LibraryReportKind, string> = {
+  'self-scout': 'bg-emerald-500/20 text-emerald-300',
+  opponent: 'bg-blue-500/20 text-blue-300',
+  'game-plan': 'bg-amber-500/20 text-amber-300',
+  scoring: 'bg-red-500/20 text-red-300',
+};
+
+const REPORT_TYPE_LABELS: Record<string, string> = {
+  FIGHT_SCORING: 'Scorecard',
+  SELF_SCOUT_FULL: 'Full',
+  SELF_SCOUT_QUICK: 'Quick',
+  SELF_SCOUT_PROGRESS: 'Progress',
+  OPPONENT_BREAKDOWN_FULL: 'Full',
+  OPPONENT_BREAKDOWN_QUICK: 'Quick',
+  GAME_PLAN_FULL: 'Full',
+  GAME_PLAN_QUICK: 'Fight Week',
+};
+
+// <input type="date"> works in local YYYY-MM-DD
+const toDateInput = (date?: Date) =>
+  date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : '';
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00`) : undefined);
+
+const LibraryRow: React.FC<{
+  entry: LibraryEntry;
+  onOpen: () => void;
+  onRename: (title: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}> = ({ entry, onOpen, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(entry.title);
+
+  const handleSave = async () => {
+    await onRename(title);
+    setIsEditing(false);
+  };
+
+  const handleDelete = async () => {
+    if (window.confirm(`Delete "${entry.title}"? Its stored video is removed too unless another report uses it.`)) {
+      await onDelete();
+    }
+  };
+
+  // Scout reports are shown alongside their footage, so they can't open without it
+  const canOpen = entry.kind === 'scoring' || entry.videoIds.length > 0;
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-4 flex flex-col md:flex-row md:items-center gap-4">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1 flex-wrap">
+          <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${KIND_STYLES[entry.kind]}`}>
+            {KIND_LABELS[entry.kind]}
+          </span>
+          <span className="text-[10px] uppercase text-slate-500">
+            {REPORT_TYPE_LABELS[entry.reportType] || entry.reportType}
+          </span>
+          {entry.videoIds.length === 0 && (
+            <span className="text-[10px] uppercase text-amber-400" title="The source video was not stored with this report">
+              No video
+            </span>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <button onClick={handleSave} className="text-xs text-blue-400 hover:text-blue-300">Save</button>
+            <button onClick={() => { setTitle(entry.title); setIsEditing(false); }} className="text-xs text-slate-400 hover:text-slate-200">Cancel</button>
+          </div>
+        ) : (
+          <h3 className="text-white font-medium truncate">{entry.title}</h3>
+        )}
+
+        <p className="text-xs text-slate-500 mt-1">
+          {entry.fighterName && <>{entry.fighterName} • </>}
+          {new Date(entry.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="flex gap-2 flex-shrink-0">
+        <button
+          onClick={onOpen}
+          disabled={!canOpen}
+          title={canOpen ? undefined : 'The footage for this report was not saved, so it cannot be displayed'}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Open
+        </button>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+        >
+          Rename
+        </button>
+        <button
+          onClick={handleDelete}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-red-600 text-white rounded-lg text-sm transition-colors"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ReportLibrary: React.FC<ReportLibraryProps> = ({ onOpen }) => {
+  const { entries, query, setQuery, isLoading, error, rename, remove } = useReportLibrary();
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 md:p-8">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-5xl font-heading font-bold text-white mb-2">
+          REPORT <span className="text-transparent bg-clip-text bg-gradient-to-r from-red-500 to-blue-500">LIBRARY</span>
+        </h1>
+        <p className="text-slate-400 text-sm md:text-base">
+          Every analysis is saved here with its footage, stored locally in this browser.
+        </p>
+      </header>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <input
+          type="search"
+          placeholder="Search fighter or title..."
+          value={query.text || ''}
+          onChange={(e) => setQuery({ ...query, text: e.target.value })}
+          className="md:col-span-2 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+        />
+        <select
+          value={query.kind || 'all'}
+          onChange={(e) => setQuery({ ...query, kind: e.target.value as LibraryReportKind | 'all' })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+        >
+          <option value="all">All report types</option>
+          {(Object.keys(KIND_LABELS) as LibraryReportKind[]).map(kind => (
+            <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            aria-label="From date"
+            value={toDateInput(query.from)}
+            onChange={(e) => setQuery({ ...query, from: fromDateInput(e.target.value) })}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white text-xs focus:outline-none focus:border-blue-500"
+          />
+          <input
+            type="date"
+            aria-label="To date"
+            value={toDateInput(query.to)}
+            onChange={(e) => setQuery({ ...query, to: fromDateInput(e.target.value) })}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-2 text-white text-xs focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/30 border border-red-500 rounded text-red-200 text-sm">
+          {error.message}
+        </div>
+      )}
+
+      {isLoading && entries.length === 0 ? (
+        <p className="text-slate-500 text-center py-12">Loading library...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">
+          <p>No saved reports{query.text || (query.kind && query.kind !== 'all') || query.from || query.to ? ' match these filters' : ' yet'}.</p>
+          <p className="text-sm mt-2">Run a scoring, opponent scout or self-scout analysis and it will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map(entry => (
+            <LibraryRow
+              key={entry.id}
+              entry={entry}
+              onOpen={() => onOpen(entry)}
+              onRename={(title) => rename(entry.id, title)}
+              onDelete={() => remove(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportLibrary;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { LibraryEntry } from '../../lib/report-library';
+import { SelfScoutReport } from '../../lib/report-parser';
+import useReportLibrary from '../../hooks/useReportLibrary';
+
+interface BaselinePickerProps {
+  selected: LibraryEntry[];
+  onChange: (selected: LibraryEntry[]) => void;
+}
+
+/**
+ * Lists saved self-scout reports so a progress analysis can be compared against them.
+ */
+const BaselinePicker: React.FC<BaselinePickerProps> = ({ selected, onChange }) => {
+  const { entries, isLoading, error } = useReportLibrary({ kind: 'self-scout' });
+
+  const toggle = (entry: LibraryEntry) => {
+    onChange(selected.some(e => e.id === entry.id)
+      ? selected.filter(e => e.id !== entry.id)
+      : [...selected, entry]);
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-400">Could not load saved reports: {error.message}</p>;
+  }
+
+  if (isLoading && entries.length === 0) {
+    return <p className="text-sm text-slate-500">Loading saved reports...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">
+        No saved self-scout reports yet. Run a full or quick analysis first; progress mode compares new footage against it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+      {entries.map(entry => {
+        const report = entry.report as SelfScoutReport;
+        const isSelected = selected.some(e => e.id === entry.id);
+        return (
+          <label
+            key={entry.id}
+            className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${
+              isSelected
+                ? 'bg-emerald-600/20 border-emerald-500'
+                : 'bg-slate-900/50 border-slate-700 hover:border-slate-600'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => toggle(entry)}
+              className="accent-emerald-500"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white truncate">{entry.title}</div>
+              <div className="text-xs text-slate-500">
+                {new Date(entry.createdAt).toLocaleDateString()} • {(report.findings || []).length} issues
+                {entry.videoIds.length === 0 && ' • no stored video'}
+              </div>
+            </div>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BaselinePicker;
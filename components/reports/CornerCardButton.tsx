@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CornerCard, CornerCardItem, CornerCardSource, buildCornerCard } from '../../lib/corner-card';
+
+interface CornerCardButtonProps {
+  source: CornerCardSource;
+  disabled?: boolean; // While the report is still streaming
+}
+
+// Lets the print stylesheet in index.html print the card alone
+const PRINT_CLASS = 'corner-card-open';
+
+const ItemList: React.FC<{ title: string; items: CornerCardItem[]; accent: string }> = ({ title, items, accent }) => (
+  <section className="break-inside-avoid">
+    <h2 className={`text-3xl md:text-4xl font-bold tracking-wide mb-2 ${accent} print:text-black print:text-2xl`}>{title}</h2>
+    <ol className="space-y-3 print:space-y-1">
+      {items.map((item, i) => (
+        <li key={i} className="flex gap-3">
+          <span className={`font-heading text-3xl leading-none ${accent} print:text-black print:text-xl`}>{i + 1}</span>
+          <div>
+            <p className="text-xl md:text-2xl font-semibold text-white leading-tight print:text-black print:text-base">{item.title}</p>
+            {item.detail && <p className="text-base md:text-lg text-slate-300 leading-snug print:text-slate-700 print:text-sm">{item.detail}</p>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  </section>
+);
+
+/**
+ * The card itself: large type for a phone in the corner, black on white and
+ * one page when printed.
+ */
+const CardSheet: React.FC<{ card: CornerCard; onClose: () => void }> = ({ card, onClose }) => {
+  const isEmpty = card.threats.length + card.openings.length + card.branches.length + card.cues.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-slate-950 print:static print:overflow-visible print:bg-white">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-8 print:p-0 print:space-y-4 print:max-w-none">
+        <div className="flex justify-end gap-3 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="px-5 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-bold"
+          >
+            Print
+          </button>
+          <button
+            onClick={onClose}
+            className="px-5 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg"
+          >
+            Close
+          </button>
+        </div>
+
+        <header className="border-b-4 border-red-600 pb-3">
+          <h1 className="text-5xl md:text-6xl font-bold text-white leading-none print:text-black print:text-4xl">{card.title}</h1>
+          <p className="text-sm text-slate-400 mt-1 print:text-slate-600">
+            {card.subtitle} • CORNER <span className="text-red-600">AI</span>
+          </p>
+          {card.headline && (
+            <p className="text-xl md:text-2xl text-amber-300 font-semibold mt-3 print:text-black print:text-lg">{card.headline}</p>
+          )}
+        </header>
+
+        {isEmpty && <p className="text-xl text-slate-400">Nothing in this report to put on a corner card yet.</p>}
+
+        <div className="grid md:grid-cols-2 gap-8 print:grid-cols-2 print:gap-6">
+          {card.threats.length > 0 && <ItemList title="Top Threats" items={card.threats} accent="text-red-400" />}
+          {card.openings.length > 0 && <ItemList title="Openings" items={card.openings} accent="text-emerald-400" />}
+        </div>
+
+        {card.branches.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="text-3xl md:text-4xl font-bold tracking-wide mb-2 text-blue-400 print:text-black print:text-2xl">If / Then</h2>
+            <ul className="space-y-3 print:space-y-1">
+              {card.branches.map((branch, i) => (
+                <li key={i} className="text-xl md:text-2xl leading-tight text-white print:text-black print:text-base">
+                  <span className="font-heading text-blue-400 print:text-black">IF </span>{branch.when}
+                  <span className="font-heading text-emerald-400 print:text-black"> → </span>
+                  <span className="font-semibold">{branch.then}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {card.cues.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="text-3xl md:text-4xl font-bold tracking-wide mb-2 text-amber-400 print:text-black print:text-2xl">Round Cues</h2>
+            <dl className="space-y-3 print:space-y-1">
+              {card.cues.map((cue, i) => (
+                <div key={i} className="flex gap-3 items-baseline">
+                  <dt className="font-heading text-2xl text-amber-400 shrink-0 w-32 print:text-black print:text-lg print:w-28">{cue.label}</dt>
+                  <dd className="text-xl md:text-2xl text-white leading-tight print:text-black print:text-base">{cue.text}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * "Corner Card" button that opens the report condensed to one page, over
+ * the rest of the app.
+ */
+const CornerCardButton: React.FC<CornerCardButtonProps> = ({ source, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const card = useMemo(() => (isOpen ? buildCornerCard(source) : null), [isOpen, source]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    document.body.classList.add(PRINT_CLASS);
+    return () => document.body.classList.remove(PRINT_CLASS);
+  }, [isOpen]);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Corner Card
+      </button>
+      {card && createPortal(<CardSheet card={card} onClose={() => setIsOpen(false)} />, document.body)}
+    </>
+  );
+};
+
+export default CornerCardButton;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ExportableReport } from '../../lib/export-document';
+import { EXPORT_FORMATS } from '../../lib/report-export';
+import useReportExport from '../../hooks/useReportExport';
+
+interface ExportMenuProps {
+  input: ExportableReport;
+  videos?: File[]; // For the stills in a PDF
+  disabled?: boolean; // While the report is still streaming or being verified
+}
+
+/**
+ * "Export" button with a menu of formats; the file downloads when it's ready.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ input, videos, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { exportAs, pendingFormat, error } = useReportExport(input, videos);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || pendingFormat !== null}
+        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {pendingFormat ? 'Exporting…' : 'Export ▾'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-44 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-30 overflow-hidden">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setIsOpen(false);
+                exportAs(format);
+              }}
+              className="block w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="absolute right-0 mt-2 w-64 text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded p-2">
+          Export failed: {error.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FighterProfile } from '../../lib/report-parser';
+
+interface FighterProfileCardProps {
+  profile?: FighterProfile;
+  accent?: string; // Text colour class for the values
+}
+
+const ATTRIBUTES: { key: keyof FighterProfile; label: string }[] = [
+  { key: 'height', label: 'Height' },
+  { key: 'reach', label: 'Reach' },
+  { key: 'stance', label: 'Stance' },
+  { key: 'record', label: 'Record' },
+  { key: 'age', label: 'Age' },
+];
+
+/**
+ * The tale of the tape read from the stat sheet images.
+ */
+const FighterProfileCard: React.FC<FighterProfileCardProps> = ({ profile, accent = 'text-blue-300' }) => {
+  const shown = ATTRIBUTES.filter(a => profile?.[a.key]);
+  if (!profile || shown.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-700 p-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-white font-heading text-lg uppercase">Tale of the Tape</h3>
+        {profile.name && <span className="text-xs text-slate-400">{profile.name}</span>}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {shown.map(({ key, label }) => (
+          <div key={key} className="bg-slate-800 rounded-lg px-3 py-2 border border-slate-700">
+            <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+            <div className={`font-mono font-bold text-sm ${accent}`}>{profile[key]}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FighterProfileCard;
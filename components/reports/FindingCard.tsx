@@ -6,10 +6,13 @@ import { Timestamp } from '../video/TimestampMarker';
 interface FindingCardProps {
   finding: Finding;
   onTimestampClick: (timestamp: Timestamp) => void;
+  onDownloadClip?: (timestamp: Timestamp) => void;
+  downloadingSeconds?: number | null; // Timestamp whose clip is being cut
 }
 
-const FindingCard: React.FC<FindingCardProps> = ({ finding, onTimestampClick }) => {
+const FindingCard: React.FC<FindingCardProps> = ({ finding, onTimestampClick, onDownloadClip, downloadingSeconds = null }) => {
   const [expanded, setExpanded] = useState(false);
+  const firstMoment = finding.timestamps.find(ts => !ts.invalid);
 
   const getSeverityColor = (s: string) => {
     switch (s) {
@@ -47,6 +50,9 @@ const FindingCard: React.FC<FindingCardProps> = ({ finding, onTimestampClick })
             {finding.severity === 'critical' && (
               <span className="text-red-500 text-[10px] font-bold uppercase animate-pulse">Critical</span>
             )}
+            {finding.verification?.status === 'unconfirmed' && (
+              <span className="text-amber-400 text-[10px] font-bold uppercase">Unconfirmed</span>
+            )}
           </div>
           <h4 className="text-slate-200 font-semibold text-sm">{finding.title}</h4>
         </div>
@@ -62,10 +68,29 @@ const FindingCard: React.FC<FindingCardProps> = ({ finding, onTimestampClick })
             <div className="flex flex-wrap gap-y-2">
               <span className="text-xs text-slate-500 mr-2 self-center">Evidence:</span>
               {finding.timestamps.map((ts, idx) => (
-                <TimestampChip key={idx} timestamp={ts} onClick={() => onTimestampClick(ts)} variant="compact" />
+                <TimestampChip
+                  key={idx}
+                  timestamp={ts}
+                  onClick={() => onTimestampClick(ts)}
+                  variant="compact"
+                  onDownloadClip={onDownloadClip}
+                  isDownloading={downloadingSeconds === ts.seconds}
+                />
               ))}
             </div>
           )}
+          {onDownloadClip && firstMoment && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDownloadClip(firstMoment);
+              }}
+              disabled={downloadingSeconds !== null}
+              className="mt-3 px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-wait"
+            >
+              {downloadingSeconds === firstMoment.seconds ? 'Cutting clip…' : 'Download clip'}
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import {
+  FOOTAGE_REF_PATTERN,
+  GamePlanFootage,
+  GamePlanReport,
+  GamePlanSection,
+  footageOfLabel,
+  parseTimestampText,
+} from '../../lib/report-parser';
+import { UploadedVideo } from '../../hooks/useVideoUpload';
+import { Timestamp } from '../video/TimestampMarker';
+import VideoPlayer from '../video/VideoPlayer';
+import TimestampChip from './TimestampChip';
+import TimestampCheckBanner from './TimestampCheckBanner';
+import { isWithinDuration } from '../../lib/timestamp-validation';
+
+interface GamePlanDisplayProps {
+  report: GamePlanReport;
+  userVideo: UploadedVideo;
+  opponentVideo: UploadedVideo;
+  isStreaming?: boolean; // Plan is partial and still being generated
+  onRegenerate?: () => void; // Offered when too many timestamps are invalid
+}
+
+const FOOTAGE_LABELS: Record<GamePlanFootage, { short: string; text: string }> = {
+  user: { short: 'You', text: 'text-emerald-400' },
+  opponent: { short: 'Opp', text: 'text-red-400' },
+};
+
+const renderBold = (text: string, keyPrefix: string) =>
+  text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+    part.startsWith('**') && part.endsWith('**') && part.length > 4
+      ? <strong key={`${keyPrefix}-${i}`} className="text-white">{part.slice(2, -2)}</strong>
+      : part
+  );
+
+const GamePlanDisplay: React.FC<GamePlanDisplayProps> = ({ report, userVideo, opponentVideo, isStreaming = false, onRegenerate }) => {
+  const [active, setActive] = useState<Record<GamePlanFootage, Timestamp | null>>({ user: null, opponent: null });
+  const videos: Record<GamePlanFootage, UploadedVideo> = { user: userVideo, opponent: opponentVideo };
+
+  // New object so clicking the same timestamp seeks again
+  const handleTimestampClick = (footage: GamePlanFootage) => (timestamp: Timestamp) =>
+    setActive(prev => ({ ...prev, [footage]: { ...timestamp } }));
+
+  // Progress bar markers per tape, leaving out moments past the end of it
+  const markers = useMemo(() => ({
+    user: report.sections.flatMap(s => s.footage.user).filter(ts => !ts.invalid),
+    opponent: report.sections.flatMap(s => s.footage.opponent).filter(ts => !ts.invalid),
+  }), [report.sections]);
+
+  /**
+   * Turns [User 0:45] / [Opponent 1:12] references into chips that seek the
+   * matching video; everything else is text with **bold** kept.
+   */
+  const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    const regex = new RegExp(FOOTAGE_REF_PATTERN, 'gi');
+    let last = 0;
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+      nodes.push(...renderBold(text.slice(last, match.index), `${keyPrefix}-${match.index}`));
+      const footage = footageOfLabel(match[1]);
+      const times = match[2].split(',').map(t => parseTimestampText(t)).filter(t => t !== null);
+      nodes.push(
+        <span key={`${keyPrefix}-ref-${match.index}`} className="inline-flex items-center gap-1 mx-0.5 align-middle">
+          <span className={`text-[10px] uppercase font-bold ${FOOTAGE_LABELS[footage].text}`}>{FOOTAGE_LABELS[footage].short}</span>
+          {times.map((parsed, i) => (
+            <TimestampChip
+              key={i}
+              timestamp={{
+                ...parsed,
+                label: '',
+                category: 'other',
+                invalid: !isWithinDuration(parsed.seconds, videos[footage].duration),
+              }}
+              onClick={handleTimestampClick(footage)}
+              isActive={active[footage]?.seconds === parsed.seconds}
+              variant="compact"
+            />
+          ))}
+        </span>
+      );
+      last = match.index + match[0].length;
+    }
+
+    nodes.push(...renderBold(text.slice(last), `${keyPrefix}-end`));
+    return nodes;
+  };
+
+  const renderContent = (content: string, keyPrefix: string) => (
+    <div className="text-sm text-slate-300 leading-relaxed space-y-1">
+      {content.split('\n').map((line, i) => {
+        const cleanLine = line.trim();
+        if (!cleanLine) return null;
+        const bullet = cleanLine.match(/^(?:[-*•]|\d+\.)\s+(.*)$/);
+        return bullet ? (
+          <li key={i} className="ml-4 list-disc marker:text-amber-500">{renderInline(bullet[1], `${keyPrefix}-${i}`)}</li>
+        ) : (
+          <p key={i}>{renderInline(cleanLine, `${keyPrefix}-${i}`)}</p>
+        );
+      })}
+    </div>
+  );
+
+  const renderSectionCard = (section: GamePlanSection, accent: string) => (
+    <div key={section.id} className={`bg-slate-800 rounded-xl border border-slate-700 border-l-4 ${accent} p-5`}>
+      <h3 className="text-lg font-heading text-white uppercase mb-3">{section.title}</h3>
+      {renderContent(section.content, section.id)}
+    </div>
+  );
+
+  const highlighted = new Set([report.matchup?.id, report.blueprint?.id]);
+  const otherSections = report.sections.filter(s => !highlighted.has(s.id) && !/ROUND/i.test(s.title));
+
+  return (
+    <div className="space-y-6">
+      {/* Both tapes side by side */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {(['user', 'opponent'] as GamePlanFootage[]).map(footage => (
+          <div key={footage} className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className={`uppercase font-bold tracking-wider ${FOOTAGE_LABELS[footage].text}`}>
+                {footage === 'user' ? report.fighterName || 'You' : report.opponentName || 'Opponent'}
+              </span>
+              <span className="text-slate-500 font-mono truncate ml-2">{videos[footage].filename}</span>
+            </div>
+            <div className="bg-black rounded-xl overflow-hidden border border-slate-700 shadow-2xl">
+              <VideoPlayer
+                src={videos[footage].url}
+                timestamps={markers[footage]}
+                onTimestampClick={handleTimestampClick(footage)}
+                activeTimestamp={active[footage]}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isStreaming && (
+        <div className="flex items-center gap-3 px-4 py-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-300">
+          <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+          <span>Writing game plan… {report.sections.length} section{report.sections.length !== 1 ? 's' : ''} received</span>
+        </div>
+      )}
+
+      {!isStreaming && <TimestampCheckBanner metadata={report.metadata} onRegenerate={onRegenerate} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {report.matchup && renderSectionCard(report.matchup, 'border-l-blue-500')}
+        {report.blueprint && renderSectionCard(report.blueprint, 'border-l-amber-500')}
+      </div>
+
+      {/* Round-by-round guide */}
+      {report.rounds.length > 0 && (
+        <div>
+          <h3 className="text-xl font-heading text-white uppercase mb-3">Round by Round</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {report.rounds.map(round => (
+              <div key={round.round} className="bg-slate-800 rounded-xl border border-slate-700 p-4">
+                <div className="text-xs uppercase font-bold tracking-wider text-amber-400 mb-2">Round {round.round}</div>
+                {renderContent(round.content, `round-${round.round}`)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {otherSections.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {otherSections.map(section => renderSectionCard(section, 'border-l-slate-500'))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GamePlanDisplay;
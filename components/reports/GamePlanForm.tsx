@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import VideoUploader from '../video/VideoUploader';
+import { UploadedVideo } from '../../hooks/useVideoUpload';
+
+export interface GamePlanInput {
+  userVideo: UploadedVideo;
+  opponentVideo: UploadedVideo;
+  context: {
+    fighterName?: string;
+    opponentName?: string;
+    weightClass?: string;
+    notes?: string;
+  };
+  reportType: 'full' | 'quick';
+}
+
+interface GamePlanFormProps {
+  onSubmit: (data: GamePlanInput) => void;
+  isLoading: boolean;
+}
+
+const FootageSlot: React.FC<{
+  step: number;
+  title: string;
+  accent: string;
+  video: UploadedVideo | null;
+  onChange: (video: UploadedVideo | null) => void;
+  onError: (err: Error) => void;
+}> = ({ step, title, accent, video, onChange, onError }) => (
+  <div className="space-y-4">
+    <h3 className="text-xl font-heading text-white flex items-center gap-2">
+      <span className={`w-6 h-6 rounded-full ${accent} text-xs flex items-center justify-center`}>{step}</span>
+      {title}
+    </h3>
+    {video ? (
+      <div className="bg-black rounded-lg overflow-hidden border border-slate-600 relative group">
+        <video src={video.url} className="w-full h-48 object-cover opacity-60" />
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <p className="text-white font-mono text-sm mb-2">{video.filename}</p>
+          <button
+            onClick={() => onChange(null)}
+            className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded text-sm transition-colors"
+          >
+            Change Video
+          </button>
+        </div>
+      </div>
+    ) : (
+      <VideoUploader
+        onUploadComplete={onChange}
+        onError={onError}
+        label="Upload Fight Video"
+        className="h-48"
+      />
+    )}
+  </div>
+);
+
+const GamePlanForm: React.FC<GamePlanFormProps> = ({ onSubmit, isLoading }) => {
+  const [userVideo, setUserVideo] = useState<UploadedVideo | null>(null);
+  const [opponentVideo, setOpponentVideo] = useState<UploadedVideo | null>(null);
+  const [reportType, setReportType] = useState<'full' | 'quick'>('full');
+
+  const [context, setContext] = useState({
+    fighterName: '',
+    opponentName: '',
+    weightClass: '',
+    notes: ''
+  });
+
+  const handleSubmit = () => {
+    if (!userVideo || !opponentVideo) return;
+    onSubmit({
+      userVideo,
+      opponentVideo,
+      context,
+      reportType,
+    });
+  };
+
+  const handleVideoError = (err: Error) => {
+    console.error(err);
+    alert(err.message);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 md:p-8 shadow-xl">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <FootageSlot
+          step={1}
+          title="Your Footage"
+          accent="bg-emerald-600"
+          video={userVideo}
+          onChange={setUserVideo}
+          onError={handleVideoError}
+        />
+        <FootageSlot
+          step={2}
+          title="Opponent Footage"
+          accent="bg-red-600"
+          video={opponentVideo}
+          onChange={setOpponentVideo}
+          onError={handleVideoError}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+        <div className="space-y-4">
+          <h3 className="text-xl font-heading text-white flex items-center gap-2">
+            <span className="w-6 h-6 rounded-full bg-amber-600 text-xs flex items-center justify-center">3</span>
+            Plan Type
+          </h3>
+
+          <div className="flex gap-4">
+            <button
+              onClick={() => setReportType('full')}
+              className={`flex-1 py-3 px-4 rounded-lg border text-left transition-all ${reportType === 'full' ? 'bg-amber-900/30 border-amber-500 ring-1 ring-amber-500' : 'bg-slate-900/50 border-slate-600 hover:border-slate-500'}`}
+            >
+              <span className={`block font-bold text-sm mb-1 ${reportType === 'full' ? 'text-amber-400' : 'text-slate-300'}`}>Full Game Plan</span>
+              <span className="block text-xs text-slate-500">Matchup, blueprint, round-by-round guide and camp drills.</span>
+            </button>
+            <button
+              onClick={() => setReportType('quick')}
+              className={`flex-1 py-3 px-4 rounded-lg border text-left transition-all ${reportType === 'quick' ? 'bg-amber-900/30 border-amber-500 ring-1 ring-amber-500' : 'bg-slate-900/50 border-slate-600 hover:border-slate-500'}`}
+            >
+              <span className={`block font-bold text-sm mb-1 ${reportType === 'quick' ? 'text-amber-400' : 'text-slate-300'}`}>Fight Week</span>
+              <span className="block text-xs text-slate-500">How you win, what to avoid and the round 1 focus.</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-xl font-heading text-white flex items-center gap-2">
+            <span className="w-6 h-6 rounded-full bg-slate-600 text-xs flex items-center justify-center">4</span>
+            Context (Optional)
+          </h3>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Your Name</label>
+              <input
+                type="text"
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm focus:border-amber-500 focus:outline-none"
+                value={context.fighterName}
+                onChange={e => setContext({...context, fighterName: e.target.value})}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Opponent Name</label>
+              <input
+                type="text"
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm focus:border-amber-500 focus:outline-none"
+                value={context.opponentName}
+                onChange={e => setContext({...context, opponentName: e.target.value})}
+                placeholder="e.g. Jon Jones"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Weight Class</label>
+            <input
+              type="text"
+              className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm focus:border-amber-500 focus:outline-none"
+              value={context.weightClass}
+              onChange={e => setContext({...context, weightClass: e.target.value})}
+              placeholder="e.g. Lightweight, 5 x 5 minute rounds"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Notes</label>
+            <textarea
+              className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm focus:border-amber-500 focus:outline-none h-24 resize-none"
+              value={context.notes}
+              onChange={e => setContext({...context, notes: e.target.value})}
+              placeholder="Injuries, short notice, what worked in camp..."
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8 border-t border-slate-700 pt-6">
+        <button
+          onClick={handleSubmit}
+          disabled={!userVideo || !opponentVideo || isLoading}
+          className="w-full bg-gradient-to-r from-emerald-600 to-red-600 hover:from-emerald-500 hover:to-red-500 text-white font-heading text-2xl py-3 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {isLoading ? 'BUILDING GAME PLAN...' : 'BUILD GAME PLAN'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GamePlanForm;
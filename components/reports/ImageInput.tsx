@@ -0,0 +1,62 @@
+import React, { useId, useRef } from 'react';
+
+interface ImageInputProps {
+  images: File[];
+  onChange: (images: File[]) => void;
+  hint?: string;
+}
+
+/**
+ * Stat sheet / tale-of-the-tape images sent along with the footage.
+ */
+const ImageInput: React.FC<ImageInputProps> = ({
+  images,
+  onChange,
+  hint = 'Upload screenshots of official stats or fighter profile cards.',
+}) => {
+  const inputId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      onChange([...images, ...Array.from(e.target.files)]);
+    }
+    // Allow picking the same file again after removing it
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700">
+      <div className="flex flex-wrap gap-4 mb-3">
+        {images.map((file, idx) => (
+          <div key={idx} className="relative group">
+            <div className="w-20 h-20 bg-slate-800 rounded border border-slate-600 flex items-center justify-center overflow-hidden">
+              <span className="text-xs text-slate-500 text-center break-all p-1">{file.name}</span>
+            </div>
+            <button
+              onClick={() => onChange(images.filter((_, i) => i !== idx))}
+              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          id={inputId}
+          onChange={handleImageUpload}
+        />
+        <label htmlFor={inputId} className="w-20 h-20 border-2 border-dashed border-slate-600 hover:border-slate-400 rounded flex items-center justify-center cursor-pointer text-slate-500 hover:text-white transition-colors">
+          <span className="text-2xl">+</span>
+        </label>
+      </div>
+      <p className="text-xs text-slate-500">{hint}</p>
+    </div>
+  );
+};
+
+export default ImageInput;
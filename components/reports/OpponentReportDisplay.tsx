@@ -1,27 +1,50 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { OpponentReport, ReportSection, DecisionNode, Finding, Technique } from '../../lib/report-parser';
 import { UploadedVideo } from '../../hooks/useVideoUpload';
-import { Timestamp } from '../video/TimestampMarker';
+import { Timestamp, formatTimestampText } from '../video/TimestampMarker';
 import VideoPlayer from '../video/VideoPlayer';
 import TimestampChip from './TimestampChip';
+import { useClipDownload, videoForTimestamp } from '../../hooks/useClipDownload';
+import { useHighlightReel } from '../../hooks/useHighlightReel';
+import ReelStatus from './ReelStatus';
+import TimestampCheckBanner from './TimestampCheckBanner';
+import FighterProfileCard from './FighterProfileCard';
+import { planDecisionTreeReel, planFindingReel, planTechniquesReel } from '../../lib/highlight-reel';
+import { TIMESTAMP_REF_PATTERN } from '../../lib/video-processing';
+
+const ReelButton: React.FC<{ onClick: () => void; disabled: boolean }> = ({ onClick, disabled }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-wait"
+  >
+    🎬 Build reel
+  </button>
+);
 
 interface OpponentReportDisplayProps {
   report: OpponentReport;
-  video: UploadedVideo;
+  videos: UploadedVideo[]; // Timestamps name theirs with videoId when there are several
+  isStreaming?: boolean; // Report is partial and still being generated
+  isVerifying?: boolean; // Evidence verification pass is still running
+  onRegenerate?: () => void; // Offered when too many timestamps are past the end of the video
 }
 
-const DecisionTreeVisual: React.FC<{ nodes: DecisionNode[] }> = ({ nodes }) => {
+const DecisionTreeVisual: React.FC<{ nodes: DecisionNode[]; onBuildReel: () => void; isBuildingReel: boolean }> = ({ nodes, onBuildReel, isBuildingReel }) => {
   if (!nodes || nodes.length === 0) return null;
 
   return (
     <div className="space-y-4">
       <div className="bg-slate-900/50 p-4 rounded-xl border border-blue-500/20">
-         <h3 className="text-blue-400 font-heading text-xl mb-4 flex items-center gap-2">
-           <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-           </svg>
-           Decision Tree (Counter Logic)
-         </h3>
+         <div className="flex justify-between items-start mb-4">
+           <h3 className="text-blue-400 font-heading text-xl flex items-center gap-2">
+             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+             </svg>
+             Decision Tree (Counter Logic)
+           </h3>
+           {nodes.some(n => n.timestamp) && <ReelButton onClick={onBuildReel} disabled={isBuildingReel} />}
+         </div>
          <div className="space-y-4">
            {nodes.map((node, i) => (
              <div key={i} className="flex flex-col md:flex-row items-stretch gap-0 md:gap-4 relative group">
@@ -35,7 +58,7 @@ const DecisionTreeVisual: React.FC<{ nodes: DecisionNode[] }> = ({ nodes }) => {
                  {node.timestamp && (
                    <div className="mt-2 text-right">
                      <span className="text-xs font-mono bg-black/30 px-1.5 py-0.5 rounded text-red-300">
-                       [{node.timestamp.time}]
+                       [{formatTimestampText(node.timestamp)}]
                      </span>
                    </div>
                  )}
@@ -70,17 +93,20 @@ const DecisionTreeVisual: React.FC<{ nodes: DecisionNode[] }> = ({ nodes }) => {
   );
 };
 
-const TechniquesVisual: React.FC<{ techniques: Technique[] }> = ({ techniques }) => {
+const TechniquesVisual: React.FC<{ techniques: Technique[]; onBuildReel: () => void; isBuildingReel: boolean }> = ({ techniques, onBuildReel, isBuildingReel }) => {
     if (!techniques || techniques.length === 0) return null;
   
     return (
       <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
-         <h3 className="text-purple-400 font-heading text-xl mb-4 flex items-center gap-2">
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-            </svg>
-            Most Utilized Techniques
-         </h3>
+         <div className="flex justify-between items-start mb-4">
+           <h3 className="text-purple-400 font-heading text-xl flex items-center gap-2">
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+              Most Utilized Techniques
+           </h3>
+           {techniques.some(t => t.timestamps.length > 0) && <ReelButton onClick={onBuildReel} disabled={isBuildingReel} />}
+         </div>
          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
             {techniques.map((tech, i) => (
                <div key={i} className="bg-slate-800 p-3 rounded-lg border border-slate-700 hover:border-purple-500/50 transition-colors">
@@ -88,7 +114,7 @@ const TechniquesVisual: React.FC<{ techniques: Technique[] }> = ({ techniques })
                   <div className="flex flex-wrap gap-1">
                      {tech.timestamps.slice(0, 3).map((ts, idx) => (
                         <span key={idx} className="text-[10px] font-mono bg-purple-900/30 text-purple-300 px-1.5 py-0.5 rounded">
-                           [{ts.time}]
+                           [{formatTimestampText(ts)}]
                         </span>
                      ))}
                   </div>
@@ -99,7 +125,15 @@ const TechniquesVisual: React.FC<{ techniques: Technique[] }> = ({ techniques })
     );
 };
 
-const FindingList: React.FC<{ items: Finding[], type: 'good' | 'bad' }> = ({ items, type }) => {
+const FindingList: React.FC<{
+  items: Finding[];
+  type: 'good' | 'bad';
+  onTimestampClick: (timestamp: Timestamp) => void;
+  onDownloadClip: (timestamp: Timestamp) => void;
+  downloadingSeconds: number | null;
+  onBuildReel: (finding: Finding) => void;
+  isBuildingReel: boolean;
+}> = ({ items, type, onTimestampClick, onDownloadClip, downloadingSeconds, onBuildReel, isBuildingReel }) => {
   const isGood = type === 'good';
   const borderColor = isGood ? 'border-emerald-500/30' : 'border-red-500/30';
   const headerColor = isGood ? 'text-emerald-400' : 'text-red-400';
@@ -125,15 +159,38 @@ const FindingList: React.FC<{ items: Finding[], type: 'good' | 'bad' }> = ({ ite
                {i + 1}
              </div>
              <div>
-               <div className="text-slate-200 font-bold text-sm">{cleanTitle(item.title)}</div>
+               <div className="text-slate-200 font-bold text-sm">
+                 {cleanTitle(item.title)}
+                 {item.verification?.status === 'unconfirmed' && (
+                   <span className="ml-2 text-[10px] font-normal uppercase text-amber-400" title="The evidence verification pass found no instances of this">⚠ unconfirmed</span>
+                 )}
+                 {item.verification?.status === 'partial' && (
+                   <span className="ml-2 text-[10px] font-normal uppercase text-yellow-400" title="Not every cited timestamp was found again">partially verified</span>
+                 )}
+               </div>
                <div className="text-slate-400 text-xs mt-1 leading-snug">{stripTimestampText(item.description)}</div>
                {item.timestamps.length > 0 && (
                  <div className="mt-1 flex flex-wrap gap-1">
                    {item.timestamps.slice(0, 2).map((ts, idx) => (
-                     <span key={idx} className="text-[10px] font-mono bg-slate-800 text-slate-400 px-1 rounded">
-                       [{ts.time}]
-                     </span>
+                     <TimestampChip
+                       key={idx}
+                       timestamp={ts}
+                       onClick={onTimestampClick}
+                       variant="compact"
+                       onDownloadClip={onDownloadClip}
+                       isDownloading={downloadingSeconds === ts.seconds}
+                     />
                    ))}
+                   {item.timestamps.length > 1 && (
+                     <button
+                       onClick={() => onBuildReel(item)}
+                       disabled={isBuildingReel}
+                       className="text-[10px] text-slate-400 hover:text-white px-1 disabled:opacity-50 disabled:cursor-wait"
+                       title={`Stitch all ${item.timestamps.length} moments into one video`}
+                     >
+                       🎬 reel
+                     </button>
+                   )}
                  </div>
                )}
              </div>
@@ -146,20 +203,64 @@ const FindingList: React.FC<{ items: Finding[], type: 'good' | 'bad' }> = ({ ite
   );
 };
 
-const OpponentReportDisplay: React.FC<OpponentReportDisplayProps> = ({ report, video }) => {
+const OpponentReportDisplay: React.FC<OpponentReportDisplayProps> = ({ report, videos, isStreaming = false, isVerifying = false, onRegenerate }) => {
   const profileSection = report.sections.find(s => s.title.toLowerCase().includes('profile'));
+  const [activeTimestamp, setActiveTimestamp] = useState<Timestamp | null>(null);
+  const [video, setVideo] = useState<UploadedVideo>(videos[0]);
+  const { downloadClip, pendingSeconds, error: clipError } = useClipDownload(videos);
+  const reel = useHighlightReel(video);
+  const isBuildingReel = reel.building !== null;
+  const reelOptions = { duration: video.duration };
+
+  // A new set of videos (another report) starts on the first one
+  useEffect(() => setVideo(videos[0]), [videos]);
+
+  // Moments on the tape being shown; reels are cut from that tape only
+  const onTape = (timestamps: Timestamp[]) => timestamps.filter(ts => videoForTimestamp(videos, ts) === video);
+
+  // Load the tape the timestamp was cited in, then seek (new object so clicking the same timestamp seeks again)
+  const handleTimestampClick = (timestamp: Timestamp) => {
+    setVideo(videoForTimestamp(videos, timestamp) ?? video);
+    setActiveTimestamp({ ...timestamp });
+  };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-140px)]">
       
       {/* Left Col: Video (Sticky) */}
       <div className="lg:col-span-1 lg:sticky lg:top-4 h-fit space-y-4">
+        {videos.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {videos.map((v, i) => (
+              <button
+                key={v.url}
+                onClick={() => setVideo(v)}
+                className={`px-3 py-1.5 rounded-lg text-xs border transition-colors max-w-full truncate ${
+                  v === video ? 'bg-blue-900/40 border-blue-500 text-blue-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+                title={v.filename}
+              >
+                <span className="font-mono font-bold mr-1">V{i + 1}</span>{v.filename}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="bg-black rounded-xl overflow-hidden border border-slate-700 shadow-2xl">
           <VideoPlayer 
+            key={video.url}
             src={video.url} 
-            timestamps={report.timestamps}
+            timestamps={onTape(report.timestamps)}
+            onTimestampClick={handleTimestampClick}
+            activeTimestamp={activeTimestamp}
           />
         </div>
+        {(pendingSeconds !== null || clipError) && (
+          <div className={`px-3 py-2 rounded-lg text-xs border ${clipError ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-slate-800 border-slate-700 text-slate-300'}`}>
+            {clipError ? `Could not cut the clip: ${clipError.message}` : 'Cutting clip…'}
+          </div>
+        )}
+        <ReelStatus building={reel.building} progress={reel.progress} error={reel.error} onCancel={reel.cancel} />
+        {!isStreaming && !isVerifying && <TimestampCheckBanner metadata={report.metadata} onRegenerate={onRegenerate} />}
         <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
            <h3 className="text-white font-heading text-lg mb-2">Metadata</h3>
            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
@@ -185,6 +286,8 @@ const OpponentReportDisplay: React.FC<OpponentReportDisplayProps> = ({ report, v
               </button>
             </div>
           </div>
+
+          <FighterProfileCard profile={report.profile} />
           
           {profileSection && (
              <div className="mt-6 pl-5">
@@ -211,21 +314,67 @@ const OpponentReportDisplay: React.FC<OpponentReportDisplayProps> = ({ report, v
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+
+           {isStreaming && (
+             <div className="flex items-center gap-3 px-4 py-3 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm text-blue-300">
+               <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />
+               <span>Writing report… {report.sections.length} section{report.sections.length !== 1 ? 's' : ''} received</span>
+             </div>
+           )}
+
+           {isVerifying && (
+             <div className="flex items-center gap-3 px-4 py-3 bg-sky-500/10 border border-sky-500/30 rounded-lg text-sm text-sky-300">
+               <span className="w-2 h-2 rounded-full bg-sky-400 animate-pulse" />
+               <span>Verifying evidence… re-checking each strength and weakness against the footage</span>
+             </div>
+           )}
            
            {/* Section: Good vs Bad */}
            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-             <FindingList items={report.strengths || []} type="good" />
-             <FindingList items={report.weaknesses || []} type="bad" />
+             <FindingList
+               items={report.strengths || []}
+               type="good"
+               onTimestampClick={handleTimestampClick}
+               onDownloadClip={downloadClip}
+               downloadingSeconds={pendingSeconds}
+               onBuildReel={(finding) => reel.buildReel(planFindingReel({ ...finding, timestamps: onTape(finding.timestamps) }, reelOptions))}
+               isBuildingReel={isBuildingReel}
+             />
+             <FindingList
+               items={report.weaknesses || []}
+               type="bad"
+               onTimestampClick={handleTimestampClick}
+               onDownloadClip={downloadClip}
+               downloadingSeconds={pendingSeconds}
+               onBuildReel={(finding) => reel.buildReel(planFindingReel({ ...finding, timestamps: onTape(finding.timestamps) }, reelOptions))}
+               isBuildingReel={isBuildingReel}
+             />
            </div>
 
             {/* Section: Techniques */}
             {report.mostUtilizedTechniques && report.mostUtilizedTechniques.length > 0 && (
-                <TechniquesVisual techniques={report.mostUtilizedTechniques} />
+                <TechniquesVisual
+                  techniques={report.mostUtilizedTechniques}
+                  onBuildReel={() => reel.buildReel(planTechniquesReel(
+                    report.mostUtilizedTechniques.map(t => ({ ...t, timestamps: onTape(t.timestamps) })),
+                    report.fighterName,
+                    reelOptions
+                  ))}
+                  isBuildingReel={isBuildingReel}
+                />
             )}
 
            {/* Section: Decision Tree */}
            {report.decisionTree && report.decisionTree.length > 0 && (
-             <DecisionTreeVisual nodes={report.decisionTree} />
+             <DecisionTreeVisual
+               nodes={report.decisionTree}
+               onBuildReel={() => reel.buildReel(planDecisionTreeReel(
+                 report.decisionTree.filter(n => !n.timestamp || onTape([n.timestamp]).length > 0),
+                 report.fighterName,
+                 reelOptions
+               ))}
+               isBuildingReel={isBuildingReel}
+             />
            )}
 
            {/* Section: Rest of the Report (Exclude specific sections to avoid duplication) */}
@@ -280,13 +429,13 @@ const cleanTitle = (title: string | undefined): string => {
 };
 
 const stripTimestampText = (text: string): string => {
-  return text.replace(/[\[\(]\d{1,2}:\d{2}(?:-\d{1,2}:\d{2})?[\]\)]/g, '').trim();
+  return text.replace(new RegExp(TIMESTAMP_REF_PATTERN, 'g'), '').trim();
 }
 
 const highlightTimestamps = (text: string) => {
-  const parts = text.split(/([\[\(]\d{1,2}:\d{2}[\]\)])/g);
+  const parts = text.split(new RegExp(`(${TIMESTAMP_REF_PATTERN})`, 'g'));
   return parts.map((part, i) => {
-    if (part.match(/[\[\(]\d{1,2}:\d{2}[\]\)]/)) {
+    if (new RegExp(`^${TIMESTAMP_REF_PATTERN}$`).test(part)) {
       return <span key={i} className="text-blue-400 font-mono font-bold text-xs bg-blue-900/30 px-1 rounded mx-1">{part}</span>;
     }
     const boldParts = part.split(/(\*\*[^\*]+\*\*)/g);
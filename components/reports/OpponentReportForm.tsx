@@ -1,9 +1,13 @@
 import React, { useState } from 'react';
 import VideoUploader from '../video/VideoUploader';
 import { UploadedVideo } from '../../hooks/useVideoUpload';
+import SegmentationPicker from './SegmentationPicker';
+import ImageInput from './ImageInput';
+import useFighters from '../../hooks/useFighters';
+import { DEFAULT_SEGMENTATION, SegmentationMode } from '../../lib/segmentation';
 
 export interface OpponentReportInput {
-  videos: UploadedVideo[];
+  videos: UploadedVideo[]; // One or more fights; timestamps cite them as V1, V2...
   context: {
     fighterName?: string;
     weightClass?: string;
@@ -12,6 +16,8 @@ export interface OpponentReportInput {
     additionalNotes?: string;
   };
   reportType: 'full' | 'quick';
+  images?: File[]; // Stat sheets / tale of the tape, read into the report's FighterProfile
+  segmentation?: SegmentationMode; // How a single long fight is split; defaults to 5-minute windows
 }
 
 interface OpponentReportFormProps {
@@ -20,8 +26,11 @@ interface OpponentReportFormProps {
 }
 
 const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoading }) => {
-  const [uploadedVideo, setUploadedVideo] = useState<UploadedVideo | null>(null);
+  const [videos, setVideos] = useState<UploadedVideo[]>([]);
+  const [images, setImages] = useState<File[]>([]);
   const [reportType, setReportType] = useState<'full' | 'quick'>('full');
+  const [segmentation, setSegmentation] = useState<SegmentationMode>(DEFAULT_SEGMENTATION);
+  const { fighters } = useFighters();
   
   const [context, setContext] = useState({
     fighterName: '',
@@ -32,11 +41,13 @@ const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoa
   });
 
   const handleSubmit = () => {
-    if (!uploadedVideo) return;
+    if (videos.length === 0) return;
     onSubmit({
-      videos: [uploadedVideo],
+      videos,
       context,
-      reportType
+      reportType,
+      images,
+      segmentation,
     });
   };
 
@@ -56,27 +67,30 @@ const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoa
             Opponent Footage
           </h3>
           
-          {uploadedVideo ? (
-            <div className="bg-black rounded-lg overflow-hidden border border-slate-600 relative group">
-              <video src={uploadedVideo.url} className="w-full h-48 object-cover opacity-60" />
+          {videos.map((video, i) => (
+            <div key={video.url} className="bg-black rounded-lg overflow-hidden border border-slate-600 relative group">
+              <video src={video.url} className={`w-full object-cover opacity-60 ${videos.length > 1 ? 'h-24' : 'h-48'}`} />
               <div className="absolute inset-0 flex flex-col items-center justify-center">
-                <p className="text-white font-mono text-sm mb-2">{uploadedVideo.filename}</p>
+                <p className="text-white font-mono text-sm mb-2">
+                  {videos.length > 1 && <span className="text-blue-300 font-bold mr-2">V{i + 1}</span>}
+                  {video.filename}
+                </p>
                 <button 
-                  onClick={() => setUploadedVideo(null)}
+                  onClick={() => setVideos(videos.filter(v => v !== video))}
                   className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded text-sm transition-colors"
                 >
-                  Change Video
+                  Remove Video
                 </button>
               </div>
             </div>
-          ) : (
-             <VideoUploader 
-               onUploadComplete={setUploadedVideo}
-               onError={handleVideoError}
-               label="Upload Fight Video"
-               className="h-48"
-             />
-          )}
+          ))}
+
+          <VideoUploader 
+            onUploadComplete={(video) => setVideos(prev => [...prev, video])}
+            onError={handleVideoError}
+            label={videos.length > 0 ? 'Add Another Fight' : 'Upload Fight Video'}
+            className={videos.length > 0 ? 'h-24' : 'h-48'}
+          />
 
           <h3 className="text-xl font-heading text-white flex items-center gap-2 pt-4">
             <span className="w-6 h-6 rounded-full bg-blue-600 text-xs flex items-center justify-center">2</span>
@@ -99,6 +113,14 @@ const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoa
               <span className="block text-xs text-slate-500">30-sec summary, top 5 threats, and danger zones.</span>
             </button>
           </div>
+
+          {videos.length > 1 ? (
+            <p className="text-xs text-slate-500">
+              Several fights are analysed together, each as a whole. Timestamps name the fight they are in (V1, V2...).
+            </p>
+          ) : (
+            <SegmentationPicker value={segmentation} onChange={setSegmentation} duration={videos[0]?.duration} size={videos[0]?.file.size} />
+          )}
         </div>
 
         {/* Right: Context */}
@@ -117,7 +139,12 @@ const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoa
                 value={context.fighterName}
                 onChange={e => setContext({...context, fighterName: e.target.value})}
                 placeholder="e.g. Jon Jones"
+                list="known-fighters"
               />
+              {/* A known name files the report under that fighter */}
+              <datalist id="known-fighters">
+                {fighters.map(f => <option key={f.id} value={f.name} />)}
+              </datalist>
             </div>
             <div>
               <label className="block text-xs text-slate-400 mb-1">Weight Class</label>
@@ -159,13 +186,22 @@ const OpponentReportForm: React.FC<OpponentReportFormProps> = ({ onSubmit, isLoa
                 placeholder="Is there a specific injury? A pattern you suspect? Type it here."
               />
           </div>
+
+          <div>
+             <label className="block text-xs text-slate-400 mb-1">Stat Sheets / Tale of the Tape</label>
+             <ImageInput
+               images={images}
+               onChange={setImages}
+               hint="Height, reach, stance, record and age are read from these and shown at the top of the report."
+             />
+          </div>
         </div>
       </div>
 
       <div className="mt-8 border-t border-slate-700 pt-6">
         <button
           onClick={handleSubmit}
-          disabled={!uploadedVideo || isLoading}
+          disabled={videos.length === 0 || isLoading}
           className="w-full bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-500 hover:to-blue-500 text-white font-heading text-2xl py-3 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
         >
           {isLoading ? 'GENERATING INTELLIGENCE...' : 'GENERATE SCOUTING REPORT'}
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import VideoPlayer from '../video/VideoPlayer';
+import { Timestamp, formatTimestampText } from '../video/TimestampMarker';
+import TimestampChip from './TimestampChip';
+import { UploadedVideo } from '../../hooks/useVideoUpload';
+import { ProgressComparison, ProgressIssue } from '../../lib/report-parser';
+
+interface ProgressDiffProps {
+  progress: ProgressComparison;
+  onTimestampClick: (timestamp: Timestamp) => void; // Seeks the current tape
+  activeTimestamp?: Timestamp | null;
+  baselineVideos?: Record<string, UploadedVideo>; // Baseline tapes by report id, when stored
+}
+
+const COLUMNS: { status: ProgressIssue['status']; label: string; accent: string; border: string }[] = [
+  { status: 'resolved', label: 'Resolved', accent: 'text-green-400', border: 'border-l-green-500' },
+  { status: 'persistent', label: 'Persistent', accent: 'text-amber-400', border: 'border-l-amber-500' },
+  { status: 'new', label: 'New', accent: 'text-red-400', border: 'border-l-red-500' },
+];
+
+const ProgressDiff: React.FC<ProgressDiffProps> = ({
+  progress,
+  onTimestampClick,
+  activeTimestamp,
+  baselineVideos = {},
+}) => {
+  const [baselineSeek, setBaselineSeek] = useState<{ reportId: string; timestamp: Timestamp } | null>(null);
+
+  const baselineLabel = (reportId: string) => {
+    const index = progress.baselines.findIndex(b => b.reportId === reportId);
+    const baseline = progress.baselines[index];
+    return baseline
+      ? `Baseline ${index + 1} · ${new Date(baseline.generatedAt).toLocaleDateString()}`
+      : 'Baseline';
+  };
+
+  const baselineVideo = baselineSeek ? baselineVideos[baselineSeek.reportId] : undefined;
+
+  const renderIssue = (issue: ProgressIssue, border: string) => (
+    <div key={issue.id} className={`bg-slate-900/50 rounded-lg border border-slate-700 border-l-4 ${border} p-3 space-y-2`}>
+      <h4 className="text-white text-sm font-medium">{issue.title}</h4>
+      <p className="text-xs text-slate-400">{issue.note}</p>
+
+      {issue.baselineEvidence.map(({ reportId, timestamps }) => (
+        <div key={reportId}>
+          <div className="text-[10px] uppercase text-slate-500 mb-1">{baselineLabel(reportId)}</div>
+          <div className="flex flex-wrap gap-1">
+            {timestamps.length === 0 && <span className="text-xs text-slate-600">no timestamps</span>}
+            {timestamps.map((ts, i) =>
+              baselineVideos[reportId] ? (
+                <TimestampChip
+                  key={i}
+                  timestamp={ts}
+                  onClick={(t) => setBaselineSeek({ reportId, timestamp: { ...t } })}
+                  isActive={baselineSeek?.reportId === reportId && baselineSeek.timestamp.seconds === ts.seconds}
+                  variant="compact"
+                />
+              ) : (
+                <span
+                  key={i}
+                  className="px-1.5 py-0.5 text-xs font-mono rounded bg-slate-800 text-slate-500"
+                  title="The baseline footage is not in the library"
+                >
+                  [{formatTimestampText(ts)}]
+                </span>
+              )
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <div className="text-[10px] uppercase text-slate-500 mb-1">This tape</div>
+        <div className="flex flex-wrap gap-1">
+          {issue.currentEvidence.length === 0 && <span className="text-xs text-slate-600">no timestamps</span>}
+          {issue.currentEvidence.map((ts, i) => (
+            <TimestampChip
+              key={i}
+              timestamp={ts}
+              onClick={onTimestampClick}
+              isActive={activeTimestamp?.seconds === ts.seconds}
+              variant="compact"
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {baselineSeek && baselineVideo && (
+        <div className="bg-black rounded-lg overflow-hidden border border-slate-700">
+          <div className="flex justify-between items-center px-3 py-2 bg-slate-900 text-xs">
+            <span className="text-slate-400">{baselineLabel(baselineSeek.reportId)} · {baselineVideo.filename}</span>
+            <button onClick={() => setBaselineSeek(null)} className="text-slate-400 hover:text-white">
+              Close
+            </button>
+          </div>
+          <VideoPlayer
+            src={baselineVideo.url}
+            activeTimestamp={baselineSeek.timestamp}
+            showTimestampMarkers={false}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {COLUMNS.map(({ status, label, accent, border }) => {
+          const issues = progress.issues.filter(i => i.status === status);
+          return (
+            <div key={status} className="space-y-3">
+              <h3 className={`text-sm font-semibold uppercase tracking-wide ${accent}`}>
+                {label} <span className="text-slate-500">({issues.length})</span>
+              </h3>
+              {issues.length === 0 ? (
+                <p className="text-xs text-slate-600">None</p>
+              ) : (
+                issues.map(issue => renderIssue(issue, border))
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {progress.unassessed.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-xs text-slate-400">
+          Not enough footage to judge: {progress.unassessed.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDiff;
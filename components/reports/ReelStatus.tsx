@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface ReelStatusProps {
+  building: string | null;
+  progress: number;
+  error: Error | null;
+  onCancel: () => void;
+}
+
+/**
+ * Progress and errors for the highlight reel being built.
+ */
+const ReelStatus: React.FC<ReelStatusProps> = ({ building, progress, error, onCancel }) => {
+  if (error) {
+    return (
+      <div className="px-4 py-2 rounded-lg text-sm border bg-red-500/10 border-red-500/30 text-red-300">
+        Could not build the reel: {error.message}
+      </div>
+    );
+  }
+
+  if (!building) return null;
+
+  return (
+    <div className="px-4 py-2 rounded-lg text-sm border bg-slate-800 border-slate-700 text-slate-300 flex items-center gap-3">
+      <span className="w-2 h-2 rounded-full bg-red-400 animate-pulse flex-shrink-0" />
+      <span className="flex-1 truncate">Building reel “{building}”… {progress}%</span>
+      <div className="w-24 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div className="h-full bg-red-500 transition-all" style={{ width: `${progress}%` }} />
+      </div>
+      <button onClick={onCancel} className="text-xs text-slate-400 hover:text-white">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default ReelStatus;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { DEFAULT_SEGMENT_SECONDS, MAX_SPLIT_BYTES, SegmentationMode, describeSegment, planSegments } from '../../lib/segmentation';
+import { ParsedTime, parseTimestamp, secondsToTimestamp } from '../../lib/video-processing';
+
+interface SegmentationPickerProps {
+  value: SegmentationMode;
+  onChange: (mode: SegmentationMode) => void;
+  duration?: number; // Seconds; when known, the planned segments are listed
+  size?: number; // Bytes; files over MAX_SPLIT_BYTES are sent whole
+}
+
+const MODES: { type: SegmentationMode['type']; label: string; desc: string }[] = [
+  { type: 'window', label: 'Fixed Windows', desc: 'Split long footage every few minutes' },
+  { type: 'rounds', label: 'By Round', desc: 'Split where each round starts' },
+  { type: 'none', label: 'Whole Video', desc: 'Send the footage in one piece' },
+];
+
+const parseRoundStarts = (text: string) =>
+  text
+    .split(/[,\s]+/)
+    .map(part => parseTimestamp(part))
+    .filter((parsed): parsed is ParsedTime => parsed !== null && parsed.frame === undefined)
+    .map(parsed => parsed.seconds);
+
+/**
+ * Chooses how a long fight is cut into segments before analysis.
+ */
+const SegmentationPicker: React.FC<SegmentationPickerProps> = ({ value, onChange, duration, size }) => {
+  const [roundStartsText, setRoundStartsText] = useState(
+    value.type === 'rounds' ? value.roundStarts.map(s => secondsToTimestamp(s)).join(', ') : ''
+  );
+
+  const selectMode = (type: SegmentationMode['type']) => {
+    if (type === 'window') onChange({ type, windowSeconds: DEFAULT_SEGMENT_SECONDS });
+    else if (type === 'rounds') onChange({ type, roundStarts: parseRoundStarts(roundStartsText) });
+    else onChange({ type });
+  };
+
+  const tooLarge = size !== undefined && size > MAX_SPLIT_BYTES;
+  const segments = duration && !tooLarge ? planSegments(duration, value) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-3">
+        {MODES.map(mode => (
+          <button
+            key={mode.type}
+            type="button"
+            onClick={() => selectMode(mode.type)}
+            className={`flex-1 p-3 rounded-lg border transition-all text-left ${
+              value.type === mode.type
+                ? 'bg-emerald-600/20 border-emerald-500 text-white'
+                : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:border-slate-600'
+            }`}
+          >
+            <div className="font-medium text-sm">{mode.label}</div>
+            <div className="text-xs mt-1 opacity-70">{mode.desc}</div>
+          </button>
+        ))}
+      </div>
+
+      {value.type === 'window' && (
+        <label className="flex items-center gap-3 text-sm text-slate-400">
+          Segment length
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={Math.round(value.windowSeconds / 60)}
+            onChange={(e) => onChange({ type: 'window', windowSeconds: Math.max(1, Number(e.target.value) || 1) * 60 })}
+            className="w-20 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          minutes
+        </label>
+      )}
+
+      {value.type === 'rounds' && (
+        <div>
+          <label className="block text-sm text-slate-400 mb-2">Where rounds 2, 3, ... start in the video</label>
+          <input
+            type="text"
+            value={roundStartsText}
+            onChange={(e) => {
+              setRoundStartsText(e.target.value);
+              onChange({ type: 'rounds', roundStarts: parseRoundStarts(e.target.value) });
+            }}
+            placeholder="e.g. 6:10, 12:25"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+      )}
+
+      {tooLarge && value.type !== 'none' && (
+        <p className="text-xs text-amber-400">
+          This file is over {Math.round(MAX_SPLIT_BYTES / (1024 * 1024))} MB, too large to split in the browser. It will be analysed in one piece.
+        </p>
+      )}
+      {segments.length > 1 && (
+        <p className="text-xs text-slate-500">
+          Analysed as {segments.length} segments in parallel: {segments.map(describeSegment).join(' · ')}
+        </p>
+      )}
+      {duration !== undefined && segments.length === 1 && value.type !== 'none' && (
+        <p className="text-xs text-slate-500">This video is short enough to analyse in one piece.</p>
+      )}
+    </div>
+  );
+};
+
+export default SegmentationPicker;
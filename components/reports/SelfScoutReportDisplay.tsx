@@ -2,15 +2,25 @@
 
 import React, { useState, useCallback, useMemo } from 'react';
 import VideoPlayer from '../video/VideoPlayer';
-import { Timestamp } from '../video/TimestampMarker';
+import { Timestamp, formatTimestampText } from '../video/TimestampMarker';
 import TimestampChip from './TimestampChip';
+import ProgressDiff from './ProgressDiff';
 import { UploadedVideo } from '../../hooks/useVideoUpload';
+import { useClipDownload } from '../../hooks/useClipDownload';
+import { useHighlightReel } from '../../hooks/useHighlightReel';
+import ReelStatus from './ReelStatus';
+import TimestampCheckBanner from './TimestampCheckBanner';
+import FighterProfileCard from './FighterProfileCard';
+import { planFindingReel } from '../../lib/highlight-reel';
 import { 
   SelfScoutReport, 
   Finding, 
   OverallAssessment, 
-  ReportMetadata 
+  ReportMetadata,
+  parseTimestampText,
 } from '../../lib/report-parser';
+import { CLOCK_TIME_PATTERN, TIME_PATTERN, TIME_RANGE_PATTERN, secondsToTimestamp } from '../../lib/video-processing';
+import { isWithinDuration } from '../../lib/timestamp-validation';
 
 // ============================================================================
 // TYPES
@@ -20,9 +30,13 @@ interface SelfScoutReportDisplayProps {
   report: SelfScoutReport;
   video: UploadedVideo;
   onTimestampClick?: (timestamp: Timestamp) => void;
+  isStreaming?: boolean; // Report is partial and still being generated
+  isVerifying?: boolean; // Evidence verification pass is still running
+  baselineVideos?: Record<string, UploadedVideo>; // Progress reports: baseline tapes by report id
+  onRegenerate?: () => void; // Offered when too many timestamps are past the end of the video
 }
 
-type TabId = 'findings' | 'strengths' | 'improvements' | 'full-report' | 'opponent-view';
+type TabId = 'progress' | 'findings' | 'strengths' | 'improvements' | 'full-report' | 'opponent-view';
 type SeverityFilter = 'all' | 'critical' | 'high' | 'medium' | 'low';
 type CategoryFilter = 'all' | Finding['category'];
 
@@ -102,6 +116,10 @@ const toBaseTimestamp = (
   label: ts.label || '',
   category: category || 'other',
   color: ts.color,
+  frame: ts.frame,
+  end: ts.end,
+  endTime: ts.endTime,
+  invalid: ts.invalid,
 });
 
 // Clean up titles that have truncated timestamp fragments like "[0" or "(1"
@@ -237,6 +255,53 @@ const TabButton: React.FC<{
   </button>
 );
 
+const StreamingIndicator: React.FC<{ sectionCount: number }> = ({ sectionCount }) => (
+  <div className="flex items-center gap-3 px-4 py-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg text-sm text-emerald-300">
+    <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+    <span>
+      Writing report… {sectionCount} section{sectionCount !== 1 ? 's' : ''} received
+    </span>
+  </div>
+);
+
+const VerifyingIndicator: React.FC = () => (
+  <div className="flex items-center gap-3 px-4 py-3 bg-sky-500/10 border border-sky-500/30 rounded-lg text-sm text-sky-300">
+    <span className="w-2 h-2 rounded-full bg-sky-400 animate-pulse" />
+    <span>Verifying evidence… re-checking each finding against the footage</span>
+  </div>
+);
+
+/**
+ * Flags findings the evidence pass could not (fully) confirm.
+ * Confirmed findings get a quiet tick; unverified reports show nothing.
+ */
+const VerificationBadge: React.FC<{ verification?: Finding['verification'] }> = ({ verification }) => {
+  if (!verification) return null;
+
+  switch (verification.status) {
+    case 'confirmed':
+      return <span className="text-xs text-green-400" title="Confirmed by the evidence verification pass">✓ verified</span>;
+    case 'partial':
+      return (
+        <span
+          className="px-2 py-0.5 text-xs rounded bg-yellow-500/10 text-yellow-400 border border-yellow-500/30"
+          title={`${verification.matchedCount} of ${verification.citedCount} cited timestamps found again`}
+        >
+          partially verified
+        </span>
+      );
+    default:
+      return (
+        <span
+          className="px-2 py-0.5 text-xs rounded bg-amber-500/10 text-amber-400 border border-amber-500/30"
+          title="The evidence verification pass found no instances of this"
+        >
+          ⚠ unconfirmed
+        </span>
+      );
+  }
+};
+
 const EmptyState: React.FC<{ message: string; submessage?: string }> = ({
   message,
   submessage,
@@ -255,6 +320,10 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
   report,
   video,
   onTimestampClick: externalTimestampClick,
+  isStreaming = false,
+  isVerifying = false,
+  baselineVideos,
+  onRegenerate,
 }) => {
   // ---- Safely extract data with defaults ----
   const metadata = useMemo(() => getMetadata(report), [report]);
@@ -270,11 +339,18 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
   const generatedAt = useMemo(() => parseDate(report.generatedAt), [report.generatedAt]);
 
   // ---- State ----
-  const [activeTab, setActiveTab] = useState<TabId>('findings');
+  const [activeTab, setActiveTab] = useState<TabId>(report.analysisType === 'progress' ? 'progress' : 'findings');
   const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
   const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>('all');
   const [expandedFindings, setExpandedFindings] = useState<Set<string>>(new Set());
   const [currentTimestamp, setCurrentTimestamp] = useState<Timestamp | null>(null);
+  const { downloadClip, pendingSeconds, progress: clipProgress, error: clipError } = useClipDownload(video);
+  const reel = useHighlightReel(video);
+
+  const handleBuildReel = useCallback(
+    (finding: Finding) => reel.buildReel(planFindingReel(finding, { duration: video?.duration })),
+    [reel.buildReel, video]
+  );
 
   // ---- Callbacks ----
   const handleTimestampClick = useCallback(
@@ -345,6 +421,10 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
         seconds: ts.seconds,
         label: ts.label || '',
         category: ts.category || 'other',
+        frame: ts.frame,
+        end: ts.end,
+        endTime: ts.endTime,
+        invalid: ts.invalid,
       }));
   }, [timestamps]);
 
@@ -353,36 +433,35 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
   // Helper to parse timestamps from a string segment (plain text)
   const renderTimestampsOnly = useCallback((text: string) => {
     // Match timestamps in various formats:
-    // 1. [MM:SS] or (MM:SS) - standard bracketed
+    // 1. [MM:SS], (H:MM:SS) or [MM:SS.s] - standard bracketed, brackets optional
     // 2. [MM:SS-MM:SS] or (MM:SS-MM:SS) - ranges
-    const timestampRegex = /([\[\(]?\d{1,2}:\d{2}(?:-\d{1,2}:\d{2})?[\]\)]?)/g;
+    // 3. [f2505] - frame numbers, brackets required
+    const timestampRegex = new RegExp(
+      String.raw`((?:[\[\(](?:${TIME_PATTERN})|(?:${CLOCK_TIME_PATTERN}))(?:\s*-\s*(?:${TIME_PATTERN}))?[\]\)]?)`, 'g'
+    );
     const parts = text.split(timestampRegex);
     
     return parts.map((part, idx) => {
       // Check if this part contains a timestamp pattern
-      const tsMatch = part.match(/[\[\(]?(\d{1,2}:\d{2})(?:-\d{1,2}:\d{2})?[\]\)]?/);
-      if (tsMatch) {
-        const startTimeStr = tsMatch[1];
-        const timeParts = startTimeStr.split(':').map(Number);
-        if (timeParts.length === 2 && !isNaN(timeParts[0]) && !isNaN(timeParts[1])) {
-          const seconds = timeParts[0] * 60 + timeParts[1];
-          
-          return (
-            <TimestampChip 
-              key={`ts-${idx}`}
-              timestamp={{ time: startTimeStr, seconds, label: 'Jump', category: 'other' }} 
-              onClick={handleTimestampClick}
-              isActive={currentTimestamp?.seconds === seconds}
-              variant="compact"
-            />
-          );
-        }
+      const tsMatch = idx % 2 === 1 && part.match(new RegExp(`^[\\[\\(]?(${TIME_RANGE_PATTERN})`));
+      const parsed = tsMatch && parseTimestampText(tsMatch[1]);
+      if (parsed) {
+        const { seconds } = parsed;
+        return (
+          <TimestampChip 
+            key={`ts-${idx}`}
+            timestamp={{ ...parsed, label: 'Jump', category: 'other', invalid: !isWithinDuration(seconds, video?.duration) }}
+            onClick={handleTimestampClick}
+            isActive={currentTimestamp?.seconds === seconds}
+            variant="compact"
+          />
+        );
       }
       // Clean up any residual timestamp artifacts
       const cleanedPart = part.replace(/^[\]\)]:?\*{0,2}\s*/, '').replace(/\*{0,2}[\[\(]?$/, '');
       return cleanedPart;
     });
-  }, [handleTimestampClick, currentTimestamp]);
+  }, [handleTimestampClick, currentTimestamp, video?.duration]);
 
   // Main renderer: Handles Bold first, then Timestamps within both bold and plain text
   const renderContentWithTimestamps = useCallback(
@@ -546,8 +625,9 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                         </span>
                         <SeverityBadge severity={finding.severity} />
                         <CategoryBadge category={finding.category} />
+                        <VerificationBadge verification={finding.verification} />
                       </div>
-                      <h4 className="text-white font-medium">
+                      <h4 className={finding.verification?.status === 'unconfirmed' ? 'text-slate-400 font-medium' : 'text-white font-medium'}>
                         {cleanTitle(finding.title)}
                       </h4>
                     </div>
@@ -580,6 +660,11 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                 {/* Expanded Content */}
                 {expandedFindings.has(finding.id) && (
                   <div className="px-4 pb-4 border-t border-slate-700/50 pt-4 space-y-4">
+                    {finding.verification?.status === 'unconfirmed' && (
+                      <p className="text-amber-400/90 text-xs">
+                        Not confirmed on a second look at the footage. Treat this as a lead to check, not a fact.
+                      </p>
+                    )}
                     <p className="text-slate-300 text-sm">
                       {renderContentWithTimestamps(finding.description)}
                     </p>
@@ -587,9 +672,18 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                     {/* Timestamps */}
                     {findingTimestamps.length > 0 && (
                       <div>
-                        <h5 className="text-xs text-slate-500 uppercase mb-2">
-                          Evidence
-                        </h5>
+                        <div className="flex justify-between items-center mb-2">
+                          <h5 className="text-xs text-slate-500 uppercase">
+                            Evidence
+                          </h5>
+                          <button
+                            onClick={() => handleBuildReel(finding)}
+                            disabled={reel.building !== null}
+                            className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-wait"
+                          >
+                            🎬 Build reel
+                          </button>
+                        </div>
                         <div className="flex flex-wrap gap-2">
                           {findingTimestamps.map((ts, i) => (
                             <TimestampChip
@@ -597,6 +691,8 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                               timestamp={toBaseTimestamp(ts, finding.category)}
                               onClick={handleTimestampClick}
                               isActive={currentTimestamp?.seconds === ts.seconds}
+                              onDownloadClip={downloadClip}
+                              isDownloading={pendingSeconds === ts.seconds}
                             />
                           ))}
                         </div>
@@ -645,15 +741,18 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                     {index + 1}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <h4 className="text-white font-medium mb-1">
-                      {cleanTitle(strength.title)}
-                    </h4>
+                    <div className="flex items-start justify-between gap-2 mb-1">
+                      <h4 className="text-white font-medium">
+                        {cleanTitle(strength.title)}
+                      </h4>
+                      <VerificationBadge verification={strength.verification} />
+                    </div>
                     <p className="text-slate-400 text-sm mb-3">
                       {renderContentWithTimestamps(strength.description)}
                     </p>
 
                     {strengthTimestamps.length > 0 && (
-                      <div className="flex flex-wrap gap-2">
+                      <div className="flex flex-wrap gap-2 items-center">
                         {strengthTimestamps.map((ts, i) => (
                           <TimestampChip
                             key={`${strength.id}-ts-${i}`}
@@ -661,8 +760,17 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                             onClick={handleTimestampClick}
                             isActive={currentTimestamp?.seconds === ts.seconds}
                             variant="success"
+                            onDownloadClip={downloadClip}
+                            isDownloading={pendingSeconds === ts.seconds}
                           />
                         ))}
+                        <button
+                          onClick={() => handleBuildReel(strength)}
+                          disabled={reel.building !== null}
+                          className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-wait"
+                        >
+                          🎬 Build reel
+                        </button>
                       </div>
                     )}
                   </div>
@@ -821,7 +929,7 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
 
   const renderFullReport = () => (
     <div className="space-y-6">
-      {sections.length === 0 ? (
+      {sections.length === 0 && !isStreaming ? (
         <EmptyState message="No report sections available." />
       ) : (
         sections.map((section) => {
@@ -914,11 +1022,31 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
           );
         })
       )}
+      {isStreaming && (
+        <div className="h-24 bg-slate-900/50 rounded-lg border border-dashed border-slate-700 animate-pulse" />
+      )}
     </div>
   );
 
+  const renderProgress = () =>
+    report.progress ? (
+      <ProgressDiff
+        progress={report.progress}
+        onTimestampClick={handleTimestampClick}
+        activeTimestamp={currentTimestamp}
+        baselineVideos={baselineVideos}
+      />
+    ) : (
+      <EmptyState
+        message={isStreaming ? 'Comparing against the baseline…' : 'No baseline comparison in this report.'}
+        submessage={isStreaming ? 'The comparison appears once the report is complete.' : undefined}
+      />
+    );
+
   const renderTabContent = () => {
     switch (activeTab) {
+      case 'progress':
+        return renderProgress();
       case 'findings':
         return renderFindingsList();
       case 'strengths':
@@ -970,6 +1098,24 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
         </div>
       </div>
 
+      {(pendingSeconds !== null || clipError) && (
+        <div className={`px-4 py-2 rounded-lg text-sm border ${
+          clipError
+            ? 'bg-red-500/10 border-red-500/30 text-red-300'
+            : 'bg-slate-800 border-slate-700 text-slate-300'
+        }`}>
+          {clipError
+            ? `Could not cut the clip: ${clipError.message}`
+            : `Cutting clip around ${secondsToTimestamp(pendingSeconds!)}… ${clipProgress}%`}
+        </div>
+      )}
+
+      <ReelStatus building={reel.building} progress={reel.progress} error={reel.error} onCancel={reel.cancel} />
+
+      {!isStreaming && !isVerifying && <TimestampCheckBanner metadata={report.metadata} onRegenerate={onRegenerate} />}
+
+      <FighterProfileCard profile={report.profile} accent="text-emerald-300" />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column: Session Info & Sidebar */}
         <div className="lg:col-span-1 space-y-4">
@@ -1028,14 +1174,18 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
                       <button
                         key={`sidebar-ts-${i}`}
                         onClick={() => handleTimestampClick(ts)}
+                        disabled={ts.invalid}
+                        title={ts.invalid ? 'Past the end of the video' : undefined}
                         className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
-                          currentTimestamp?.seconds === ts.seconds
+                          ts.invalid
+                            ? 'text-slate-600 line-through cursor-not-allowed'
+                            : currentTimestamp?.seconds === ts.seconds
                             ? 'bg-emerald-500/20 text-emerald-400'
                             : 'text-slate-400 hover:bg-slate-700 hover:text-white'
                         }`}
                       >
                         <span className="font-mono text-emerald-400 mr-2">
-                          [{ts.time || '0:00'}]
+                          [{formatTimestampText(ts) || '0:00'}]
                         </span>
                         <span className="truncate">
                           {(ts.label || '').slice(0, 40)}
@@ -1082,6 +1232,18 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
               </span>
             </div>
 
+            {isStreaming && (
+              <div className="mb-4">
+                <StreamingIndicator sectionCount={sections.length} />
+              </div>
+            )}
+
+            {isVerifying && (
+              <div className="mb-4">
+                <VerifyingIndicator />
+              </div>
+            )}
+
             {renderOverallAssessment()}
 
             <div className="mt-4">{renderStatsGrid()}</div>
@@ -1089,6 +1251,15 @@ const SelfScoutReportDisplay: React.FC<SelfScoutReportDisplayProps> = ({
 
           {/* Tabs */}
           <div className="px-6 py-3 border-b border-slate-700 bg-slate-850 flex gap-2 overflow-x-auto">
+            {report.analysisType === 'progress' && (
+              <TabButton
+                id="progress"
+                label="Progress"
+                isActive={activeTab === 'progress'}
+                onClick={handleTabChange}
+                count={report.progress?.issues.length}
+              />
+            )}
             <TabButton
               id="findings"
               label="Weaknesses"
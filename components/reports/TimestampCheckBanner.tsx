@@ -0,0 +1,40 @@
+import React from 'react';
+import { TimestampMetadata } from '../../lib/report-parser';
+import { describeTimestampCheck, shouldRegenerate } from '../../lib/timestamp-validation';
+
+interface TimestampCheckBannerProps {
+  metadata?: TimestampMetadata;
+  onRegenerate?: () => void; // Offered when too many timestamps are invalid
+}
+
+/**
+ * Warns when the report cites moments past the end of the video.
+ */
+const TimestampCheckBanner: React.FC<TimestampCheckBannerProps> = ({ metadata, onRegenerate }) => {
+  const check = metadata?.timestampCheck;
+  const warning = check && describeTimestampCheck(check);
+  if (!warning) return null;
+
+  const tooMany = shouldRegenerate(metadata);
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-lg text-sm border ${
+      tooMany ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300'
+    }`}>
+      <span>
+        {warning}
+        {tooMany && ' Too many to trust this report.'}
+      </span>
+      {tooMany && onRegenerate && (
+        <button
+          onClick={onRegenerate}
+          className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded text-xs font-medium transition-colors"
+        >
+          Regenerate report
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TimestampCheckBanner;
@@ -1,11 +1,13 @@
 import React from 'react';
-import { Timestamp } from '../video/TimestampMarker';
+import { Timestamp, describeTimestampTime, formatTimestampText } from '../video/TimestampMarker';
 
 interface TimestampChipProps {
   timestamp: Timestamp;
   onClick: (timestamp: Timestamp) => void;
   isActive?: boolean;
   variant?: 'default' | 'compact' | 'success';
+  onDownloadClip?: (timestamp: Timestamp) => void; // Shows a download button next to the chip
+  isDownloading?: boolean;
 }
 
 const CATEGORY_COLORS: Record<string, { bg: string; text: string; border: string }> = {
@@ -56,6 +58,8 @@ const TimestampChip: React.FC<TimestampChipProps> = ({
   onClick,
   isActive = false,
   variant = 'default',
+  onDownloadClip,
+  isDownloading = false,
 }) => {
   const colors = CATEGORY_COLORS[timestamp.category] || CATEGORY_COLORS.other;
 
@@ -69,8 +73,48 @@ const TimestampChip: React.FC<TimestampChipProps> = ({
     ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30 hover:bg-emerald-500/30'
     : '';
 
-  if (variant === 'compact') {
+  // Past the end of the video: shown for the record, but there is nothing to seek to
+  if (timestamp.invalid) {
+    return (
+      <span
+        className={`inline-flex items-center font-mono rounded border border-slate-700 text-slate-600 line-through cursor-not-allowed ${
+          variant === 'compact' ? 'px-1.5 py-0.5 text-xs' : 'px-3 py-1.5 text-sm'
+        }`}
+        title="Past the end of the video; the model likely made this timestamp up"
+      >
+        [{formatTimestampText(timestamp)}]
+      </span>
+    );
+  }
+
+  // Ranges loop in the player; say so where a moment would just seek
+  const loopHint = timestamp.end !== undefined ? `Loop ${describeTimestampTime(timestamp)}` : undefined;
+
+  const withDownload = (chip: React.ReactElement) => {
+    if (!onDownloadClip) return chip;
     return (
+      <span className="inline-flex items-center gap-0.5">
+        {chip}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onDownloadClip(timestamp);
+          }}
+          disabled={isDownloading}
+          className={`px-1 py-0.5 text-xs rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:cursor-wait ${
+            isDownloading ? 'animate-pulse text-emerald-400' : ''
+          }`}
+          title={isDownloading ? 'Cutting clip…' : `Download clip around ${describeTimestampTime(timestamp)}`}
+          aria-label={`Download clip around ${describeTimestampTime(timestamp)}`}
+        >
+          ⬇
+        </button>
+      </span>
+    );
+  };
+
+  if (variant === 'compact') {
+    return withDownload(
       <button
         onClick={() => onClick(timestamp)}
         className={`
@@ -80,16 +124,18 @@ const TimestampChip: React.FC<TimestampChipProps> = ({
           hover:scale-105 active:scale-95
           ${isActive ? activeClasses : `${colors.bg} ${colors.text} ${colors.border}`}
         `}
-        title={timestamp.label}
+        title={loopHint ?? (timestamp.frame !== undefined ? `${describeTimestampTime(timestamp)}: ${timestamp.label}` : timestamp.label)}
       >
-        [{timestamp.time}]
+        {loopHint && <span className="mr-0.5 opacity-70">⟲</span>}
+        [{formatTimestampText(timestamp)}]
       </button>
     );
   }
 
-  return (
+  return withDownload(
     <button
       onClick={() => onClick(timestamp)}
+      title={loopHint ?? (timestamp.frame !== undefined ? describeTimestampTime(timestamp) : undefined)}
       className={`
         inline-flex items-center gap-2 px-3 py-1.5 
         text-sm rounded-lg border
@@ -103,7 +149,8 @@ const TimestampChip: React.FC<TimestampChipProps> = ({
         }
       `}
     >
-      <span className="font-mono font-medium">[{timestamp.time}]</span>
+      {loopHint && <span className="opacity-70">⟲</span>}
+      <span className="font-mono font-medium">[{formatTimestampText(timestamp)}]</span>
       {timestamp.label && (
         <span className="truncate max-w-[200px] opacity-80">{timestamp.label}</span>
       )}
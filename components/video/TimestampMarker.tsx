@@ -1,11 +1,36 @@
 import React from 'react';
+import { formatTimestamp } from '../../lib/video-processing';
 
 export interface Timestamp {
-  time: string; // "MM:SS"
+  time: string; // "M:SS", "H:MM:SS", "M:SS.s" or a frame number "f2505"
   seconds: number;
   label: string;
   category: 'striking' | 'grappling' | 'defensive' | 'pattern' | 'mental' | 'movement' | 'cardio' | 'other';
   color?: string;
+  frame?: number; // Cited as a frame number; the player seeks by frame
+  end?: number; // Seconds; set when cited as a range [0:45-1:00]
+  endTime?: string; // Range end as displayed
+  invalid?: boolean; // Outside the video's duration, so it can't be real
+  videoId?: number; // 1-based video it was cited in ([V2 3:14]); unset means the first
+}
+
+/**
+ * The timestamp as cited: "0:45", "0:45-1:00" for a range, "V2 0:45" in the second video.
+ */
+export function formatTimestampText(timestamp: Timestamp): string {
+  const time = timestamp.endTime ? `${timestamp.time}-${timestamp.endTime}` : timestamp.time;
+  return timestamp.videoId ? `V${timestamp.videoId} ${time}` : time;
+}
+
+/**
+ * How a timestamp reads on its own: frame citations also show the clock time.
+ */
+export function describeTimestampTime(timestamp: Timestamp): string {
+  if (timestamp.frame === undefined) return formatTimestampText(timestamp);
+  const clock = formatTimestamp(timestamp.seconds, 2) +
+    (timestamp.end !== undefined ? `-${formatTimestamp(timestamp.end, 2)}` : '');
+  const frames = formatTimestampText({ ...timestamp, videoId: undefined }).replace(/f/g, '');
+  return `${timestamp.videoId ? `V${timestamp.videoId} ` : ''}Frame ${frames} (${clock})`;
 }
 
 interface TimestampMarkerProps {
@@ -41,7 +66,7 @@ const TimestampMarker: React.FC<TimestampMarkerProps> = ({ timestamp, duration,
       {/* Tooltip */}
       <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:flex flex-col items-center whitespace-nowrap z-50">
         <div className="bg-slate-800 text-white text-xs px-2 py-1 rounded shadow-lg border border-slate-700">
-          <span className="font-bold mr-1">{timestamp.time}</span>
+          <span className="font-bold mr-1">{describeTimestampTime(timestamp)}</span>
           <span>{timestamp.label}</span>
         </div>
         <div className="w-0 h-0 border-l-4 border-l-transparent border-r-4 border-r-transparent border-t-4 border-t-slate-800"></div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Timestamp, describeTimestampTime } from './TimestampMarker';
+
+interface TimestampSpanProps {
+  timestamp: Timestamp & { end: number };
+  duration: number;
+  onClick: (timestamp: Timestamp) => void;
+  isLooping?: boolean;
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  striking: 'bg-red-500/40 border-red-400',
+  grappling: 'bg-blue-500/40 border-blue-400',
+  defensive: 'bg-green-500/40 border-green-400',
+  pattern: 'bg-yellow-500/40 border-yellow-400',
+  mental: 'bg-pink-500/40 border-pink-400',
+  movement: 'bg-cyan-500/40 border-cyan-400',
+  cardio: 'bg-orange-500/40 border-orange-400',
+  other: 'bg-slate-400/40 border-slate-300',
+};
+
+/**
+ * A range timestamp on the progress bar: a shaded span from start to end.
+ */
+const TimestampSpan: React.FC<TimestampSpanProps> = ({ timestamp, duration, onClick, isLooping = false }) => {
+  const toPercent = (seconds: number) => Math.min(100, Math.max(0, (seconds / duration) * 100));
+  const leftPercent = toPercent(timestamp.seconds);
+  const widthPercent = Math.max(0.5, toPercent(timestamp.end) - leftPercent);
+  const colorClass = CATEGORY_COLORS[timestamp.category] || CATEGORY_COLORS.other;
+
+  return (
+    <div
+      className={`absolute top-0 h-full border-x cursor-pointer hover:brightness-150 transition-all group z-10 ${colorClass} ${
+        isLooping ? 'ring-2 ring-white/70' : ''
+      }`}
+      style={{ left: `${leftPercent}%`, width: `${widthPercent}%` }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick(timestamp);
+      }}
+    >
+      {/* Tooltip */}
+      <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:flex flex-col items-center whitespace-nowrap z-50">
+        <div className="bg-slate-800 text-white text-xs px-2 py-1 rounded shadow-lg border border-slate-700">
+          <span className="font-bold mr-1">{describeTimestampTime(timestamp)}</span>
+          <span>{timestamp.label}</span>
+        </div>
+        <div className="w-0 h-0 border-l-4 border-l-transparent border-r-4 border-r-transparent border-t-4 border-t-slate-800"></div>
+      </div>
+    </div>
+  );
+};
+
+export default TimestampSpan;
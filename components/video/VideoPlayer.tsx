@@ -1,6 +1,7 @@
 import React, { useRef, useState, useEffect } from 'react';
 import TimestampMarker, { Timestamp } from './TimestampMarker';
-import { secondsToTimestamp } from '../../lib/video-processing';
+import TimestampSpan from './TimestampSpan';
+import { DEFAULT_FRAME_RATE, secondsToTimestamp } from '../../lib/video-processing';
 
 interface VideoPlayerProps {
   src: string;
@@ -8,6 +9,7 @@ interface VideoPlayerProps {
   onTimestampClick?: (timestamp: Timestamp) => void;
   showTimestampMarkers?: boolean;
   activeTimestamp?: Timestamp | null; // Added for external control
+  frameRate?: number; // For frame stepping and frame-number timestamps
 }
 
 const VideoPlayer: React.FC<VideoPlayerProps> = ({ 
@@ -15,7 +17,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   timestamps = [], 
   onTimestampClick, 
   showTimestampMarkers = true,
-  activeTimestamp
+  activeTimestamp,
+  frameRate = DEFAULT_FRAME_RATE,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
@@ -26,16 +29,17 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const [volume, setVolume] = useState(1);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showControls, setShowControls] = useState(false);
+  const [loop, setLoop] = useState<{ start: number; end: number } | null>(null); // Range being reviewed
 
   // Watch for external timestamp changes to seek
   useEffect(() => {
     if (activeTimestamp && videoRef.current) {
-      seek(activeTimestamp.seconds);
+      playTimestamp(activeTimestamp);
       // Optional: Auto-play on seek if desired, but sticking to just seeking for now
       // videoRef.current.play();
       // setIsPlaying(true);
     }
-  }, [activeTimestamp]);
+  }, [activeTimestamp, frameRate]);
 
   // Keyboard Shortcuts
   useEffect(() => {
@@ -79,6 +83,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const handleTimeUpdate = () => {
     if (videoRef.current) {
+      if (loop && videoRef.current.currentTime >= loop.end) {
+        videoRef.current.currentTime = loop.start;
+      }
       setCurrentTime(videoRef.current.currentTime);
     }
   };
@@ -89,6 +96,11 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   };
 
+  // Frame citations are exact only at the video's own frame rate
+  const timeOf = (ts: Timestamp) => (ts.frame !== undefined ? ts.frame / frameRate : ts.seconds);
+  const endOf = (ts: Timestamp & { end: number }) =>
+    ts.frame !== undefined ? (ts.end * DEFAULT_FRAME_RATE) / frameRate : ts.end;
+
   const seek = (time: number) => {
     if (videoRef.current) {
       const newTime = Math.max(0, Math.min(time, duration));
@@ -104,6 +116,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     if (progressRef.current && videoRef.current) {
       const rect = progressRef.current.getBoundingClientRect();
       const pos = (e.clientX - rect.left) / rect.width;
+      // Seeking away from the range being looped ends the loop
+      if (loop && (pos * duration < loop.start || pos * duration > loop.end)) setLoop(null);
       seek(pos * duration);
     }
   };
@@ -123,12 +137,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   };
 
   const stepFrame = (frames: number) => {
-    // Assuming 30fps
-    seek(currentTime + (frames * 0.033));
+    seek(currentTime + frames / frameRate);
+  };
+
+  // A range plays on a loop, which is how exchanges are reviewed; a moment just seeks
+  const playTimestamp = (ts: Timestamp) => {
+    const start = timeOf(ts);
+    seek(start);
+    if (ts.end === undefined) {
+      setLoop(null);
+      return;
+    }
+    setLoop({ start, end: endOf({ ...ts, end: ts.end }) });
+    videoRef.current?.play().then(() => setIsPlaying(true), () => undefined);
   };
 
   const handleMarkerClick = (ts: Timestamp) => {
-    seek(ts.seconds);
+    playTimestamp(ts);
     if (onTimestampClick) onTimestampClick(ts);
   };
 
@@ -145,6 +170,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         onClick={togglePlay}
         onTimeUpdate={handleTimeUpdate}
         onLoadedMetadata={handleLoadedMetadata}
+        onEnded={() => loop && videoRef.current?.play()}
       />
 
       {/* Controls Overlay */}
@@ -162,8 +188,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
           />
           
-          {/* Timestamp Markers */}
-          {showTimestampMarkers && timestamps.map((ts, idx) => (
+          {/* Ranges as shaded spans, single moments as markers */}
+          {showTimestampMarkers && timestamps
+            .filter((ts): ts is Timestamp & { end: number } => !ts.invalid && ts.end !== undefined)
+            .map((ts, idx) => (
+              <TimestampSpan
+                key={`span-${idx}`}
+                timestamp={ts}
+                duration={duration}
+                onClick={handleMarkerClick}
+                isLooping={loop?.start === timeOf(ts)}
+              />
+            ))}
+          {showTimestampMarkers && timestamps.filter(ts => !ts.invalid && ts.end === undefined).map((ts, idx) => (
             <TimestampMarker 
               key={idx} 
               timestamp={ts} 
@@ -187,9 +224,20 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             </button>
             
             <span className="font-mono text-xs text-slate-300">
-              {secondsToTimestamp(currentTime)} / {secondsToTimestamp(duration)}
+              {/* Tenths in slow motion, where breakdowns cite sub-second moments */}
+              {secondsToTimestamp(currentTime, playbackRate < 1 ? 1 : 0)} / {secondsToTimestamp(duration)}
             </span>
 
+            {loop && (
+              <button
+                onClick={() => setLoop(null)}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs font-mono rounded border border-emerald-500/50 bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 transition-colors"
+                title="Stop looping"
+              >
+                ⟲ {secondsToTimestamp(loop.start)}-{secondsToTimestamp(loop.end)} ✕
+              </button>
+            )}
+
             {/* Volume */}
             <div className="flex items-center gap-2 group/vol">
               <svg className="w-5 h-5 text-slate-400" fill="currentColor" viewBox="0 0 24 24"><path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/></svg>
@@ -1,5 +1,8 @@
 import React, { useCallback, useState } from 'react';
 import { useVideoUpload, UploadedVideo } from '../../hooks/useVideoUpload';
+import { COMPRESSION_PROFILES, CompressionProfileId, CompressionResult } from '../../lib/video-processing';
+import { compressMedia } from '../../lib/media-prep';
+import { MAX_FILE_SIZE_MB } from '../../constants';
 
 interface VideoUploaderProps {
   onUploadComplete: (video: UploadedVideo, file: File) => void;
@@ -8,18 +11,43 @@ interface VideoUploaderProps {
   allowedFormats?: string[];
   label?: string;
   className?: string;
+  defaultProfile?: CompressionProfileId; // Compression applied before the file is handed on
 }
 
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * One line on what will actually be sent to the model.
+ */
+const describeResult = (result: CompressionResult): string => {
+  const { profile, file, originalSize } = result;
+  if (result.failureReason) {
+    return `Compression failed (${result.failureReason}). Sending the original file, ${formatMB(originalSize)}.`;
+  }
+  if (!result.compressed) {
+    return `Sending the original file, ${formatMB(originalSize)}.`;
+  }
+  const resolution = profile.maxHeight ? `${profile.maxHeight}p max` : 'full resolution';
+  const audio = profile.keepAudio ? 'with audio' : 'no audio';
+  return `Sending ${profile.label.toLowerCase()}: H.264, ${resolution}, ${audio}. ${formatMB(file.size)} (was ${formatMB(originalSize)}).`;
+};
+
 const VideoUploader: React.FC<VideoUploaderProps> = ({
   onUploadComplete,
   onError,
-  maxSizeMB = 500,
+  maxSizeMB = MAX_FILE_SIZE_MB,
   allowedFormats = ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'],
   label = 'Drop video here or click to browse',
   className = '',
+  defaultProfile = 'original',
 }) => {
   const { upload, progress, isUploading, error } = useVideoUpload();
   const [isDragging, setIsDragging] = useState(false);
+  const [profileId, setProfileId] = useState<CompressionProfileId>(defaultProfile);
+  const [isCompressing, setIsCompressing] = useState(false);
+  const [compressProgress, setCompressProgress] = useState(0);
+  const [result, setResult] = useState<CompressionResult | null>(null);
+  const isBusy = isUploading || isCompressing;
 
   const handleFile = useCallback(async (file: File) => {
     // Validate file type
@@ -38,12 +66,20 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({
     }
 
     try {
-      const video = await upload(file);
-      onUploadComplete(video, file);
+      setResult(null);
+      setIsCompressing(profileId !== 'original');
+      setCompressProgress(0);
+      const compression = await compressMedia(file, profileId, { onProgress: setCompressProgress });
+      setIsCompressing(false);
+      setResult(compression);
+
+      const video = await upload(compression.file);
+      onUploadComplete(video, compression.file);
     } catch (err) {
+      setIsCompressing(false);
       onError?.(err instanceof Error ? err : new Error('Upload failed'));
     }
-  }, [upload, onUploadComplete, onError, allowedFormats, maxSizeMB]);
+  }, [upload, onUploadComplete, onError, allowedFormats, maxSizeMB, profileId]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -73,56 +109,94 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({
   }, [handleFile]);
 
   return (
-    <div
-      onDrop={handleDrop}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      className={`
-        relative border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer
-        ${isDragging 
-          ? 'border-emerald-500 bg-emerald-500/10' 
-          : 'border-slate-600 hover:border-slate-500 bg-slate-900/50'
-        }
-        ${isUploading ? 'pointer-events-none opacity-70' : ''}
-        ${className}
-      `}
-    >
-      <input
-        type="file"
-        accept={allowedFormats.join(',')}
-        onChange={handleInputChange}
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-        disabled={isUploading}
-      />
-
-      {isUploading ? (
-        <div className="space-y-3">
-          <div className="w-12 h-12 mx-auto border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
-          <p className="text-slate-400">Uploading... {progress}%</p>
-          <div className="w-full max-w-xs mx-auto bg-slate-700 rounded-full h-2">
-            <div
-              className="bg-emerald-500 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${progress}%` }}
-            />
+    <div>
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={`
+          relative border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer
+          ${isDragging 
+            ? 'border-emerald-500 bg-emerald-500/10' 
+            : 'border-slate-600 hover:border-slate-500 bg-slate-900/50'
+          }
+          ${isBusy ? 'pointer-events-none opacity-70' : ''}
+          ${className}
+        `}
+      >
+        <input
+          type="file"
+          accept={allowedFormats.join(',')}
+          onChange={handleInputChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          disabled={isBusy}
+        />
+
+        {isCompressing ? (
+          <div className="space-y-3">
+            <div className="w-12 h-12 mx-auto border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            <p className="text-slate-400">Compressing ({COMPRESSION_PROFILES[profileId].label})... {compressProgress}%</p>
+            <div className="w-full max-w-xs mx-auto bg-slate-700 rounded-full h-2">
+              <div
+                className="bg-amber-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${compressProgress}%` }}
+              />
+            </div>
+          </div>
+        ) : isUploading ? (
+          <div className="space-y-3">
+            <div className="w-12 h-12 mx-auto border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+            <p className="text-slate-400">Uploading... {progress}%</p>
+            <div className="w-full max-w-xs mx-auto bg-slate-700 rounded-full h-2">
+              <div
+                className="bg-emerald-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
           </div>
-        </div>
-      ) : (
-        <div className="space-y-3">
-          <div className="w-16 h-16 mx-auto bg-slate-800 rounded-full flex items-center justify-center">
-            <svg className="w-8 h-8 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-            </svg>
+        ) : (
+          <div className="space-y-3">
+            <div className="w-16 h-16 mx-auto bg-slate-800 rounded-full flex items-center justify-center">
+              <svg className="w-8 h-8 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+            </div>
+            <p className="text-slate-400">{label}</p>
+            <p className="text-slate-600 text-sm">
+              MP4, WebM, MOV • Max {maxSizeMB}MB
+            </p>
           </div>
-          <p className="text-slate-400">{label}</p>
-          <p className="text-slate-600 text-sm">
-            MP4, WebM, MOV • Max {maxSizeMB}MB
-          </p>
-        </div>
-      )}
-
-      {error && (
-        <p className="mt-3 text-red-400 text-sm">{error.message}</p>
-      )}
+        )}
+
+        {error && (
+          <p className="mt-3 text-red-400 text-sm">{error.message}</p>
+        )}
+      </div>
+
+      {/* Compression profile */}
+      <div className="mt-3 flex flex-wrap gap-2" role="radiogroup" aria-label="Compression">
+        {Object.values(COMPRESSION_PROFILES).map(profile => (
+          <button
+            key={profile.id}
+            type="button"
+            role="radio"
+            aria-checked={profileId === profile.id}
+            onClick={() => setProfileId(profile.id)}
+            disabled={isBusy}
+            title={profile.description}
+            className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+              profileId === profile.id
+                ? 'bg-slate-700 border-emerald-500 text-white'
+                : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:border-slate-600'
+            }`}
+          >
+            {profile.label}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        {result ? describeResult(result) : COMPRESSION_PROFILES[profileId].description}
+      </p>
     </div>
   );
 };
@@ -32,4 +32,11 @@ Given inputs (video, stat images, and/or text), produce a complete, explainable
 Be analytical, concise, objective. No hype language. Do not invent stats.
 `;
 
-export const MAX_FILE_SIZE_MB = 500; // Limit for demo purposes
\ No newline at end of file
+export const MAX_FILE_SIZE_MB = 500; // Limit for demo purposes
+
+// ffmpeg.wasm runs in a 32-bit heap of at most 2 GB; half of it is left for the files of one job
+export const FFMPEG_MEMORY_BUDGET_MB = 1024;
+
+// Splitting keeps the whole input in ffmpeg's in-memory file system next to the
+// piece being cut and the buffer it was read from. Larger uploads are analysed whole.
+export const MAX_SPLIT_SIZE_MB = Math.min(MAX_FILE_SIZE_MB, Math.floor(FFMPEG_MEMORY_BUDGET_MB / 3));
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Timestamp } from '../components/video/TimestampMarker';
+import { UploadedVideo } from './useVideoUpload';
+import { extractTimestampClip, DEFAULT_CLIP_LEAD_IN, DEFAULT_CLIP_LEAD_OUT } from '../lib/video-processing';
+import { isAbortError } from '../lib/abort';
+import { downloadFile } from '../lib/download';
+
+interface ClipDownloadOptions {
+  leadIn?: number; // Seconds before the timestamp
+  leadOut?: number; // Seconds after the timestamp
+}
+
+interface UseClipDownloadReturn {
+  downloadClip: (timestamp: Timestamp) => Promise<void>;
+  pendingSeconds: number | null; // Timestamp currently being cut
+  progress: number;
+  error: Error | null;
+}
+
+/**
+ * The video a timestamp was cited in: its videoId (1-based) picks from the
+ * report's videos, falling back to the first.
+ */
+export function videoForTimestamp(videos: UploadedVideo[], timestamp: Timestamp): UploadedVideo | null {
+  return videos[(timestamp.videoId ?? 1) - 1] ?? videos[0] ?? null;
+}
+
+/**
+ * Cuts the sequence around a timestamp out of its video and downloads it.
+ * With several videos, each timestamp is cut from the one it names.
+ * One clip at a time; starting another cancels the one in progress.
+ */
+export function useClipDownload(
+  videos: UploadedVideo | UploadedVideo[] | null,
+  { leadIn = DEFAULT_CLIP_LEAD_IN, leadOut = DEFAULT_CLIP_LEAD_OUT }: ClipDownloadOptions = {}
+): UseClipDownloadReturn {
+  const [pendingSeconds, setPendingSeconds] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const downloadClip = useCallback(async (timestamp: Timestamp) => {
+    const video = Array.isArray(videos) ? videoForTimestamp(videos, timestamp) : videos;
+    if (!video || timestamp.invalid) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setPendingSeconds(timestamp.seconds);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const clip = await extractTimestampClip(video.file ?? video.url, timestamp.seconds, video.filename, {
+        leadIn,
+        leadOut,
+        duration: video.duration,
+        until: timestamp.end,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadFile(clip, clip.name);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Clip extraction failed', err);
+      setError(err instanceof Error ? err : new Error('Clip extraction failed'));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setPendingSeconds(null);
+      }
+    }
+  }, [videos, leadIn, leadOut]);
+
+  return {
+    downloadClip,
+    pendingSeconds,
+    progress,
+    error,
+  };
+}
+
+export default useClipDownload;
@@ -0,0 +1,280 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { CornerPhase, CornerSources, CornerTag, DEFAULT_TIMER, RoundTimerConfig, buildCornerBrief } from '../lib/corner-mode';
+import { generateCornerInstruction } from '../services/geminiService';
+import { isAbortError } from '../lib/abort';
+import { getErrorMessage } from '../services/aiErrors';
+
+export interface CornerInstruction {
+  round: number; // The round it follows
+  bullets: string[];
+}
+
+interface UseCornerModeReturn {
+  config: RoundTimerConfig;
+  setConfig: (config: RoundTimerConfig) => void; // Only before the fight starts
+  phase: CornerPhase;
+  round: number;
+  remaining: number; // Seconds left in the round or rest
+  isPaused: boolean;
+  tags: CornerTag[];
+  instruction: CornerInstruction | null;
+  isGenerating: boolean;
+  error: Error | null;
+  start: () => void;
+  togglePause: () => void;
+  skip: () => void; // Ends the round or rest now
+  reset: () => void;
+  addTag: (label: string) => void;
+  removeTag: (id: string) => void;
+  regenerate: () => void; // Instruction for the last round, with the tags as they are now
+}
+
+/**
+ * How long the running instruction request may take, counted on the fight
+ * clock: a pause stops it along with the clock.
+ */
+interface InstructionLimit {
+  left: number; // Milliseconds, as of the last pause
+  endsAt: number; // Date.now() when it runs out; 0 while paused
+  timer: ReturnType<typeof setTimeout> | null;
+  expire: () => void;
+}
+
+/**
+ * Round and rest timer for the corner, with the tags taken during the fight.
+ * When a round ends and the rest starts, it asks for a three-bullet
+ * instruction built from the tags and the scouting report.
+ */
+const useCornerMode = (sources: CornerSources): UseCornerModeReturn => {
+  const [config, setConfigState] = useState<RoundTimerConfig>(DEFAULT_TIMER);
+  const [phase, setPhase] = useState<CornerPhase>('ready');
+  const [round, setRound] = useState(1);
+  const [remaining, setRemaining] = useState(DEFAULT_TIMER.roundSeconds);
+  const [isPaused, setIsPaused] = useState(false);
+  const [tags, setTags] = useState<CornerTag[]>([]);
+  const [instruction, setInstruction] = useState<CornerInstruction | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const endsAtRef = useRef(0); // Date.now() when the running phase ends
+  const pausedLeftRef = useRef(0); // Milliseconds left when paused
+  const abortRef = useRef<AbortController | null>(null);
+  const limitRef = useRef<InstructionLimit | null>(null); // Time limit of the running request
+
+  // Stop any in-flight instruction when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isRunning = (phase === 'round' || phase === 'rest') && !isPaused;
+
+  // Keep the phone's screen on while the clock runs
+  useEffect(() => {
+    if (!isRunning || !navigator.wakeLock) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+    navigator.wakeLock.request('screen')
+      .then(sentinel => {
+        if (released) sentinel.release();
+        else lock = sentinel;
+      })
+      .catch(err => console.warn('Screen wake lock unavailable', err));
+    return () => {
+      released = true;
+      lock?.release();
+    };
+  }, [isRunning]);
+
+  const runLimit = () => {
+    const limit = limitRef.current;
+    if (!limit || limit.timer) return;
+    limit.endsAt = Date.now() + limit.left;
+    limit.timer = setTimeout(limit.expire, limit.left);
+  };
+
+  const holdLimit = () => {
+    const limit = limitRef.current;
+    if (!limit?.timer) return;
+    clearTimeout(limit.timer);
+    limit.timer = null;
+    limit.left = Math.max(0, limit.endsAt - Date.now());
+    limit.endsAt = 0;
+  };
+
+  const clearLimit = () => {
+    holdLimit();
+    limitRef.current = null;
+  };
+
+  // `paused`: the clock is stopped, so the time limit waits for it to resume
+  const generate = useCallback(async (forRound: number, forTags: CornerTag[], paused = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // An instruction that can't arrive within a rest is no use to the corner
+    let timedOut = false;
+    const limit: InstructionLimit = {
+      left: config.restSeconds * 1000,
+      endsAt: 0,
+      timer: null,
+      expire: () => {
+        timedOut = true;
+        controller.abort();
+      },
+    };
+    clearLimit();
+    limitRef.current = limit;
+    if (!paused) runLimit();
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const brief = buildCornerBrief(sources, forTags, forRound, config.rounds);
+      const bullets = await generateCornerInstruction(brief, { signal: controller.signal });
+      if (abortRef.current === controller) setInstruction({ round: forRound, bullets });
+    } catch (err: unknown) {
+      if (abortRef.current !== controller) return;
+      if (timedOut) {
+        setError(new Error(`No instruction within the ${config.restSeconds} second rest.`));
+      } else if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error(getErrorMessage(err)));
+        console.error(err);
+      }
+    } finally {
+      if (limitRef.current === limit) clearLimit();
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  }, [sources, config.rounds, config.restSeconds]);
+
+  /**
+   * Drops the instruction still being generated; the round it was for is over.
+   */
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const beginPhase = (next: CornerPhase, seconds: number) => {
+    endsAtRef.current = Date.now() + seconds * 1000;
+    setPhase(next);
+    setRemaining(seconds);
+    setIsPaused(false);
+    navigator.vibrate?.([300, 100, 300]);
+  };
+
+  /**
+   * Round over: rest and ask for the instruction, or the fight is done.
+   * Rest over: the next round starts, without waiting on the instruction.
+   */
+  const advance = useCallback(() => {
+    if (phase === 'round') {
+      if (round >= config.rounds) {
+        setPhase('done');
+        setRemaining(0);
+        navigator.vibrate?.([300, 100, 300]);
+        return;
+      }
+      beginPhase('rest', config.restSeconds);
+      generate(round, tags);
+    } else if (phase === 'rest') {
+      stopGenerating();
+      setRound(round + 1);
+      beginPhase('round', config.roundSeconds);
+    }
+  }, [phase, round, config, tags, generate]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => {
+      const left = Math.max(0, Math.ceil((endsAtRef.current - Date.now()) / 1000));
+      setRemaining(left);
+      if (left === 0) advance();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRunning, advance]);
+
+  const setConfig = (next: RoundTimerConfig) => {
+    if (phase !== 'ready') return;
+    setConfigState(next);
+    setRemaining(next.roundSeconds);
+  };
+
+  const start = () => {
+    setRound(1);
+    setTags([]);
+    setInstruction(null);
+    beginPhase('round', config.roundSeconds);
+  };
+
+  const togglePause = () => {
+    if (phase !== 'round' && phase !== 'rest') return;
+    if (isPaused) {
+      endsAtRef.current = Date.now() + pausedLeftRef.current;
+      runLimit();
+    } else {
+      pausedLeftRef.current = Math.max(0, endsAtRef.current - Date.now());
+      holdLimit();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const skip = () => {
+    if (phase === 'round' || phase === 'rest') advance();
+  };
+
+  const reset = () => {
+    abortRef.current?.abort();
+    setPhase('ready');
+    setRound(1);
+    setRemaining(config.roundSeconds);
+    setIsPaused(false);
+    setTags([]);
+    setInstruction(null);
+    setError(null);
+  };
+
+  const addTag = (label: string) => {
+    const text = label.trim();
+    if (!text || (phase !== 'round' && phase !== 'rest')) return;
+    // A tag taken during the rest is about the round just fought
+    const left = isPaused ? pausedLeftRef.current : endsAtRef.current - Date.now();
+    const second = phase === 'round'
+      ? Math.min(config.roundSeconds, Math.max(0, Math.round(config.roundSeconds - left / 1000)))
+      : config.roundSeconds;
+    setTags(prev => [...prev, { id: crypto.randomUUID(), label: text, round, second }]);
+  };
+
+  const removeTag = (id: string) => {
+    setTags(prev => prev.filter(tag => tag.id !== id));
+  };
+
+  const regenerate = () => {
+    const lastRound = phase === 'round' ? round - 1 : round;
+    if (lastRound >= 1) generate(lastRound, tags, isPaused);
+  };
+
+  return {
+    config,
+    setConfig,
+    phase,
+    round,
+    remaining,
+    isPaused,
+    tags,
+    instruction,
+    isGenerating,
+    error,
+    start,
+    togglePause,
+    skip,
+    reset,
+    addTag,
+    removeTag,
+    regenerate,
+  };
+};
+
+export default useCornerMode;
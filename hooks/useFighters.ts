@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Fighter,
+  FighterInput,
+  listFighters,
+  saveFighter,
+  deleteFighter,
+} from '../lib/report-library';
+
+interface UseFightersReturn {
+  fighters: Fighter[];
+  isLoading: boolean;
+  error: Error | null;
+  save: (input: FighterInput) => Promise<Fighter>;
+  remove: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useFighters(): UseFightersReturn {
+  const [fighters, setFighters] = useState<Fighter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setFighters(await listFighters());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load fighters', err);
+      setError(err instanceof Error ? err : new Error('Failed to load fighters'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (input: FighterInput) => {
+    const fighter = await saveFighter(input);
+    await refresh();
+    return fighter;
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteFighter(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    fighters,
+    isLoading,
+    error,
+    save,
+    remove,
+    refresh,
+  };
+}
+
+export default useFighters;
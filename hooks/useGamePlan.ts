@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react';
+import { GamePlanInput } from '../components/reports/GamePlanForm';
+import { GamePlanReport, parseGamePlanReport } from '../lib/report-parser';
+import { generateReportFromTemplate } from '../services/geminiService';
+import { isAbortError, throwIfAborted } from '../lib/abort';
+import { getErrorMessage } from '../services/aiErrors';
+import { describeReport, saveReport } from '../lib/report-library';
+import { getFootageDuration, validateGamePlanTimestamps } from '../lib/timestamp-validation';
+
+interface UseGamePlanReturn {
+  analyze: (input: GamePlanInput) => Promise<void>;
+  report: GamePlanReport | null;
+  isAnalyzing: boolean;
+  isStreaming: boolean; // true while `report` is a partial, still-streaming plan
+  error: Error | null;
+  cancel: () => void;
+  reset: () => void;
+  load: (report: GamePlanReport) => void; // Show a saved plan from the library
+}
+
+/**
+ * The {{context}} block for the game plan templates.
+ */
+const describeContext = ({ context }: GamePlanInput): string =>
+  [
+    context.fighterName && `User: ${context.fighterName}`,
+    context.opponentName && `Opponent: ${context.opponentName}`,
+    context.weightClass && `Weight class: ${context.weightClass}`,
+    context.notes,
+  ].filter(Boolean).join('\n') || 'None provided';
+
+const useGamePlan = (): UseGamePlanReturn => {
+  const [report, setReport] = useState<GamePlanReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight analysis when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const analyze = async (input: GamePlanInput) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setIsAnalyzing(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      // 1. Select Prompt Template
+      const reportType = input.reportType === 'quick' ? 'GAME_PLAN_QUICK' : 'GAME_PLAN_FULL';
+      const names = { fighterName: input.context.fighterName || undefined, opponentName: input.context.opponentName || undefined };
+      const reportId = crypto.randomUUID();
+      const build = (markdown: string): GamePlanReport => ({
+        ...parseGamePlanReport(markdown, input.reportType, names),
+        id: reportId,
+      });
+
+      // 2. Call Service with both tapes, streaming the markdown as it arrives
+      let markdown = '';
+      const response = await generateReportFromTemplate({
+        reportType,
+        userVideos: [input.userVideo.file],
+        opponentVideos: [input.opponentVideo.file],
+        context: describeContext(input),
+        onTextChunk: (delta) => {
+          markdown += delta;
+          setIsStreaming(true);
+          setReport(build(markdown));
+        },
+        signal,
+      });
+
+      // 3. Parse Result; timestamps past the end of their tape are flagged invalid
+      const [userDuration, opponentDuration] = await Promise.all([
+        getFootageDuration([input.userVideo.file]),
+        getFootageDuration([input.opponentVideo.file]),
+      ]);
+      const newReport = validateGamePlanTimestamps(build(response), { user: userDuration, opponent: opponentDuration });
+
+      // Save to the library with both tapes, user first (never a plan from a cancelled run)
+      throwIfAborted(signal);
+      try {
+        await saveReport(
+          { kind: 'game-plan', ...describeReport('game-plan', newReport), report: newReport },
+          [input.userVideo.file, input.opponentVideo.file]
+        );
+      } catch (e) {
+        console.error('Failed to save game plan to the library', e);
+      }
+
+      setReport(newReport);
+
+    } catch (err: unknown) {
+      // A newer analyze() call owns the state now
+      if (abortRef.current !== controller) return;
+
+      setReport(null);
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error(getErrorMessage(err)));
+        console.error(err);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  /**
+   * Aborts the running analysis. The hook returns to idle and nothing is saved.
+   */
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const reset = () => {
+    abortRef.current?.abort();
+    setReport(null);
+    setError(null);
+  };
+
+  const load = (saved: GamePlanReport) => {
+    // Detach any running analysis so its cleanup doesn't clear the loaded plan
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setIsStreaming(false);
+    setReport(saved);
+    setError(null);
+  };
+
+  return { analyze, report, isAnalyzing, isStreaming, error, cancel, reset, load };
+};
+
+export default useGamePlan;
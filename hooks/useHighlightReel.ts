@@ -0,0 +1,73 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { UploadedVideo } from './useVideoUpload';
+import { buildHighlightReel } from '../lib/video-processing';
+import { ReelPlan } from '../lib/highlight-reel';
+import { isAbortError } from '../lib/abort';
+import { downloadFile } from '../lib/download';
+
+interface UseHighlightReelReturn {
+  buildReel: (plan: ReelPlan) => Promise<void>;
+  building: string | null; // Title of the reel being built
+  progress: number;
+  error: Error | null;
+  cancel: () => void;
+}
+
+/**
+ * Builds a highlight reel from a plan (lib/highlight-reel.ts) and downloads it.
+ * One reel at a time; starting another cancels the one in progress.
+ */
+export function useHighlightReel(video: UploadedVideo | null): UseHighlightReelReturn {
+  const [building, setBuilding] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const buildReel = useCallback(async (plan: ReelPlan) => {
+    if (!video) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setBuilding(plan.title);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const reel = await buildHighlightReel(video.file ?? video.url, plan.segments, {
+        title: plan.title,
+        subtitle: plan.subtitle,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadFile(reel, plan.fileName);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Highlight reel failed', err);
+      setError(err instanceof Error ? err : new Error('Highlight reel failed'));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setBuilding(null);
+      }
+    }
+  }, [video]);
+
+  return {
+    buildReel,
+    building,
+    progress,
+    error,
+    cancel,
+  };
+}
+
+export default useHighlightReel;
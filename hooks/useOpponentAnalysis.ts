@@ -1,116 +1,235 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { OpponentReportInput } from '../components/reports/OpponentReportForm';
-import { OpponentReport, parseReportSections, extractStrengths, extractFindings, extractDecisionTree, extractMostUtilizedTechniques } from '../lib/report-parser';
-import { generateReport } from '../services/geminiService';
-import { PROMPTS, buildUserPrompt, withEvidenceRequirements } from '../lib/prompts';
+import { Finding, OpponentReport, ReportSection, extractStrengths, extractFindings, extractDecisionTree, extractMostUtilizedTechniques } from '../lib/report-parser';
+import { OpponentReportContent, createStructuredSectionStream, parseStructuredOpponentReport, sectionsToMarkdown } from '../lib/report-schema';
+import { extractFighterProfile, generateReportFromTemplate, verifyFindings } from '../services/geminiService';
+import { isAbortError, throwIfAborted } from '../lib/abort';
+import { describeReport, saveReport } from '../lib/report-library';
+import { FootageDuration, getVideoDurations, validateOpponentTimestamps } from '../lib/timestamp-validation';
+import {
+  DEFAULT_SEGMENTATION,
+  describeSegmentForPrompt,
+  mergeOpponentReports,
+  mergeSections,
+  prepareSegments,
+  shiftOpponentReport,
+  shiftSection,
+} from '../lib/segmentation';
 
 interface UseOpponentAnalysisReturn {
   analyze: (input: OpponentReportInput) => Promise<void>;
   report: OpponentReport | null;
   isAnalyzing: boolean;
+  isStreaming: boolean; // true while `report` is a partial, still-streaming report
+  isVerifying: boolean; // true while the evidence pass re-checks the findings
   error: Error | null;
+  cancel: () => void;
   reset: () => void;
+  load: (report: OpponentReport) => void; // Show a saved report from the library
 }
 
-const STORAGE_KEY = 'fight_analyzer_opponent_report';
+/**
+ * Extracts report content from markdown sections with the heuristic parser.
+ * Used for streaming previews, before the typed fields have arrived.
+ */
+const extractReportContent = (sections: ReportSection[]): OpponentReportContent => {
+  const markdown = sectionsToMarkdown(sections);
+  return {
+    sections,
+    strengths: extractStrengths(sections, markdown),
+    weaknesses: extractFindings(sections, markdown),
+    decisionTree: extractDecisionTree(sections),
+    mostUtilizedTechniques: extractMostUtilizedTechniques(sections),
+    // Extract all timestamps from sections for the master list
+    timestamps: sections.flatMap(s => s.timestamps),
+    rawContent: markdown,
+  };
+};
+
+const buildOpponentReport = (
+  id: string,
+  input: OpponentReportInput,
+  content: OpponentReportContent
+): OpponentReport => ({
+  id,
+  generatedAt: new Date(),
+  fighterName: input.context.fighterName,
+  reportType: input.reportType,
+  ...content,
+});
+
+/**
+ * Runs the evidence verification pass over strengths and weaknesses.
+ * A failed pass leaves the report unverified rather than failing the analysis.
+ */
+const verifyReport = async (report: OpponentReport, videos: File[], signal: AbortSignal): Promise<OpponentReport> => {
+  try {
+    const verified: Finding[] = await verifyFindings(videos, [...report.strengths, ...report.weaknesses], { signal });
+    return {
+      ...report,
+      strengths: verified.slice(0, report.strengths.length),
+      weaknesses: verified.slice(report.strengths.length),
+    };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Evidence verification failed; showing unverified findings', err);
+    return report;
+  }
+};
 
 const useOpponentAnalysis = (): UseOpponentAnalysisReturn => {
   const [report, setReport] = useState<OpponentReport | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  // Load from local storage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Revive dates
-        if (parsed.generatedAt) parsed.generatedAt = new Date(parsed.generatedAt);
-        setReport(parsed);
-      }
-    } catch (e) {
-      console.error('Failed to load opponent report from local storage', e);
-    }
-  }, []);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight analysis when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const analyze = async (input: OpponentReportInput) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setIsAnalyzing(true);
     setError(null);
+    setReport(null);
 
     try {
       // 1. Select Prompt Template
-      const templateId = input.reportType === 'quick' ? 'OPPONENT_BREAKDOWN_QUICK' : 'OPPONENT_BREAKDOWN_FULL';
-      const template = PROMPTS[templateId];
-      if (!template) throw new Error("Invalid prompt template");
-
-      // 2. Build User Prompt with explicit context
-      const userPrompt = buildUserPrompt(template, {
-        fighterName: input.context.fighterName || 'Unknown',
-        weightClass: input.context.weightClass || 'Unknown',
-        background: input.context.knownBackground || 'Unknown',
-        context: input.context.record ? `Record: ${input.context.record}` : '',
-        specificQuestions: input.context.additionalNotes || ''
-      });
-
-      // 3. Prepare Files
-      const videoFiles = input.videos.map(v => v.file);
-      const imageFiles: File[] = [];
-
-      // 4. Call Service
-      const markdown = await generateReport(
-        template.systemPrompt, 
-        userPrompt, 
-        videoFiles, 
-        imageFiles
-      );
-
-      // 5. Parse Result
-      const sections = parseReportSections(markdown);
-      
-      // Extract specific structured data
-      const strengths = extractStrengths(sections, markdown);
-      const weaknesses = extractFindings(sections, markdown);
-      const decisionTree = extractDecisionTree(sections);
-      const mostUtilizedTechniques = extractMostUtilizedTechniques(sections);
-      
-      // Extract all timestamps from sections for the master list
-      const timestamps = sections.flatMap(s => s.timestamps);
-
-      const newReport: OpponentReport = {
-        id: crypto.randomUUID(),
-        generatedAt: new Date(),
-        fighterName: input.context.fighterName,
-        reportType: input.reportType,
-        sections,
-        strengths,
-        weaknesses,
-        decisionTree,
-        mostUtilizedTechniques,
-        timestamps,
-        rawContent: markdown
+      const reportType = input.reportType === 'quick' ? 'OPPONENT_BREAKDOWN_QUICK' : 'OPPONENT_BREAKDOWN_FULL';
+
+      // 2. Cut a long fight into segments in the media worker
+      const videos = input.videos.map(v => v.file);
+      const runs = await prepareSegments(videos, input.segmentation ?? DEFAULT_SEGMENTATION, { signal });
+      throwIfAborted(signal);
+
+      // 3. Call Service for each segment in parallel, streaming partial reports as
+      // sections arrive. Previews are shifted to the full video's timeline and merged.
+      const reportId = crypto.randomUUID();
+      const sectionStreams = runs.map(() => createStructuredSectionStream());
+      const streamedSections: ReportSection[][] = runs.map(() => []);
+      const context = input.context.record ? `Record: ${input.context.record}` : '';
+      const images = input.images ?? [];
+
+      // Read the tale of the tape alongside the report; a failure just leaves it out
+      const profilePromise = images.length > 0
+        ? extractFighterProfile(images, { fighterName: input.context.fighterName, signal }).catch(err => {
+            if (!isAbortError(err)) console.warn('Could not read the tale of the tape', err);
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+
+      const responses = await Promise.all(runs.map((run, i) => generateReportFromTemplate({
+        reportType,
+        opponentVideos: run.videos,
+        imageFiles: images,
+        context: runs.length > 1
+          ? [context, describeSegmentForPrompt(run.segment, runs.length)].filter(Boolean).join('\n\n')
+          : context,
+        specificQuestions: input.context.additionalNotes || '',
+        promptVariables: {
+          fighterName: input.context.fighterName || 'Unknown',
+          weightClass: input.context.weightClass || 'Unknown',
+          background: input.context.knownBackground || 'Unknown',
+        },
+        structured: true,
+        onTextChunk: (delta) => {
+          streamedSections[i] = sectionStreams[i].push(delta).map(section => shiftSection(section, run.segment.start));
+          const sections = mergeSections(runs.map((r, j) => ({ segment: r.segment, sections: streamedSections[j] })));
+          setIsStreaming(true);
+          setReport(buildOpponentReport(reportId, input, extractReportContent(sections)));
+        },
+        signal,
+      })));
+
+      // 4. Parse Result, still on each segment's timeline
+      const segmentReports = responses.map(json => buildOpponentReport(reportId, input, parseStructuredOpponentReport(json)));
+      const profile = await profilePromise;
+
+      // Timestamps past the end of a segment, or of the video they cite, are flagged invalid
+      const durations = await getVideoDurations(videos);
+      const duration: FootageDuration | null =
+        !durations.some(d => d > 0) ? null : durations.length > 1 ? durations : durations[0];
+      const toFullReport = (reports: OpponentReport[]) => {
+        const merged = mergeOpponentReports(reports.map((report, i) => {
+          const { segment } = runs[i];
+          const checked = runs.length > 1 ? validateOpponentTimestamps(report, segment.end - segment.start) : report;
+          return { segment, report: shiftOpponentReport(checked, segment.start) };
+        }));
+        const full = duration ? validateOpponentTimestamps(merged, duration) : merged;
+        return profile ? { ...full, profile } : full;
       };
 
-      // Save to local storage
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(newReport));
+      // 5. Second pass: re-check each strength and weakness against its segment's footage
+      setReport(toFullReport(segmentReports));
+      setIsStreaming(false);
+      setIsVerifying(true);
+      const newReport = toFullReport(await Promise.all(
+        segmentReports.map((report, i) => verifyReport(report, runs[i].videos, signal))
+      ));
+
+      // Save to the library with its footage (never a report from a cancelled run)
+      throwIfAborted(signal);
+      try {
+        await saveReport({ kind: 'opponent', ...describeReport('opponent', newReport), report: newReport }, videos);
+      } catch (e) {
+        console.error('Failed to save opponent report to the library', e);
+      }
 
       setReport(newReport);
 
     } catch (err: any) {
-      setError(err);
-      console.error(err);
+      // Stop any segments still running
+      controller.abort();
+
+      // A newer analyze() call owns the state now
+      if (abortRef.current !== controller) return;
+
+      setReport(null);
+      if (!isAbortError(err)) {
+        setError(err);
+        console.error(err);
+      }
     } finally {
-      setIsAnalyzing(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+        setIsVerifying(false);
+        setIsAnalyzing(false);
+      }
     }
   };
 
+  /**
+   * Aborts the running analysis. The hook returns to idle and nothing is saved.
+   */
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
   const reset = () => {
+    abortRef.current?.abort();
     setReport(null);
     setError(null);
-    localStorage.removeItem(STORAGE_KEY);
   };
 
-  return { analyze, report, isAnalyzing, error, reset };
+  const load = (saved: OpponentReport) => {
+    // Detach any running analysis so its cleanup doesn't clear the loaded report
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setIsStreaming(false);
+    setIsVerifying(false);
+    setReport(saved);
+    setError(null);
+  };
+
+  return { analyze, report, isAnalyzing, isStreaming, isVerifying, error, cancel, reset, load };
 };
 
 export default useOpponentAnalysis;
\ No newline at end of file
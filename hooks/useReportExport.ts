@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ExportableReport } from '../lib/export-document';
+import { ExportFormat, exportReport } from '../lib/report-export';
+import { isAbortError } from '../lib/abort';
+import { downloadFile } from '../lib/download';
+
+interface UseReportExportReturn {
+  exportAs: (format: ExportFormat) => Promise<void>;
+  pendingFormat: ExportFormat | null; // Export currently being rendered
+  error: Error | null;
+}
+
+/**
+ * Renders a report in the chosen format and downloads it. The footage is
+ * used for the stills in a PDF. Starting another export cancels the current one.
+ */
+export function useReportExport(input: ExportableReport | null, videos: File[] = []): UseReportExportReturn {
+  const [pendingFormat, setPendingFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const exportAs = useCallback(async (format: ExportFormat) => {
+    if (!input) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setPendingFormat(format);
+    setError(null);
+
+    try {
+      const file = await exportReport(input, format, { videos, signal: controller.signal });
+      downloadFile(file, file.name);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Report export failed', err);
+      setError(err instanceof Error ? err : new Error('Report export failed'));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setPendingFormat(null);
+      }
+    }
+  }, [input, videos]);
+
+  return {
+    exportAs,
+    pendingFormat,
+    error,
+  };
+}
+
+export default useReportExport;
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  LibraryEntry,
+  LibraryQuery,
+  listReports,
+  renameReport,
+  deleteReport,
+} from '../lib/report-library';
+
+interface UseReportLibraryReturn {
+  entries: LibraryEntry[];
+  query: LibraryQuery;
+  setQuery: (query: LibraryQuery) => void;
+  isLoading: boolean;
+  error: Error | null;
+  rename: (id: string, title: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useReportLibrary(initialQuery: LibraryQuery = { kind: 'all' }): UseReportLibraryReturn {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState<LibraryQuery>(initialQuery);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listReports(query));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load report library', err);
+      setError(err instanceof Error ? err : new Error('Failed to load report library'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    await renameReport(id, title);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteReport(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    entries,
+    query,
+    setQuery,
+    isLoading,
+    error,
+    rename,
+    remove,
+    refresh,
+  };
+}
+
+export default useReportLibrary;
@@ -1,9 +1,26 @@
-import { useState, useCallback, useEffect } from 'react';
-import { generateReportFromTemplate, ReportType } from '../services/geminiService';
-import { parseSelfScoutReport, SelfScoutReport } from '../lib/report-parser';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { extractFighterProfile, generateReportFromTemplate, verifyFindings, ReportType } from '../services/geminiService';
+import { parseSelfScoutReport, buildReportMetadata, ReportSection, SelfScoutReport } from '../lib/report-parser';
+import { createStructuredSectionStream, parseStructuredSelfScoutReport, sectionsToMarkdown } from '../lib/report-schema';
+import { isAbortError, throwIfAborted } from '../lib/abort';
+import { getErrorMessage } from '../services/aiErrors';
+import { describeReport, saveReport } from '../lib/report-library';
+import { formatBaselinePrompt } from '../lib/progress-comparison';
+import { hashMedia } from '../lib/media-prep';
+import { getFootageDuration, validateSelfScoutTimestamps } from '../lib/timestamp-validation';
+import {
+  DEFAULT_SEGMENTATION,
+  SegmentationMode,
+  describeSegmentForPrompt,
+  mergeSections,
+  mergeSelfScoutReports,
+  prepareSegments,
+  shiftSection,
+  shiftSelfScoutReport,
+} from '../lib/segmentation';
 
 interface AnalysisProgress {
-  stage: 'idle' | 'uploading' | 'analyzing' | 'parsing' | 'complete' | 'error';
+  stage: 'idle' | 'preparing' | 'uploading' | 'analyzing' | 'parsing' | 'verifying' | 'complete' | 'error';
   message: string;
   percent: number;
 }
@@ -13,18 +30,55 @@ interface SelfScoutInput {
   analysisType: 'full' | 'quick' | 'progress';
   context?: string;
   specificQuestions?: string;
+  baselines?: SelfScoutReport[]; // Earlier reports to compare against; required for progress
+  images?: File[]; // Stat sheets / tale of the tape, read into the report's FighterProfile
+  segmentation?: SegmentationMode; // How a long fight is split; defaults to 5-minute windows
+  fighterId?: string; // Library fighter the report is filed under
 }
 
 interface UseSelfScoutReturn {
   analyze: (input: SelfScoutInput) => Promise<SelfScoutReport>;
   report: SelfScoutReport | null;
   isAnalyzing: boolean;
+  isStreaming: boolean; // true while `report` is a partial, still-streaming report
+  isVerifying: boolean; // true while the evidence pass re-checks the findings
   progress: AnalysisProgress;
   error: Error | null;
+  cancel: () => void;
   reset: () => void;
+  load: (report: SelfScoutReport) => void; // Show a saved report from the library
 }
 
-const STORAGE_KEY = 'fight_analyzer_self_scout_report';
+const formatMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+// Where each stage sits on the progress bar. Splitting, hashing and uploading
+// move with real progress; the model call has no progress signal of its own.
+const SPLIT_RANGE = [0, 5];
+const HASH_RANGE = [5, 10];
+const UPLOAD_RANGE = [10, 40];
+const ANALYZE_PERCENT = 40;
+const PARSE_PERCENT = 80;
+const VERIFY_PERCENT = 85;
+
+const withinRange = ([start, end]: number[], fraction: number) =>
+  start + Math.round(Math.min(Math.max(fraction, 0), 1) * (end - start));
+
+/**
+ * Runs the evidence verification pass over findings and strengths.
+ * A failed pass leaves the report unverified rather than failing the analysis.
+ */
+const verifyReport = async (report: SelfScoutReport, videos: File[], signal: AbortSignal): Promise<SelfScoutReport> => {
+  try {
+    const verified = await verifyFindings(videos, [...report.findings, ...report.strengths], { signal });
+    const findings = verified.slice(0, report.findings.length);
+    const strengths = verified.slice(report.findings.length);
+    return { ...report, findings, strengths, metadata: buildReportMetadata(findings, strengths) };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Evidence verification failed; showing unverified findings', err);
+    return report;
+  }
+};
 
 // Map analysis type to report type
 const ANALYSIS_TYPE_TO_REPORT_TYPE: Record<SelfScoutInput['analysisType'], ReportType> = {
@@ -36,6 +90,8 @@ const ANALYSIS_TYPE_TO_REPORT_TYPE: Record<SelfScoutInput['analysisType'], Repor
 export function useSelfScout(): UseSelfScoutReturn {
   const [report, setReport] = useState<SelfScoutReport | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [progress, setProgress] = useState<AnalysisProgress>({
     stage: 'idle',
@@ -43,29 +99,43 @@ export function useSelfScout(): UseSelfScoutReturn {
     percent: 0,
   });
 
-  // Load from local storage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Revive dates
-        if (parsed.generatedAt) parsed.generatedAt = new Date(parsed.generatedAt);
-        setReport(parsed);
-      }
-    } catch (e) {
-      console.error('Failed to load self scout report from local storage', e);
-    }
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight analysis when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  /**
+   * Aborts the running analysis. The hook returns to idle and nothing is saved.
+   */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
   const reset = useCallback(() => {
+    abortRef.current?.abort();
     setReport(null);
     setError(null);
     setProgress({ stage: 'idle', message: '', percent: 0 });
-    localStorage.removeItem(STORAGE_KEY);
+  }, []);
+
+  const load = useCallback((saved: SelfScoutReport) => {
+    // Detach any running analysis so its cleanup doesn't clear the loaded report
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setIsStreaming(false);
+    setIsVerifying(false);
+    setReport(saved);
+    setError(null);
+    setProgress({ stage: 'idle', message: '', percent: 0 });
   }, []);
 
   const analyze = useCallback(async (input: SelfScoutInput): Promise<SelfScoutReport> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setIsAnalyzing(true);
     setError(null);
     setReport(null);
@@ -77,42 +147,161 @@ export function useSelfScout(): UseSelfScoutReturn {
         throw new Error(`Unknown analysis type: ${input.analysisType}`);
       }
 
-      // Update progress
+      const baselines = input.baselines ?? [];
+      if (input.analysisType === 'progress' && baselines.length === 0) {
+        throw new Error('Pick at least one earlier self-scout report to compare against.');
+      }
+
+      // 1. Cut a long fight into segments in the media worker
+      setProgress({ stage: 'preparing', message: 'Preparing footage...', percent: SPLIT_RANGE[0] });
+      const runs = await prepareSegments(input.videos, input.segmentation ?? DEFAULT_SEGMENTATION, {
+        onProgress: (percent) => setProgress({
+          stage: 'preparing',
+          message: 'Splitting the fight into segments...',
+          percent: withinRange(SPLIT_RANGE, percent / 100),
+        }),
+        signal,
+      });
+      throwIfAborted(signal);
+
+      // 2. Hash the tapes in the media worker. The upload cache and the library
+      // look the hashes up again, so this is the only time the files are read here.
+      const files = runs.flatMap(run => run.videos);
+      const hashed = files.map(() => 0);
+      const reportHashing = () => setProgress({
+        stage: 'preparing',
+        message: runs.length > 1
+          ? `Preparing ${runs.length} segments...`
+          : `Preparing ${files.length} video${files.length !== 1 ? 's' : ''}...`,
+        percent: withinRange(HASH_RANGE, hashed.reduce((a, b) => a + b, 0) / (files.length * 100)),
+      });
+      reportHashing();
+      await Promise.all(files.map((file, i) => hashMedia(file, {
+        onProgress: (percent) => {
+          hashed[i] = percent;
+          reportHashing();
+        },
+        signal,
+      })));
+      throwIfAborted(signal);
+
       setProgress({
         stage: 'uploading',
-        message: 'Preparing video for analysis...',
-        percent: 10,
+        message: 'Uploading footage...',
+        percent: UPLOAD_RANGE[0],
       });
 
-      setProgress({
+      const analyzing: AnalysisProgress = {
         stage: 'analyzing',
-        message: 'Analyzing footage with AI...',
-        percent: 30,
-      });
+        message: runs.length > 1 ? `Analyzing ${runs.length} segments with AI...` : 'Analyzing footage with AI...',
+        percent: ANALYZE_PERCENT,
+      };
+
+      // Bytes sent per file, so the bar covers all tapes rather than restarting for each
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const sentBytes = new Map<string, number>();
+
+      // Partial reports share the final report's id so the display keeps its state
+      const reportId = crypto.randomUUID();
+      const sectionStreams = runs.map(() => createStructuredSectionStream());
+      const streamedSections: ReportSection[][] = runs.map(() => []);
 
-      // Call Gemini API using the new template-based function
-      const rawResponse = await generateReportFromTemplate({
+      // Read the tale of the tape alongside the report; a failure just leaves it out
+      const images = input.images ?? [];
+      const profilePromise = images.length > 0
+        ? extractFighterProfile(images, { signal }).catch(err => {
+            if (!isAbortError(err)) console.warn('Could not read the tale of the tape', err);
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+
+      // 3. Analyse the segments in parallel. Each one's previews are shifted to
+      // the full video's timeline and merged with the others'.
+      const rawResponses = await Promise.all(runs.map((run, i) => generateReportFromTemplate({
         reportType,
-        userVideos: input.videos,
-        context: input.context || '',
+        userVideos: run.videos,
+        imageFiles: images,
+        context: runs.length > 1
+          ? [input.context, describeSegmentForPrompt(run.segment, runs.length)].filter(Boolean).join('\n\n')
+          : input.context || '',
         specificQuestions: input.specificQuestions || '',
+        promptVariables: input.analysisType === 'progress' ? { baseline: formatBaselinePrompt(baselines) } : {},
+        structured: true,
+        onUploadProgress: ({ fileName, loaded, total }) => {
+          sentBytes.set(fileName, loaded);
+          const sent = Array.from(sentBytes.values()).reduce((a, b) => a + b, 0);
+          const done = totalBytes > 0 ? sent / totalBytes : 1;
+          setProgress(done >= 1
+            ? analyzing
+            : {
+                stage: 'uploading',
+                message: `Uploading ${fileName} (${formatMB(loaded)} / ${formatMB(total)} MB)...`,
+                percent: withinRange(UPLOAD_RANGE, done),
+              });
+        },
+        onTextChunk: (delta) => {
+          // The typed fields arrive last, so previews come from the finished sections
+          streamedSections[i] = sectionStreams[i].push(delta).map(section => shiftSection(section, run.segment.start));
+          const sections = mergeSections(runs.map((r, j) => ({ segment: r.segment, sections: streamedSections[j] })));
+          setIsStreaming(true);
+          setProgress({
+            ...analyzing,
+            message: sections.length > 0
+              ? `Writing the report (${sections.length} section${sections.length !== 1 ? 's' : ''} so far)...`
+              : analyzing.message,
+          });
+          setReport({ ...parseSelfScoutReport(sectionsToMarkdown(sections), input.analysisType, sections), id: reportId });
+        },
+        signal,
+      })));
+
+      rawResponses.forEach(rawResponse => {
+        console.log('--- GEMINI RAW REPORT OUTPUT ---');
+        console.log(rawResponse);
+        console.log('--------------------------------');
       });
-      
-      console.log('--- GEMINI RAW REPORT OUTPUT ---');
-      console.log(rawResponse);
-      console.log('--------------------------------');
 
       setProgress({
         stage: 'parsing',
         message: 'Processing analysis results...',
-        percent: 80,
+        percent: PARSE_PERCENT,
       });
 
-      // Parse the response into structured report
-      const parsedReport = parseSelfScoutReport(rawResponse, input.analysisType);
+      // Parse each response into a structured report, still on its segment's timeline
+      const segmentReports = rawResponses.map(raw => parseStructuredSelfScoutReport(raw, input.analysisType, baselines));
+      const profile = await profilePromise;
 
-      // Save to local storage
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(parsedReport));
+      // Timestamps past the end of a segment, or of the footage, are flagged invalid
+      const duration = await getFootageDuration(input.videos);
+      const toFullReport = (reports: SelfScoutReport[]): SelfScoutReport => {
+        const merged = mergeSelfScoutReports(reports.map((report, i) => {
+          const { segment } = runs[i];
+          const checked = runs.length > 1 ? validateSelfScoutTimestamps(report, segment.end - segment.start) : report;
+          return { segment, report: shiftSelfScoutReport(checked, segment.start) };
+        }));
+        return { ...(duration ? validateSelfScoutTimestamps(merged, duration) : merged), id: reportId, ...(profile && { profile }), ...(input.fighterId && { fighterId: input.fighterId }) };
+      };
+
+      // 4. Second pass: re-check each finding against its segment's footage
+      setReport(toFullReport(segmentReports));
+      setIsStreaming(false);
+      setIsVerifying(true);
+      setProgress({
+        stage: 'verifying',
+        message: 'Verifying evidence for each finding...',
+        percent: VERIFY_PERCENT,
+      });
+      const parsedReport = toFullReport(await Promise.all(
+        segmentReports.map((report, i) => verifyReport(report, runs[i].videos, signal))
+      ));
+
+      // Save to the library with its footage (never a report from a cancelled run)
+      throwIfAborted(signal);
+      try {
+        await saveReport({ kind: 'self-scout', ...describeReport('self-scout', parsedReport), report: parsedReport }, input.videos);
+      } catch (e) {
+        console.error('Failed to save self scout report to the library', e);
+      }
 
       setProgress({
         stage: 'complete',
@@ -121,20 +310,39 @@ export function useSelfScout(): UseSelfScoutReturn {
       });
 
       setReport(parsedReport);
+      setIsVerifying(false);
       setIsAnalyzing(false);
 
       return parsedReport;
 
     } catch (err) {
+      // Stop any segments still running
+      controller.abort();
+
+      // A newer analyze() call owns the state now
+      if (abortRef.current !== controller) throw err;
+
+      setReport(null);
+      setIsStreaming(false);
+      setIsVerifying(false);
+      setIsAnalyzing(false);
+
+      if (isAbortError(err)) {
+        setError(null);
+        setProgress({ stage: 'idle', message: '', percent: 0 });
+        throw err;
+      }
+
       const error = err instanceof Error ? err : new Error('Analysis failed');
       setError(error);
       setProgress({
         stage: 'error',
-        message: error.message,
+        message: getErrorMessage(error),
         percent: 0,
       });
-      setIsAnalyzing(false);
       throw error;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   }, []);
 
@@ -142,9 +350,13 @@ export function useSelfScout(): UseSelfScoutReturn {
     analyze,
     report,
     isAnalyzing,
+    isStreaming,
+    isVerifying,
     progress,
     error,
+    cancel,
     reset,
+    load,
   };
 }
 
@@ -0,0 +1,47 @@
+/**
+ * Helpers for cancelling long-running work (uploads, model calls, ffmpeg).
+ */
+
+/**
+ * Creates the error every cancelled operation rejects with.
+ */
+export function createAbortError(message = 'Analysis cancelled'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * True if the error came from an aborted operation, whatever produced it
+ * (our own code, fetch, XHR or the Gemini SDK).
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error || err instanceof DOMException
+    ? err.name === 'AbortError'
+    : false;
+}
+
+/**
+ * Throws an AbortError if the signal has already fired.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Resolves after `ms`, or rejects early with an AbortError.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,198 @@
+import { Finding, FOOTAGE_REF_PATTERN, GamePlanReport, GamePlanSection, OpponentReport, ReportSection } from './report-parser';
+import { TIMESTAMP_REF_PATTERN } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CornerCardSource =
+  | { kind: 'opponent'; report: OpponentReport }
+  | { kind: 'game-plan'; report: GamePlanReport };
+
+export interface CornerCardItem {
+  title: string;
+  detail?: string; // First sentence of the description, shortened
+}
+
+export interface CornerCardBranch {
+  when: string;
+  then: string;
+}
+
+export interface CornerCardCue {
+  label: string; // "Round 1", or "Danger zone" for a scouting report
+  text: string;
+  round?: number; // Game plans: the round it is for
+}
+
+/**
+ * What the corner needs between rounds, short enough for one page or a
+ * phone screen. Text is plain: no timestamps or markdown.
+ */
+export interface CornerCard {
+  title: string;
+  subtitle: string;
+  headline?: string; // Game plans: the win condition
+  threats: CornerCardItem[]; // Top 3
+  openings: CornerCardItem[]; // Top 3
+  branches: CornerCardBranch[];
+  cues: CornerCardCue[];
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+const TOP_ITEMS = 3;
+const MAX_BRANCHES = 6;
+const MAX_DETAIL = 90;
+const MAX_CUE = 140;
+
+const SEVERITY_RANK: Finding['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Strips timestamp references, markdown emphasis and list markers.
+ */
+export const cleanText = (text: string) =>
+  text
+    .replace(new RegExp(FOOTAGE_REF_PATTERN, 'gi'), '')
+    .replace(new RegExp(TIMESTAMP_REF_PATTERN, 'g'), '')
+    .replace(/\*\*/g, '')
+    .replace(/^\s*(?:[-*•]|\d+\.)\s*/, '')
+    .replace(/\s+([,.;:])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+/**
+ * The first sentence, cut at a word boundary when still too long.
+ */
+function brief(text: string, max: number): string {
+  const sentence = cleanText(text).match(/^.+?[.!?](?=\s|$)/)?.[0] ?? cleanText(text);
+  if (sentence.length <= max) return sentence;
+  const cut = sentence.slice(0, max - 1);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), max / 2)).replace(/[,;:\s]+$/, '')}…`;
+}
+
+/**
+ * The list items in some section text, or its sentences when it has no list.
+ */
+function listItems(content: string): string[] {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  const bullets = lines.filter(line => /^(?:[-*•]|\d+\.)\s+/.test(line));
+  const items = bullets.length > 0 ? bullets : cleanText(lines.join(' ')).match(/[^.!?]+[.!?]?/g) ?? [];
+  return items.map(cleanText).filter(Boolean);
+}
+
+/**
+ * "**Name:** description" splits into a title and detail; anything else is
+ * all title.
+ */
+function toItem(text: string): CornerCardItem {
+  const named = text.match(/^\**([^:*]{2,60}?)\**\s*:\**\s*(.+)$/);
+  if (named) return { title: cleanText(named[1]), detail: brief(named[2], MAX_DETAIL) };
+  return { title: brief(text, MAX_DETAIL) };
+}
+
+const findSections = <T extends ReportSection>(sections: T[], titles: string[]) =>
+  sections.filter(s => titles.some(t => s.title.toUpperCase().includes(t)));
+
+// ============================================================================
+// OPPONENT REPORT
+// ============================================================================
+
+/**
+ * Findings most worth the corner's attention first: confirmed before
+ * unconfirmed, then by severity and how often they were seen.
+ */
+const rankFindings = (findings: Finding[]) =>
+  [...findings].sort((a, b) =>
+    Number(a.verification?.status === 'unconfirmed') - Number(b.verification?.status === 'unconfirmed') ||
+    SEVERITY_RANK.indexOf(b.severity) - SEVERITY_RANK.indexOf(a.severity) ||
+    b.instanceCount - a.instanceCount
+  );
+
+const fromFinding = (finding: Finding): CornerCardItem => ({
+  title: cleanText(finding.title.replace(/:$/, '')),
+  detail: finding.description ? brief(finding.description, MAX_DETAIL) : undefined,
+});
+
+function buildFromOpponent(report: OpponentReport): CornerCard {
+  const threats = rankFindings(report.strengths).slice(0, TOP_ITEMS).map(fromFinding);
+  // Short of ranked strengths, their most-thrown techniques are the next threat
+  for (const technique of report.mostUtilizedTechniques) {
+    if (threats.length >= TOP_ITEMS) break;
+    const title = cleanText(technique.name);
+    if (title && !threats.some(t => t.title.toLowerCase() === title.toLowerCase())) threats.push({ title });
+  }
+
+  const cues = [
+    ...findSections(report.sections, ['DANGER ZONE']).map(s => ({ label: 'Danger zone', section: s })),
+    ...findSections(report.sections, ['WINNING POSITION']).map(s => ({ label: 'Keep it here', section: s })),
+  ].flatMap(({ label, section }) => listItems(section.content).slice(0, 2).map(text => ({ label, text: brief(text, MAX_CUE) })));
+
+  return {
+    title: `vs ${report.fighterName || 'Unknown Fighter'}`,
+    subtitle: `${report.reportType === 'quick' ? 'Quick scout' : 'Scouting report'} • ${new Date(report.generatedAt).toLocaleDateString()}`,
+    threats,
+    openings: rankFindings(report.weaknesses).slice(0, TOP_ITEMS).map(fromFinding),
+    branches: report.decisionTree.slice(0, MAX_BRANCHES).map(node => ({
+      when: cleanText(node.trigger),
+      then: brief(node.response, MAX_DETAIL),
+    })),
+    cues,
+  };
+}
+
+// ============================================================================
+// GAME PLAN
+// ============================================================================
+
+/**
+ * "If winning: consolidate" or "IF they shoot THEN sprawl" lines.
+ */
+function extractBranches(sections: GamePlanSection[]): CornerCardBranch[] {
+  const branches: CornerCardBranch[] = [];
+  for (const section of sections) {
+    for (const line of section.content.split('\n')) {
+      const text = cleanText(line);
+      const match = text.match(/^If\s+(.+?)\s+THEN\s+(.+)$/i) ?? text.match(/^If\s+([^:]{2,60}?)\s*[:—–]\s*(.+)$/i);
+      if (match) branches.push({ when: match[1].trim(), then: brief(match[2], MAX_DETAIL) });
+    }
+  }
+  return branches;
+}
+
+function buildFromGamePlan(report: GamePlanReport): CornerCard {
+  const items = (titles: string[]) =>
+    findSections(report.sections, titles).flatMap(s => listItems(s.content)).slice(0, TOP_ITEMS).map(toItem);
+
+  const headline = report.blueprint ? listItems(report.blueprint.content)[0] : undefined;
+
+  return {
+    title: `vs ${report.opponentName || 'Opponent'}`,
+    subtitle: [
+      report.fighterName,
+      report.reportType === 'quick' ? 'Fight week plan' : 'Game plan',
+      new Date(report.generatedAt).toLocaleDateString(),
+    ].filter(Boolean).join(' • '),
+    headline: headline ? brief(headline, MAX_CUE) : undefined,
+    threats: items(['DEFENSIVE PRIORITIES', 'THE DANGER', 'WHAT TO AVOID']),
+    openings: items(['OFFENSIVE STRATEGY', 'BEST WEAPONS']),
+    branches: extractBranches(report.sections).slice(0, MAX_BRANCHES),
+    cues: report.rounds
+      .filter(r => r.content)
+      .map(r => ({ label: `Round ${r.round}`, text: brief(listItems(r.content)[0] ?? r.content, MAX_CUE), round: r.round })),
+  };
+}
+
+// ============================================================================
+// CARD
+// ============================================================================
+
+/**
+ * Condenses a scouting report or game plan into a one-page corner card: the
+ * top threats and openings, the If/Then branches and a cue per round.
+ */
+export function buildCornerCard(source: CornerCardSource): CornerCard {
+  return source.kind === 'opponent' ? buildFromOpponent(source.report) : buildFromGamePlan(source.report);
+}
@@ -0,0 +1,154 @@
+import { DecisionNode, GamePlanReport, OpponentReport } from './report-parser';
+import { CornerCard, CornerCardCue, buildCornerCard, cleanText } from './corner-card';
+import { titleWords } from './title-similarity';
+import { formatTimestamp } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RoundTimerConfig {
+  rounds: number;
+  roundSeconds: number;
+  restSeconds: number;
+}
+
+export type CornerPhase = 'ready' | 'round' | 'rest' | 'done';
+
+/**
+ * A quick note the corner tapped during a round.
+ */
+export interface CornerTag {
+  id: string;
+  label: string;
+  round: number;
+  second: number; // Into the round
+}
+
+/**
+ * The reports corner mode works from; either may be missing.
+ */
+export interface CornerSources {
+  opponent?: OpponentReport;
+  plan?: GamePlanReport;
+}
+
+/**
+ * What the rest-period instruction is generated from: the CORNER_INSTRUCTION
+ * template's variables.
+ */
+export interface CornerBrief {
+  round: number; // The round that just ended
+  rounds: number;
+  notes: string;
+  scouting: string;
+}
+
+export const DEFAULT_TIMER: RoundTimerConfig = { rounds: 3, roundSeconds: 300, restSeconds: 60 };
+
+export const QUICK_TAGS = [
+  "He's dropping the left",
+  "He's dropping the right",
+  'Taking us down late',
+  'Stuck on the fence',
+  'Eating leg kicks',
+  'Winning the jab',
+  'He is slowing down',
+  'We are gassing',
+];
+
+// Decision-tree branches shown for the next round
+const MAX_DECISIONS = 4;
+
+// ============================================================================
+// ROUND CONTENT
+// ============================================================================
+
+/**
+ * Decision-tree branches ranked by how many words they share with this
+ * round's tags, then in report order. Without tags it is the first few.
+ */
+export function relevantDecisions(nodes: DecisionNode[], tags: CornerTag[], limit = MAX_DECISIONS): DecisionNode[] {
+  const tagWords = new Set(tags.flatMap(tag => [...titleWords(tag.label)]));
+  const score = (node: DecisionNode) =>
+    [...titleWords(`${node.trigger} ${node.response}`)].filter(word => tagWords.has(word)).length;
+
+  return nodes
+    .map((node, index) => ({ node, index, score: score(node) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ node }) => node);
+}
+
+/**
+ * Game plan cues for a round. Past the plan's last round its final cue
+ * still applies; without a plan, the scouting report's general cues.
+ */
+export function cuesForRound(cards: CornerCard[], round: number): CornerCardCue[] {
+  const cues = cards.flatMap(card => card.cues);
+  const rounds = cues.filter(cue => cue.round !== undefined);
+  if (rounds.length === 0) return cues;
+
+  const exact = rounds.filter(cue => cue.round === round);
+  if (exact.length > 0) return exact;
+  const last = Math.max(...rounds.map(cue => cue.round!));
+  return round > last ? rounds.filter(cue => cue.round === last) : [];
+}
+
+/**
+ * The corner cards of the picked reports, scouting report first.
+ */
+export const cornerCards = ({ opponent, plan }: CornerSources): CornerCard[] => [
+  ...(opponent ? [buildCornerCard({ kind: 'opponent', report: opponent })] : []),
+  ...(plan ? [buildCornerCard({ kind: 'game-plan', report: plan })] : []),
+];
+
+// ============================================================================
+// BRIEF
+// ============================================================================
+
+/**
+ * The corner's notes, grouped by round with the one just fought marked.
+ */
+function describeNotes(tags: CornerTag[], round: number): string {
+  if (tags.length === 0) return 'No notes taken.';
+  const rounds = [...new Set(tags.map(tag => tag.round))].sort((a, b) => a - b);
+  return rounds
+    .map(r => [
+      `Round ${r}${r === round ? ' (just ended)' : ''}:`,
+      ...tags.filter(tag => tag.round === r).map(tag => `- ${formatTimestamp(tag.second)} ${tag.label}`),
+    ].join('\n'))
+    .join('\n\n');
+}
+
+function describeScouting(sources: CornerSources, nextRound: number): string {
+  const lines: string[] = [];
+  const cards = cornerCards(sources);
+
+  for (const card of cards) {
+    lines.push(`${card.title} (${card.subtitle})`);
+    if (card.headline) lines.push(`Blueprint: ${card.headline}`);
+    if (card.threats.length > 0) lines.push(`Threats: ${card.threats.map(t => t.title).join('; ')}`);
+    if (card.openings.length > 0) lines.push(`Openings: ${card.openings.map(o => o.title).join('; ')}`);
+  }
+  for (const node of sources.opponent?.decisionTree ?? []) {
+    lines.push(`IF ${cleanText(node.trigger)} THEN ${cleanText(node.response)}`);
+  }
+  for (const cue of cuesForRound(cards, nextRound)) {
+    lines.push(`Plan for round ${nextRound}: ${cue.text}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No scouting report.';
+}
+
+/**
+ * Everything the rest-period instruction needs, as prompt text.
+ */
+export function buildCornerBrief(sources: CornerSources, tags: CornerTag[], round: number, rounds: number): CornerBrief {
+  return {
+    round,
+    rounds,
+    notes: describeNotes(tags, round),
+    scouting: describeScouting(sources, round + 1),
+  };
+}
@@ -0,0 +1,146 @@
+import { Timestamp, formatTimestampText } from '../components/video/TimestampMarker';
+import { Finding, FindingVerification } from './report-parser';
+import { ParsedTime, TIMESTAMP_REF_PATTERN, TIME_PATTERN, VIDEO_REF_PATTERN, parseTimestamp } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Output shape of the EVIDENCE_EXTRACTION template.
+ */
+export interface EvidenceInstance {
+  timestamp: string; // "MM:SS", "H:MM:SS" or "MM:SS.s"; "V2 MM:SS" with several videos
+  description: string;
+  confidence: 'High' | 'Medium' | 'Low';
+}
+
+export interface EvidenceResult {
+  claim: string;
+  instances: EvidenceInstance[];
+}
+
+// Model timestamps drift by a second or two between passes
+const MATCH_TOLERANCE_SECONDS = 3;
+
+// ============================================================================
+// CLAIMS
+// ============================================================================
+
+/**
+ * Turns findings into the claims sent to the evidence pass, one per finding,
+ * in the same order.
+ */
+export function buildClaims(findings: Finding[]): string[] {
+  return findings.map(f => {
+    // Drop the cited timestamps (and the commas between them) so the claim doesn't lead the model
+    const description = f.description
+      .replace(/\*\*/g, '')
+      .replace(new RegExp(String.raw`(?:[,\s]*${TIMESTAMP_REF_PATTERN})+`, 'g'), '')
+      .trim();
+    return description.toLowerCase().startsWith(f.title.toLowerCase())
+      ? description
+      : `${f.title}: ${description}`;
+  });
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+interface ParsedInstanceTime extends ParsedTime {
+  videoId?: number;
+}
+
+function parseTime(time: string): ParsedInstanceTime | null {
+  const match = time.match(new RegExp(String.raw`(?:(${VIDEO_REF_PATTERN}))?(${TIME_PATTERN})`, 'i'));
+  const parsed = match && parseTimestamp(match[2]);
+  if (!parsed) return null;
+  const videoId = match[1] ? Number(match[1].replace(/\D/g, '')) : 0;
+  return videoId > 0 ? { ...parsed, videoId } : parsed;
+}
+
+function toTimestamp(instance: EvidenceInstance, parsed: ParsedInstanceTime, category: Finding['category']): Timestamp {
+  return {
+    time: parsed.time,
+    seconds: parsed.seconds,
+    frame: parsed.frame,
+    label: instance.description,
+    category,
+    ...(parsed.videoId && { videoId: parsed.videoId }),
+  };
+}
+
+// The same moment: same video, within the tolerance
+const isSameMoment = (a: Timestamp, b: Timestamp) =>
+  (a.videoId ?? 1) === (b.videoId ?? 1) && Math.abs(a.seconds - b.seconds) <= MATCH_TOLERANCE_SECONDS;
+
+/**
+ * Finds the evidence result for a finding: by claim text first, falling back
+ * to position when the model returned one result per claim.
+ */
+function findResult(claim: string, index: number, results: EvidenceResult[], claimCount: number): EvidenceResult | undefined {
+  const key = claim.toLowerCase().substring(0, 40);
+  const byText = results.find(r => r.claim?.toLowerCase().substring(0, 40) === key);
+  if (byText) return byText;
+  return results.length === claimCount ? results[index] : undefined;
+}
+
+/**
+ * Compares one finding's cited timestamps with what the evidence pass found.
+ */
+export function verifyFinding(finding: Finding, result: EvidenceResult | undefined): Finding {
+  const instances = (result?.instances ?? [])
+    .map(i => ({ instance: i, parsed: parseTime(i.timestamp) }))
+    .filter((i): i is { instance: EvidenceInstance; parsed: ParsedInstanceTime } => i.parsed !== null)
+    .map(i => toTimestamp(i.instance, i.parsed, finding.category))
+    .sort((a, b) => a.seconds - b.seconds);
+
+  const cited = finding.timestamps;
+  const isFound = (ts: Timestamp) => instances.some(i => isSameMoment(i, ts));
+  const matched = cited.filter(isFound);
+  const missing = cited.filter(ts => !isFound(ts));
+
+  const status: FindingVerification['status'] =
+    instances.length === 0 ? 'unconfirmed'
+    : missing.length === 0 ? 'confirmed'
+    : 'partial';
+
+  // Distinct instances backing the claim: cited ones that were found again, plus new ones
+  const extra = instances.filter(i => !cited.some(ts => isSameMoment(i, ts)));
+  const supported = matched.length + extra.length;
+
+  const confidence: Finding['confidence'] =
+    status === 'unconfirmed' ? 'inconclusive'
+    : supported >= 3 && status === 'confirmed' ? 'high'
+    : supported >= 2 ? 'medium'
+    : 'low';
+
+  let verdict: string | undefined;
+  if (status === 'unconfirmed') {
+    verdict = 'Verification pass found no instances of this in the footage.';
+  } else if (missing.length > 0) {
+    verdict = `Verification pass did not find the cited instances at ${missing.map(ts => `[${formatTimestampText(ts)}]`).join(', ')}.`;
+  }
+
+  return {
+    ...finding,
+    confidence,
+    instanceCount: Math.max(supported, 1),
+    counterEvidence: [finding.counterEvidence, verdict].filter(Boolean).join(' ') || undefined,
+    verification: {
+      status,
+      citedCount: cited.length,
+      matchedCount: matched.length,
+      instances,
+    },
+  };
+}
+
+/**
+ * Applies evidence pass results to findings built with buildClaims().
+ */
+export function applyEvidence(findings: Finding[], results: EvidenceResult[]): Finding[] {
+  const claims = buildClaims(findings);
+  return findings.map((f, i) => verifyFinding(f, findResult(claims[i], i, results, claims.length)));
+}
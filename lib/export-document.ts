@@ -0,0 +1,260 @@
+import { FightAnalysis } from '../types';
+import { Timestamp, formatTimestampText } from '../components/video/TimestampMarker';
+import { DecisionNode, Finding, FighterProfile, OpponentReport, SelfScoutReport } from './report-parser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExportableReport =
+  | { kind: 'self-scout'; report: SelfScoutReport }
+  | { kind: 'opponent'; report: OpponentReport }
+  | { kind: 'scoring'; report: FightAnalysis };
+
+/**
+ * A JPEG still, embedded as is in the PDF.
+ */
+export interface ExportImage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Format-neutral content. Text may carry markdown **bold**; the PDF and
+ * DOCX writers strip it.
+ */
+export type ExportBlock =
+  | { type: 'heading'; level: 1 | 2; text: string } // 1: report section, 2: item within it
+  | { type: 'paragraph'; text: string; muted?: boolean }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'image'; image: ExportImage; caption: string };
+
+export interface ExportDocument {
+  title: string;
+  subtitle: string;
+  generatedAt: Date;
+  blocks: ExportBlock[];
+}
+
+export interface ExportDocumentOptions {
+  // Still for a cited moment, or null when it can't be captured
+  thumbnail?: (timestamp: Timestamp) => Promise<ExportImage | null>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Drops markdown emphasis and heading marks, for the formats without them.
+ */
+export const plainText = (text: string) =>
+  text.replace(/\*\*([^*]+)\*\*/g, '$1').replace(/\*\*/g, '').replace(/^#+\s*/gm, '').trim();
+
+const formatTimestamps = (timestamps: Timestamp[]) =>
+  timestamps.filter(ts => !ts.invalid).map(ts => `[${formatTimestampText(ts)}]`).join(', ');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function profileBlocks(profile?: FighterProfile): ExportBlock[] {
+  if (!profile) return [];
+  const rows = (['height', 'reach', 'stance', 'record', 'age'] as const)
+    .filter(key => profile[key])
+    .map(key => [capitalize(key), profile[key]!]);
+  if (rows.length === 0) return [];
+  return [
+    { type: 'heading', level: 1, text: 'Tale of the Tape' },
+    { type: 'table', header: ['Attribute', profile.name || 'Value'], rows },
+  ];
+}
+
+/**
+ * A finding with its evidence, and a still of the first moment it cites.
+ */
+async function findingBlocks(finding: Finding, options: ExportDocumentOptions): Promise<ExportBlock[]> {
+  const details = [
+    `${capitalize(finding.severity)} severity`,
+    finding.category,
+    `${finding.instanceCount} instance${finding.instanceCount === 1 ? '' : 's'}`,
+    `${finding.confidence} confidence`,
+    finding.verification?.status === 'unconfirmed' ? 'not confirmed by the evidence pass' : '',
+  ].filter(Boolean);
+
+  const blocks: ExportBlock[] = [
+    { type: 'heading', level: 2, text: finding.title.replace(/:$/, '') },
+    { type: 'paragraph', text: details.join(' • '), muted: true },
+    { type: 'paragraph', text: finding.description },
+  ];
+  const cited = formatTimestamps(finding.timestamps);
+  if (cited) blocks.push({ type: 'paragraph', text: `Evidence: ${cited}`, muted: true });
+  if (finding.counterEvidence) blocks.push({ type: 'paragraph', text: `Counter-evidence: ${finding.counterEvidence}`, muted: true });
+
+  const first = finding.timestamps.find(ts => !ts.invalid);
+  const image = first && options.thumbnail ? await options.thumbnail(first) : null;
+  if (first && image) {
+    blocks.push({ type: 'image', image, caption: `${formatTimestampText(first)} — ${finding.title.replace(/:$/, '')}` });
+  }
+  return blocks;
+}
+
+async function findingListBlocks(title: string, findings: Finding[], options: ExportDocumentOptions): Promise<ExportBlock[]> {
+  if (findings.length === 0) return [];
+  const blocks: ExportBlock[] = [{ type: 'heading', level: 1, text: title }];
+  for (const finding of findings) blocks.push(...await findingBlocks(finding, options));
+  return blocks;
+}
+
+const decisionRows = (nodes: DecisionNode[]) =>
+  nodes.map(node => [node.trigger, node.response, node.timestamp ? formatTimestampText(node.timestamp) : '']);
+
+// ============================================================================
+// BUILDERS
+// ============================================================================
+
+async function buildSelfScoutDocument(report: SelfScoutReport, options: ExportDocumentOptions): Promise<ExportDocument> {
+  const { overallAssessment: overall } = report;
+  const blocks: ExportBlock[] = [...profileBlocks(report.profile)];
+
+  if (overall.summary || overall.level || overall.archetype) {
+    blocks.push({ type: 'heading', level: 1, text: 'Overall Assessment' });
+    const traits = [overall.level && `Level: ${overall.level}`, overall.archetype && `Archetype: ${overall.archetype}`].filter(Boolean);
+    if (traits.length > 0) blocks.push({ type: 'paragraph', text: traits.join(' • '), muted: true });
+    if (overall.summary) blocks.push({ type: 'paragraph', text: overall.summary });
+  }
+
+  blocks.push(...await findingListBlocks('Exploitable Patterns', report.findings, options));
+  blocks.push(...await findingListBlocks('Strengths', report.strengths, options));
+
+  if (report.priorityImprovements.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 1, text: 'Priority Improvements' },
+      {
+        type: 'table',
+        header: ['#', 'Area', 'Issue', 'Fix', 'Drill'],
+        rows: [...report.priorityImprovements]
+          .sort((a, b) => a.priority - b.priority)
+          .map(imp => [String(imp.priority), imp.area, imp.issue, imp.fix, imp.drillRecommendation || '']),
+      }
+    );
+  }
+
+  if (report.progress) {
+    blocks.push(
+      { type: 'heading', level: 1, text: 'Progress' },
+      { type: 'list', items: report.progress.issues.map(issue => `**${capitalize(issue.status)}:** ${issue.title}. ${issue.note}`) }
+    );
+    if (report.progress.unassessed.length > 0) {
+      blocks.push({ type: 'paragraph', text: `Not assessed: ${report.progress.unassessed.join(', ')}`, muted: true });
+    }
+  }
+
+  if (report.opponentGamePlan) {
+    blocks.push(
+      { type: 'heading', level: 1, text: 'If I Were Your Opponent' },
+      { type: 'paragraph', text: report.opponentGamePlan }
+    );
+  }
+
+  return {
+    title: 'Self-Scout Report',
+    subtitle: `${capitalize(report.analysisType)} analysis`,
+    generatedAt: new Date(report.generatedAt),
+    blocks,
+  };
+}
+
+async function buildOpponentDocument(report: OpponentReport, options: ExportDocumentOptions): Promise<ExportDocument> {
+  const blocks: ExportBlock[] = [...profileBlocks(report.profile)];
+
+  blocks.push(...await findingListBlocks('Strengths', report.strengths, options));
+  blocks.push(...await findingListBlocks('Weaknesses', report.weaknesses, options));
+
+  if (report.mostUtilizedTechniques.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 1, text: 'Most Utilized Techniques' },
+      {
+        type: 'list',
+        items: report.mostUtilizedTechniques.map(t => [t.name, formatTimestamps(t.timestamps)].filter(Boolean).join(' ')),
+      }
+    );
+  }
+
+  if (report.decisionTree.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 1, text: 'Decision Tree' },
+      { type: 'table', header: ['When', 'They', 'Seen at'], rows: decisionRows(report.decisionTree) }
+    );
+  }
+
+  return {
+    title: `${report.fighterName || 'Unknown Fighter'} — Scouting Report`,
+    subtitle: `${report.reportType === 'quick' ? 'Quick' : 'Full'} opponent breakdown`,
+    generatedAt: new Date(report.generatedAt),
+    blocks,
+  };
+}
+
+function buildScoringDocument(report: FightAnalysis): ExportDocument {
+  const a = report.fighter_a_name || 'Fighter A';
+  const b = report.fighter_b_name || 'Fighter B';
+  const blocks: ExportBlock[] = [
+    { type: 'heading', level: 1, text: 'Summary' },
+    { type: 'paragraph', text: `Fight rating: ${report.overall_rating}/10`, muted: true },
+    { type: 'paragraph', text: report.overall_summary },
+    { type: 'heading', level: 1, text: 'Scorecard' },
+    { type: 'table', header: ['Round', 'Winner', 'Score'], rows: report.rounds.map(r => [String(r.round), r.winner, r.score]) },
+  ];
+
+  for (const round of report.rounds) {
+    blocks.push(
+      { type: 'heading', level: 2, text: `Round ${round.round}` },
+      { type: 'paragraph', text: round.explanation },
+      {
+        type: 'list',
+        items: [
+          `**Striking:** ${round.striking}`,
+          `**Grappling:** ${round.grappling}`,
+          `**Aggression:** ${round.aggression}`,
+          `**Control:** ${round.control}`,
+        ],
+      }
+    );
+  }
+
+  for (const [name, strengths, weaknesses] of [
+    [a, report.fighter_a_strengths, report.fighter_a_weaknesses],
+    [b, report.fighter_b_strengths, report.fighter_b_weaknesses],
+  ] as const) {
+    blocks.push({ type: 'heading', level: 1, text: name });
+    if (strengths.length > 0) blocks.push({ type: 'heading', level: 2, text: 'Strengths' }, { type: 'list', items: [...strengths] });
+    if (weaknesses.length > 0) blocks.push({ type: 'heading', level: 2, text: 'Weaknesses' }, { type: 'list', items: [...weaknesses] });
+  }
+
+  if (report.detected_tells.length > 0) {
+    blocks.push({ type: 'heading', level: 1, text: 'Detected Tells' }, { type: 'list', items: report.detected_tells });
+  }
+
+  return {
+    title: `${a} vs ${b}`,
+    subtitle: 'Fight scoring',
+    generatedAt: new Date(),
+    blocks,
+  };
+}
+
+/**
+ * Lays a report out as format-neutral blocks, capturing stills for its
+ * findings when `options.thumbnail` is given.
+ */
+export async function buildExportDocument(input: ExportableReport, options: ExportDocumentOptions = {}): Promise<ExportDocument> {
+  switch (input.kind) {
+    case 'self-scout':
+      return buildSelfScoutDocument(input.report, options);
+    case 'opponent':
+      return buildOpponentDocument(input.report, options);
+    case 'scoring':
+      return buildScoringDocument(input.report);
+  }
+}
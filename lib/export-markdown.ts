@@ -0,0 +1,34 @@
+import { ExportBlock, ExportDocument } from './export-document';
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level + 1)} ${block.text}`;
+    case 'paragraph':
+      return block.muted ? `_${block.text.replace(/_/g, '\\_')}_` : block.text;
+    case 'list':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'table':
+      return [
+        `| ${block.header.map(escapeCell).join(' | ')} |`,
+        `| ${block.header.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+      ].join('\n');
+    case 'image':
+      // Stills only go in the PDF; the caption already names the moment
+      return '';
+  }
+}
+
+/**
+ * The document as Markdown: the title as `#`, report sections as `##`.
+ */
+export function renderMarkdown(doc: ExportDocument): string {
+  const header = [
+    `# ${doc.title}`,
+    `_${doc.subtitle} • ${doc.generatedAt.toLocaleString()} • Corner AI_`,
+  ];
+  return [...header, ...doc.blocks.map(renderBlock).filter(Boolean)].join('\n\n') + '\n';
+}
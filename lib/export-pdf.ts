@@ -0,0 +1,384 @@
+import { ExportBlock, ExportDocument, ExportImage, plainText } from './export-document';
+
+// ============================================================================
+// PAGE & TYPE
+// ============================================================================
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = MARGIN + 20; // Leaves room for the footer
+const BAND_HEIGHT = 96;
+
+type Rgb = [number, number, number];
+
+// The app's slate and red
+const INK: Rgb = [15, 23, 42];
+const BODY: Rgb = [30, 41, 59];
+const MUTED: Rgb = [100, 116, 139];
+const RULE: Rgb = [203, 213, 225];
+const TABLE_HEADER: Rgb = [241, 245, 249];
+const BRAND_RED: Rgb = [220, 38, 38];
+const WHITE: Rgb = [255, 255, 255];
+
+const HEADING_SIZES: Record<1 | 2, number> = { 1: 14, 2: 11.5 };
+const BODY_SIZE = 10;
+const LEADING = 1.4;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs about this much wider; close enough for line breaking
+const BOLD_SCALE = 1.07;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Common characters WinAnsi lacks, spelled with ones it has. Accented letters
+// not listed lose their accents ("Jiří" prints as "Jiri")
+const TRANSLITERATIONS: Record<string, string> = {
+  '→': '->', '←': '<-', '‐': '-', '‑': '-', '‒': '–', '―': '—', '−': '-', '⁄': '/',
+  '′': "'", '″': '"', '‛': '‘', '‟': '“', '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x',
+  'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ħ': 'h', 'Ħ': 'H', 'ı': 'i', 'ŀ': 'l', 'Ŀ': 'L', 'ŧ': 't', 'Ŧ': 'T',
+};
+
+const winAnsiCode = (char: string): number | undefined => {
+  const code = char.charCodeAt(0);
+  if (WIN_ANSI[char] !== undefined) return WIN_ANSI[char];
+  return char.length === 1 && code >= 32 && code <= 255 && !(code >= 127 && code < 160) ? code : undefined;
+};
+
+/**
+ * The text as WinAnsi character codes (one char per byte). Other characters
+ * are transliterated where they can be; anything left becomes "?".
+ */
+function toWinAnsi(text: string): string {
+  let out = '';
+  const normalized = text
+    .replace(/[\t\r\u2000-\u200a\u202f\u205f\u3000]/g, ' ')
+    .replace(/[\u200b-\u200d\u2060\ufeff]/g, '');
+  for (const char of normalized) {
+    const spelled = TRANSLITERATIONS[char] ?? (winAnsiCode(char) === undefined
+      ? char.normalize('NFD').replace(/\p{M}/gu, '')
+      : char);
+    for (const part of spelled || '?') {
+      const code = winAnsiCode(part);
+      out += code === undefined ? '?' : String.fromCharCode(code);
+    }
+  }
+  return out;
+}
+
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, m => `\\${m}`);
+
+function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_SCALE : 1);
+}
+
+/**
+ * Breaks WinAnsi text into lines no wider than `width`, keeping its own newlines.
+ */
+function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word wider than the line is split wherever it runs out
+      line = '';
+      for (const char of word) {
+        if (textWidth(line + char, size, bold) > width && line) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const color = ([r, g, b]: Rgb, op: 'rg' | 'RG') => `${(r / 255).toFixed(3)} ${(g / 255).toFixed(3)} ${(b / 255).toFixed(3)} ${op}`;
+const num = (n: number) => n.toFixed(2);
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Lays blocks top to bottom, starting a new page whenever the next piece
+ * doesn't fit. Pages are kept as content-stream operators.
+ */
+class PdfLayout {
+  pages: string[][] = [];
+  images: ExportImage[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < BOTTOM) this.newPage();
+  }
+
+  moveDown(points: number) {
+    this.y -= points;
+  }
+
+  text(text: string, x: number, y: number, size: number, rgb: Rgb, bold = false) {
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${color(rgb, 'rg')} ${num(x)} ${num(y)} Td (${escapePdfString(text)}) Tj ET`);
+  }
+
+  rect(x: number, y: number, w: number, h: number, rgb: Rgb) {
+    this.ops.push(`${color(rgb, 'rg')} ${num(x)} ${num(y)} ${num(w)} ${num(h)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, rgb: Rgb, width = 0.5) {
+    this.ops.push(`${color(rgb, 'RG')} ${width} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  /**
+   * Writes wrapped text at the cursor, breaking across pages as needed.
+   */
+  paragraph(text: string, { size = BODY_SIZE, rgb = BODY, bold = false, indent = 0 } = {}) {
+    const leading = size * LEADING;
+    for (const line of wrapText(toWinAnsi(plainText(text)), CONTENT_WIDTH - indent, size, bold)) {
+      this.ensureSpace(leading);
+      this.moveDown(leading);
+      this.text(line, MARGIN + indent, this.y + (leading - size) / 2, size, rgb, bold);
+    }
+  }
+
+  banner(doc: ExportDocument) {
+    const top = PAGE_HEIGHT;
+    this.rect(0, top - BAND_HEIGHT, PAGE_WIDTH, BAND_HEIGHT, INK);
+    this.rect(0, top - BAND_HEIGHT - 3, PAGE_WIDTH, 3, BRAND_RED);
+    this.text('CORNER', MARGIN, top - 30, 11, WHITE, true);
+    this.text('AI', MARGIN + textWidth('CORNER ', 11, true), top - 30, 11, BRAND_RED, true);
+
+    const title = wrapText(toWinAnsi(doc.title), CONTENT_WIDTH, 20, true)[0];
+    this.text(title, MARGIN, top - 58, 20, WHITE, true);
+    this.text(toWinAnsi(`${doc.subtitle} • ${doc.generatedAt.toLocaleString()}`), MARGIN, top - 78, 9, RULE);
+    this.y = top - BAND_HEIGHT - 20;
+  }
+
+  heading(level: 1 | 2, text: string) {
+    const size = HEADING_SIZES[level];
+    const space = level === 1 ? 14 : 8;
+    // Keep a heading on the same page as the first lines under it
+    this.ensureSpace(space + size * LEADING + BODY_SIZE * LEADING * 2);
+    this.moveDown(space);
+    this.paragraph(text, { size, rgb: INK, bold: true });
+    if (level === 1) {
+      this.moveDown(4);
+      this.line(MARGIN, this.y, MARGIN + 40, this.y, BRAND_RED, 1.5);
+      this.moveDown(2);
+    }
+  }
+
+  list(items: string[]) {
+    const leading = BODY_SIZE * LEADING;
+    for (const item of items) {
+      // Bullet first, while the cursor is still on the item's first page
+      this.ensureSpace(leading);
+      this.text(toWinAnsi('•'), MARGIN + 2, this.y - leading + (leading - BODY_SIZE) / 2, BODY_SIZE, MUTED);
+      this.paragraph(item, { indent: 12 });
+      this.moveDown(2);
+    }
+  }
+
+  table(header: string[], rows: string[][]) {
+    const size = BODY_SIZE - 1;
+    const leading = size * LEADING;
+    const padding = 4;
+
+    // Columns share the width in proportion to their widest cell, within limits
+    const natural = header.map((h, col) => Math.min(220, Math.max(
+      40,
+      textWidth(toWinAnsi(h), size, true),
+      ...rows.map(row => textWidth(toWinAnsi(plainText(row[col] || '')), size))
+    )));
+    const total = natural.reduce((a, b) => a + b, 0);
+    const widths = natural.map(w => (w / total) * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const wrapped = cells.map((cell, col) => wrapText(toWinAnsi(plainText(cell || '')), widths[col] - 2 * padding, size, bold));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * leading + 2 * padding;
+      this.ensureSpace(height);
+      if (bold) this.rect(MARGIN, this.y - height, CONTENT_WIDTH, height, TABLE_HEADER);
+
+      let x = MARGIN;
+      wrapped.forEach((lines, col) => {
+        lines.forEach((line, i) => {
+          this.text(line, x + padding, this.y - padding - (i + 1) * leading + (leading - size) / 2, size, bold ? INK : BODY, bold);
+        });
+        x += widths[col];
+      });
+      this.moveDown(height);
+      this.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, RULE);
+    };
+
+    this.moveDown(4);
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    this.moveDown(6);
+  }
+
+  image(image: ExportImage, caption: string) {
+    const width = Math.min(240, CONTENT_WIDTH, image.width);
+    const height = (image.height / image.width) * width;
+    this.ensureSpace(height + 22);
+    this.moveDown(6 + height);
+
+    this.images.push(image);
+    this.ops.push(`q ${num(width)} 0 0 ${num(height)} ${MARGIN} ${num(this.y)} cm /Im${this.images.length} Do Q`);
+    this.paragraph(caption, { size: 8, rgb: MUTED });
+    this.moveDown(4);
+  }
+
+  block(block: ExportBlock) {
+    switch (block.type) {
+      case 'heading':
+        return this.heading(block.level, block.text);
+      case 'paragraph':
+        this.paragraph(block.text, { rgb: block.muted ? MUTED : BODY, size: block.muted ? BODY_SIZE - 1 : BODY_SIZE });
+        return this.moveDown(4);
+      case 'list':
+        return this.list(block.items);
+      case 'table':
+        return this.table(block.header, block.rows);
+      case 'image':
+        return this.image(block.image, block.caption);
+    }
+  }
+
+  footers(title: string) {
+    this.pages.forEach((ops, i) => {
+      const label = `Page ${i + 1} of ${this.pages.length}`;
+      const brand = toWinAnsi(`Corner AI • ${title}`);
+      ops.push(
+        `${color(RULE, 'RG')} 0.5 w ${MARGIN} ${MARGIN} m ${num(MARGIN + CONTENT_WIDTH)} ${MARGIN} l S`,
+        `BT /F1 8 Tf ${color(MUTED, 'rg')} ${MARGIN} ${MARGIN - 14} Td (${escapePdfString(wrapText(brand, CONTENT_WIDTH - 80, 8)[0])}) Tj ET`,
+        `BT /F1 8 Tf ${color(MUTED, 'rg')} ${num(MARGIN + CONTENT_WIDTH - textWidth(label, 8))} ${MARGIN - 14} Td (${label}) Tj ET`
+      );
+    });
+  }
+}
+
+// ============================================================================
+// FILE
+// ============================================================================
+
+const latin1Bytes = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Writes numbered objects with the cross-reference table that indexes them.
+ * `objects[0]` is object 1.
+ */
+function writePdfFile(objects: (string | Uint8Array)[][], info: number): Uint8Array {
+  const chunks: Uint8Array[] = [latin1Bytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? latin1Bytes(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  objects.forEach((parts, i) => {
+    offsets.push(length);
+    push(`${i + 1} 0 obj\n`);
+    parts.forEach(push);
+    push('\nendobj\n');
+  });
+
+  const xref = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const file = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    file.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return file;
+}
+
+/**
+ * Renders the document as a branded A4 PDF: a title band, then the blocks in
+ * Helvetica, with finding stills embedded as JPEGs and a footer on each page.
+ */
+export function renderPdf(doc: ExportDocument): Blob {
+  const layout = new PdfLayout();
+  layout.banner(doc);
+  doc.blocks.forEach(block => layout.block(block));
+  layout.footers(doc.title);
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then images, pages with their contents, and info
+  const firstImage = 5;
+  const firstPage = firstImage + layout.images.length;
+  const pageIds = layout.pages.map((_, i) => firstPage + 2 * i);
+  const info = firstPage + 2 * layout.pages.length;
+  const xObjects = layout.images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ');
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    [`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`],
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'],
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+    ...layout.images.map(image => [
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+      image.jpeg,
+      '\nendstream',
+    ]),
+    ...layout.pages.flatMap((ops, i) => {
+      const content = ops.join('\n');
+      return [
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[i] + 1} 0 R >>`],
+        [`<< /Length ${content.length} >>\nstream\n`, content, '\nendstream'],
+      ];
+    }),
+    [`<< /Title (${escapePdfString(toWinAnsi(doc.title))}) /Producer (Corner AI) >>`],
+  ];
+
+  return new Blob([writePdfFile(objects, info)], { type: 'application/pdf' });
+}
@@ -0,0 +1,92 @@
+import { FightAnalysis } from '../types';
+import { Finding, OpponentReport, SelfScoutReport } from './report-parser';
+import { LibraryEntry } from './report-library';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A weakness that shows up in more than one of a fighter's reports.
+ */
+export interface RecurringWeakness {
+  title: string; // As worded in the latest report
+  severity: Finding['severity']; // Highest across the reports
+  category?: Finding['category']; // Scoring reports give plain text, with no category
+  reportIds: string[]; // Library entries it appears in, newest first
+  lastSeen: number;
+}
+
+// ============================================================================
+// WEAKNESSES
+// ============================================================================
+
+const SEVERITY_RANK: Record<Finding['severity'], number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * The weaknesses a report records about one fighter. A scoring report
+ * lists weaknesses for both corners, so only this fighter's side counts.
+ */
+function weaknessesOf(entry: LibraryEntry, fighterId: string): Pick<RecurringWeakness, 'title' | 'severity' | 'category'>[] {
+  switch (entry.kind) {
+    case 'opponent':
+      return (entry.report as OpponentReport).weaknesses;
+    case 'self-scout':
+      return (entry.report as SelfScoutReport).findings;
+    case 'scoring': {
+      const report = entry.report as FightAnalysis;
+      const side = report.fighter_a_id === fighterId ? report.fighter_a_weaknesses
+        : report.fighter_b_id === fighterId ? report.fighter_b_weaknesses
+        : [];
+      return (side || []).map(title => ({ title, severity: 'medium' as const }));
+    }
+    case 'game-plan':
+      return [];
+  }
+}
+
+/**
+ * Groups the weaknesses in a fighter's reports by title and keeps those
+ * seen in at least `minReports` reports, most frequent first.
+ */
+export function findRecurringWeaknesses(
+  fighterId: string,
+  entries: LibraryEntry[],
+  minReports = 2
+): RecurringWeakness[] {
+  const byTitle = new Map<string, RecurringWeakness>();
+
+  // Newest first, so each title keeps its latest wording
+  for (const entry of [...entries].sort((a, b) => b.createdAt - a.createdAt)) {
+    for (const weakness of weaknessesOf(entry, fighterId)) {
+      const key = normalizeTitle(weakness.title);
+      if (!key) continue;
+
+      const existing = byTitle.get(key);
+      if (!existing) {
+        byTitle.set(key, {
+          title: weakness.title.replace(/:$/, ''),
+          severity: weakness.severity,
+          category: weakness.category,
+          reportIds: [entry.id],
+          lastSeen: entry.createdAt,
+        });
+        continue;
+      }
+
+      if (!existing.reportIds.includes(entry.id)) existing.reportIds.push(entry.id);
+      if (SEVERITY_RANK[weakness.severity] > SEVERITY_RANK[existing.severity]) existing.severity = weakness.severity;
+      existing.category ??= weakness.category;
+    }
+  }
+
+  return [...byTitle.values()]
+    .filter(w => w.reportIds.length >= minReports)
+    .sort((a, b) =>
+      b.reportIds.length - a.reportIds.length ||
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      b.lastSeen - a.lastSeen
+    );
+}
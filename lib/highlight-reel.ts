@@ -0,0 +1,108 @@
+import { Timestamp, formatTimestampText } from '../components/video/TimestampMarker';
+import { DecisionNode, Finding, Technique } from './report-parser';
+import { ClipOptions, ReelSegment, getClipRange } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What goes into a reel: the opening card, the clips and the download name.
+ */
+export interface ReelPlan {
+  title: string;
+  subtitle?: string;
+  segments: ReelSegment[];
+  fileName: string;
+}
+
+type RangeOptions = Pick<ClipOptions, 'leadIn' | 'leadOut' | 'duration'>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/\*\*/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'reel';
+
+const cleanTitle = (title: string) => title.replace(/\*\*/g, '').replace(/:$/, '').trim();
+
+/**
+ * Turns one group of timestamps into segments under the same caption.
+ * Clips whose ranges overlap are merged so no footage plays twice.
+ */
+function toSegments(timestamps: Timestamp[], caption: string, options: RangeOptions): ReelSegment[] {
+  const sorted = timestamps.filter(ts => !ts.invalid).sort((a, b) => a.seconds - b.seconds);
+  const merged: { start: number; end: number; times: string[] }[] = [];
+
+  for (const ts of sorted) {
+    const range = getClipRange(ts.seconds, { ...options, until: ts.end });
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+      last.times.push(formatTimestampText(ts));
+    } else {
+      merged.push({ ...range, times: [formatTimestampText(ts)] });
+    }
+  }
+
+  return merged.map((m, i) => ({
+    start: m.start,
+    end: m.end,
+    caption,
+    subcaption: `${merged.length > 1 ? `Clip ${i + 1} of ${merged.length} · ` : ''}${m.times.join(', ')}`,
+  }));
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+/**
+ * Every cited timestamp of one finding or strength.
+ */
+export function planFindingReel(finding: Finding, options: RangeOptions = {}): ReelPlan {
+  const title = cleanTitle(finding.title);
+  const count = finding.timestamps.filter(ts => !ts.invalid).length;
+  return {
+    title,
+    subtitle: `${count} moment${count !== 1 ? 's' : ''} · ${finding.category}`,
+    segments: toSegments(finding.timestamps, title, options),
+    fileName: `${slugify(title)}-reel.mp4`,
+  };
+}
+
+/**
+ * All of a fighter's most utilized techniques, one chapter per technique.
+ */
+export function planTechniquesReel(techniques: Technique[], fighterName?: string, options: RangeOptions = {}): ReelPlan {
+  const name = fighterName || 'Opponent';
+  return {
+    title: `${name}: Most Utilized Techniques`,
+    subtitle: techniques.map(t => cleanTitle(t.name)).join(' · '),
+    segments: techniques.flatMap(t => toSegments(t.timestamps, cleanTitle(t.name), options)),
+    fileName: `${slugify(name)}-techniques-reel.mp4`,
+  };
+}
+
+/**
+ * The decision tree nodes that cite a moment, each shown as IF / THEN.
+ */
+export function planDecisionTreeReel(nodes: DecisionNode[], fighterName?: string, options: RangeOptions = {}): ReelPlan {
+  const name = fighterName || 'Opponent';
+  const withTimestamps = nodes.filter((n): n is DecisionNode & { timestamp: Timestamp } => !!n.timestamp && !n.timestamp.invalid);
+  return {
+    title: `${name}: Decision Tree`,
+    subtitle: `${withTimestamps.length} situation${withTimestamps.length !== 1 ? 's' : ''}`,
+    segments: withTimestamps.map(node => {
+      const { start, end } = getClipRange(node.timestamp.seconds, { ...options, until: node.timestamp.end });
+      return {
+        start,
+        end,
+        caption: `IF ${cleanTitle(node.trigger)}`,
+        subcaption: `THEN ${cleanTitle(node.response)} · ${formatTimestampText(node.timestamp)}`,
+      };
+    }),
+    fileName: `${slugify(name)}-decision-tree-reel.mp4`,
+  };
+}
@@ -0,0 +1,177 @@
+import { CompressionProfileId, CompressionResult, SplitPiece } from './video-processing';
+import { createAbortError, isAbortError, throwIfAborted } from './abort';
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+/**
+ * Work the media worker can do. Files are posted as-is; Blobs are passed by
+ * reference, so nothing is copied on the main thread.
+ */
+export type MediaTask =
+  | { type: 'hash'; file: File }
+  | { type: 'base64'; file: File }
+  | { type: 'compress'; file: File; profileId: CompressionProfileId }
+  | { type: 'split'; file: File; ranges: { start: number; end: number }[] };
+
+export type MediaWorkerRequest =
+  | { id: string; type: 'run'; task: MediaTask }
+  | { id: string; type: 'cancel' };
+
+/**
+ * Every task reports zero or more `progress` messages (0-100), then exactly
+ * one `result` or `error`. Errors carry the name so AbortErrors survive the trip.
+ */
+export type MediaWorkerResponse =
+  | { id: string; type: 'progress'; progress: number }
+  | { id: string; type: 'result'; result: unknown }
+  | { id: string; type: 'error'; name: string; message: string };
+
+export interface MediaTaskOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// WORKER CLIENT
+// ============================================================================
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+const pending = new Map<string, PendingTask>();
+
+/**
+ * Starts the shared media worker on first use. If it crashes, every pending
+ * task fails and the next task starts a fresh one.
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./media-worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<MediaWorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return; // Cancelled
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+
+    pending.delete(message.id);
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else if (message.name === 'AbortError') {
+      task.reject(createAbortError());
+    } else {
+      const error = new Error(message.message);
+      error.name = message.name;
+      task.reject(error);
+    }
+  };
+
+  worker.onerror = (event) => {
+    const error = new Error(`Media worker failed: ${event.message || 'unknown error'}`);
+    pending.forEach(task => task.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
+
+/**
+ * Runs one task in the media worker. Aborting the signal rejects at once with
+ * an AbortError and tells the worker to stop.
+ */
+function runMediaTask<T>(task: MediaTask, { onProgress, signal }: MediaTaskOptions = {}): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    throwIfAborted(signal);
+
+    const id = crypto.randomUUID();
+    const target = getWorker();
+
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ id, type: 'cancel' } satisfies MediaWorkerRequest);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pending.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as T);
+      },
+      reject: (err) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+      onProgress,
+    });
+
+    target.postMessage({ id, type: 'run', task } satisfies MediaWorkerRequest);
+  });
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+const hashes = new WeakMap<File, Promise<string>>();
+
+/**
+ * Content hash of a file (see computeFileHash), computed off the main thread.
+ * Remembered per File, so hashing a tape up front makes later lookups (upload
+ * cache, report library) free; only the first caller sees progress. The
+ * first caller's signal stops the worker; a later caller still waiting then
+ * starts the hash again.
+ */
+export function hashMedia(file: File, options: MediaTaskOptions = {}): Promise<string> {
+  const cached = hashes.get(file);
+  if (cached) {
+    options.onProgress?.(100);
+    return cached.catch(err => {
+      if (isAbortError(err) && !options.signal?.aborted) return hashMedia(file, options);
+      throw err;
+    });
+  }
+
+  const hash = runMediaTask<string>({ type: 'hash', file }, options);
+  hashes.set(file, hash);
+  hash.catch(() => {
+    if (hashes.get(file) === hash) hashes.delete(file);
+  });
+  return hash;
+}
+
+/**
+ * Base64 of the file's bytes (no data: prefix), for inline request parts.
+ */
+export function encodeMediaBase64(file: File, options?: MediaTaskOptions): Promise<string> {
+  return runMediaTask<string>({ type: 'base64', file }, options);
+}
+
+/**
+ * compressVideo in the worker. FFmpeg failures still resolve with the original
+ * file and a `failureReason`.
+ */
+export function compressMedia(file: File, profileId: CompressionProfileId, options?: MediaTaskOptions): Promise<CompressionResult> {
+  return runMediaTask<CompressionResult>({ type: 'compress', file, profileId }, options);
+}
+
+/**
+ * splitVideo in the worker: one MP4 per range, in order, each with the time
+ * it really starts at.
+ */
+export function splitMedia(file: File, ranges: { start: number; end: number }[], options?: MediaTaskOptions): Promise<SplitPiece[]> {
+  return runMediaTask<SplitPiece[]>({ type: 'split', file, ranges }, options);
+}
@@ -0,0 +1,74 @@
+/**
+ * Media preparation worker. Hashing, base64 encoding and FFmpeg compression
+ * and splitting read whole files, so they run here to keep the UI responsive.
+ * Talk to it through lib/media-prep.ts rather than posting messages directly.
+ */
+import { COMPRESSION_PROFILES, compressVideo, computeFileHash, splitVideo } from './video-processing';
+import { MediaWorkerRequest, MediaWorkerResponse, MediaTask } from './media-prep';
+import { throwIfAborted } from './abort';
+
+// Multiple of 3, so each chunk encodes to base64 without padding and the pieces can be joined
+const BASE64_CHUNK_BYTES = 3 * 256 * 1024;
+
+const controllers = new Map<string, AbortController>();
+
+const post = (message: MediaWorkerResponse) => self.postMessage(message);
+
+async function encodeBase64(file: File, onProgress: (progress: number) => void, signal: AbortSignal): Promise<string> {
+  const pieces: string[] = [];
+
+  for (let offset = 0; offset < file.size; offset += BASE64_CHUNK_BYTES) {
+    throwIfAborted(signal);
+
+    const bytes = new Uint8Array(await file.slice(offset, offset + BASE64_CHUNK_BYTES).arrayBuffer());
+    let binary = '';
+    // String.fromCharCode takes its bytes as arguments, so feed it in slices
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    pieces.push(btoa(binary));
+    onProgress(Math.round((Math.min(offset + BASE64_CHUNK_BYTES, file.size) / file.size) * 100));
+  }
+
+  return pieces.join('');
+}
+
+async function run(task: MediaTask, onProgress: (progress: number) => void, signal: AbortSignal): Promise<unknown> {
+  switch (task.type) {
+    case 'hash':
+      return computeFileHash(task.file, onProgress, signal);
+    case 'base64':
+      return encodeBase64(task.file, onProgress, signal);
+    case 'compress':
+      return compressVideo(task.file, COMPRESSION_PROFILES[task.profileId], onProgress, signal);
+    case 'split':
+      return splitVideo(task.file, task.ranges, onProgress, signal);
+  }
+}
+
+self.onmessage = async (event: MessageEvent<MediaWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, task } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    const result = await run(task, progress => post({ id, type: 'progress', progress }), controller.signal);
+    post({ id, type: 'result', result });
+  } catch (err) {
+    post({
+      id,
+      type: 'error',
+      name: err instanceof Error || err instanceof DOMException ? err.name : 'Error',
+      message: err instanceof Error || err instanceof DOMException ? err.message : String(err),
+    });
+  } finally {
+    controllers.delete(id);
+  }
+};
@@ -0,0 +1,206 @@
+import { Timestamp } from '../components/video/TimestampMarker';
+import { DecisionNode, Finding, OpponentReport } from './report-parser';
+import { mergeTimestamps } from './segmentation';
+import { SIMILARITY_THRESHOLD, titleSimilarity, titleWords } from './title-similarity';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A scouting report to merge, with the library ids of its videos in V1, V2
+ * order. Reports that share a tape share its id, so that fight counts once.
+ */
+export interface DossierSource {
+  report: OpponentReport;
+  videoIds: string[];
+}
+
+/**
+ * The moments one source video shows a pattern. Timestamps are on that
+ * video's own timeline, so their `videoId` is cleared.
+ */
+export interface DossierEvidence {
+  videoKey: string; // Library video id, or "<report id>:V<n>" when the tape wasn't stored
+  reportIds: string[];
+  timestamps: Timestamp[];
+}
+
+/**
+ * A strength, weakness or decision-tree habit, clustered across reports.
+ */
+export interface DossierPattern {
+  id: string;
+  kind: 'strength' | 'weakness' | 'decision';
+  title: string; // As worded by the report that saw it in the most fights
+  description: string; // Decisions: the response to the trigger
+  variants: string[]; // Other titles merged into this pattern
+  severity?: Finding['severity']; // Highest given; findings only
+  category?: Finding['category'];
+  confidence?: Finding['confidence'];
+  instanceCount: number; // Summed across reports
+  fightCount: number; // Source videos it was seen in
+  consistency: number; // fightCount / all fights in the dossier, 0-1
+  reportIds: string[];
+  evidence: DossierEvidence[];
+}
+
+export interface OpponentDossier {
+  fighterName?: string;
+  generatedAt: Date;
+  reportIds: string[];
+  fightCount: number;
+  patterns: DossierPattern[]; // Most consistent first
+}
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+const SEVERITY_RANK: Finding['severity'][] = ['low', 'medium', 'high', 'critical'];
+const CONFIDENCE_RANK: Finding['confidence'][] = ['inconclusive', 'low', 'medium', 'high'];
+
+const higher = <T>(rank: T[], a: T | undefined, b: T | undefined) =>
+  a === undefined ? b : b === undefined ? a : rank.indexOf(a) >= rank.indexOf(b) ? a : b;
+
+interface Observation {
+  kind: DossierPattern['kind'];
+  title: string;
+  description: string;
+  severity?: Finding['severity'];
+  category?: Finding['category'];
+  confidence?: Finding['confidence'];
+  instanceCount: number;
+  timestamps: Timestamp[];
+  reportId: string;
+  videoKeys: string[]; // The report's videos, V1 first
+}
+
+const fromFinding = (kind: 'strength' | 'weakness', finding: Finding): Omit<Observation, 'reportId' | 'videoKeys'> => ({
+  kind,
+  title: finding.title.replace(/:$/, ''),
+  description: finding.description,
+  severity: finding.severity,
+  category: finding.category,
+  confidence: finding.confidence,
+  instanceCount: finding.instanceCount,
+  timestamps: finding.timestamps,
+});
+
+const fromDecision = (node: DecisionNode): Omit<Observation, 'reportId' | 'videoKeys'> => ({
+  kind: 'decision',
+  title: node.trigger,
+  description: node.response,
+  instanceCount: 1,
+  timestamps: node.timestamp ? [node.timestamp] : [],
+});
+
+/**
+ * Groups an observation's valid timestamps by the source video they cite.
+ * One with no timestamps still counts as seen in the report's first video.
+ */
+function evidenceOf(obs: Observation): Map<string, Timestamp[]> {
+  const byVideo = new Map<string, Timestamp[]>();
+  const valid = obs.timestamps.filter(ts => !ts.invalid);
+  if (valid.length === 0) {
+    byVideo.set(obs.videoKeys[0], []);
+    return byVideo;
+  }
+  for (const ts of valid) {
+    const key = obs.videoKeys[(ts.videoId ?? 1) - 1] ?? obs.videoKeys[0];
+    byVideo.set(key, [...(byVideo.get(key) ?? []), { ...ts, videoId: undefined }]);
+  }
+  return byVideo;
+}
+
+// ============================================================================
+// DOSSIER
+// ============================================================================
+
+/**
+ * Merges several scouting reports on one opponent into a single dossier.
+ * Strengths, weaknesses and decision-tree triggers with similar titles are
+ * clustered; their instance counts are summed and their timestamps kept per
+ * source video. Patterns are ranked by the share of fights they show up in,
+ * then by how many reports saw them, how often and how severe they are.
+ */
+export function buildOpponentDossier(sources: DossierSource[]): OpponentDossier {
+  const observations: Observation[] = sources.flatMap(({ report, videoIds }) => {
+    // Cited video numbers run past the stored tapes when some weren't saved
+    const cited = Math.max(1, videoIds.length, ...report.timestamps.map(ts => ts.videoId ?? 1));
+    const videoKeys = Array.from({ length: cited }, (_, i) => videoIds[i] ?? `${report.id}:V${i + 1}`);
+    return [
+      ...report.strengths.map(f => fromFinding('strength', f)),
+      ...report.weaknesses.map(f => fromFinding('weakness', f)),
+      ...report.decisionTree.map(fromDecision),
+    ].map(obs => ({ ...obs, reportId: report.id, videoKeys }));
+  });
+
+  const clusters: { words: Set<string>; members: Observation[] }[] = [];
+  for (const obs of observations) {
+    const words = titleWords(obs.title);
+    const cluster = clusters.find(c => c.members[0].kind === obs.kind && titleSimilarity(c.words, words) >= SIMILARITY_THRESHOLD);
+    if (cluster) cluster.members.push(obs);
+    else clusters.push({ words, members: [obs] });
+  }
+
+  const allFights = new Set(
+    sources.flatMap(({ report, videoIds }) => (videoIds.length > 0 ? videoIds : [`${report.id}:V1`]))
+  );
+  observations.forEach(obs => evidenceOf(obs).forEach((_, key) => allFights.add(key)));
+
+  const patterns = clusters.map(({ members }, i): DossierPattern => {
+    const evidence = new Map<string, DossierEvidence>();
+    for (const obs of members) {
+      evidenceOf(obs).forEach((timestamps, videoKey) => {
+        const existing = evidence.get(videoKey);
+        evidence.set(videoKey, existing
+          ? {
+              videoKey,
+              reportIds: [...new Set([...existing.reportIds, obs.reportId])],
+              timestamps: mergeTimestamps(existing.timestamps, timestamps),
+            }
+          : { videoKey, reportIds: [obs.reportId], timestamps: mergeTimestamps([], timestamps) });
+      });
+    }
+
+    // Name the pattern after the member seen in the most fights, then the most often
+    const lead = [...members].sort((a, b) =>
+      evidenceOf(b).size - evidenceOf(a).size || b.timestamps.length - a.timestamps.length
+    )[0];
+    const fightCount = evidence.size;
+    const instances = members.reduce((sum, m) => sum + m.instanceCount, 0);
+    const distinct = [...evidence.values()].reduce((sum, e) => sum + e.timestamps.length, 0);
+
+    return {
+      id: `pattern-${i + 1}`,
+      kind: lead.kind,
+      title: lead.title,
+      description: lead.description,
+      variants: [...new Set(members.map(m => m.title))].filter(t => t !== lead.title),
+      severity: members.reduce<Finding['severity'] | undefined>((s, m) => higher(SEVERITY_RANK, s, m.severity), undefined),
+      category: lead.category ?? members.find(m => m.category)?.category,
+      confidence: members.reduce<Finding['confidence'] | undefined>((c, m) => higher(CONFIDENCE_RANK, c, m.confidence), undefined),
+      instanceCount: Math.max(instances, distinct),
+      fightCount,
+      consistency: allFights.size > 0 ? fightCount / allFights.size : 0,
+      reportIds: [...new Set(members.map(m => m.reportId))],
+      evidence: [...evidence.values()],
+    };
+  });
+
+  patterns.sort((a, b) =>
+    b.consistency - a.consistency ||
+    b.reportIds.length - a.reportIds.length ||
+    b.instanceCount - a.instanceCount ||
+    SEVERITY_RANK.indexOf(b.severity ?? 'low') - SEVERITY_RANK.indexOf(a.severity ?? 'low')
+  );
+
+  return {
+    fighterName: sources.find(s => s.report.fighterName)?.report.fighterName,
+    generatedAt: new Date(),
+    reportIds: sources.map(s => s.report.id),
+    fightCount: allFights.size,
+    patterns,
+  };
+}
@@ -0,0 +1,117 @@
+import { Timestamp, formatTimestampText } from '../components/video/TimestampMarker';
+import { Finding, ProgressBaseline, SelfScoutReport } from './report-parser';
+import { TIMESTAMP_REF_PATTERN } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One issue from the baseline reports, as referenced in the progress prompt.
+ * An issue found in several baselines is merged into one, keeping each tape's evidence.
+ */
+export interface BaselineIssue {
+  ref: string; // "B1", "B2", ... as the model sees it
+  title: string;
+  description: string;
+  severity: Finding['severity'];
+  category: Finding['category'];
+  evidence: { reportId: string; timestamps: Timestamp[] }[];
+}
+
+// ============================================================================
+// BASELINE
+// ============================================================================
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Drops the bold "**Title:**" lead-in and inline timestamps; the prompt lists timestamps separately
+const stripMarkup = (text: string) =>
+  text
+    .replace(/^\s*\*\*[^*]+\*\*:?\s*/, '')
+    .replace(/\*\*/g, '')
+    .replace(new RegExp(String.raw`(?:[,\s]*${TIMESTAMP_REF_PATTERN})+`, 'g'), '')
+    .trim();
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString();
+
+// Oldest first, so "earlier" and "later" read naturally in the prompt
+const byDate = (reports: SelfScoutReport[]) =>
+  [...reports].sort((a, b) => new Date(a.generatedAt).getTime() - new Date(b.generatedAt).getTime());
+
+export function describeBaselines(reports: SelfScoutReport[]): ProgressBaseline[] {
+  return byDate(reports).map(r => ({
+    reportId: r.id,
+    generatedAt: new Date(r.generatedAt),
+    analysisType: r.analysisType,
+  }));
+}
+
+/**
+ * Collects the weaknesses from the baseline reports, numbered in the order
+ * they are shown to the model.
+ */
+export function collectBaselineIssues(reports: SelfScoutReport[]): BaselineIssue[] {
+  const issues: BaselineIssue[] = [];
+  const byTitle = new Map<string, BaselineIssue>();
+
+  for (const report of byDate(reports)) {
+    for (const finding of report.findings) {
+      const key = normalizeTitle(finding.title);
+      const existing = byTitle.get(key);
+      if (existing) {
+        existing.evidence.push({ reportId: report.id, timestamps: finding.timestamps });
+        continue;
+      }
+
+      const issue: BaselineIssue = {
+        ref: `B${issues.length + 1}`,
+        title: finding.title.replace(/:$/, ''),
+        description: stripMarkup(finding.description),
+        severity: finding.severity,
+        category: finding.category,
+        evidence: [{ reportId: report.id, timestamps: finding.timestamps }],
+      };
+      issues.push(issue);
+      byTitle.set(key, issue);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Renders the baseline issues and the priority improvements the athlete was
+ * given into the {{baseline}} block of the SELF_SCOUT_PROGRESS prompt.
+ */
+export function formatBaselinePrompt(reports: SelfScoutReport[]): string {
+  const ordered = byDate(reports);
+  const label = (reportId: string) => `baseline ${ordered.findIndex(r => r.id === reportId) + 1}`;
+
+  const lines: string[] = ['BASELINE REPORTS (oldest first):'];
+  ordered.forEach((r, i) => lines.push(`${i + 1}. ${r.analysisType} self-scout from ${formatDate(r.generatedAt)}`));
+
+  lines.push('', 'BASELINE ISSUES (timestamps refer to the baseline tapes, not this one):');
+  for (const issue of collectBaselineIssues(ordered)) {
+    const seen = issue.evidence
+      .map(e => `${label(e.reportId)} ${e.timestamps.map(t => `[${formatTimestampText(t)}]`).join(' ') || '(no timestamps)'}`)
+      .join('; ');
+    lines.push(`${issue.ref}. ${issue.title} (${issue.severity}, ${issue.category}): ${issue.description} Seen in ${seen}.`);
+  }
+
+  const improvements = ordered.flatMap(r => r.priorityImprovements);
+  if (improvements.length > 0) {
+    lines.push('', 'PRIORITY IMPROVEMENTS THE ATHLETE WAS GIVEN:');
+    for (const imp of improvements) {
+      // The markdown parser can leave the fix and drill inside the issue text
+      const issue = stripMarkup(imp.issue);
+      const extras = [
+        imp.fix && !issue.includes(imp.fix) ? `Fix: ${imp.fix}` : '',
+        imp.drillRecommendation && !issue.includes(imp.drillRecommendation) ? `Drill: ${imp.drillRecommendation}` : '',
+      ].filter(Boolean);
+      lines.push(`- ${imp.area}: ${[issue, ...extras].join(' ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
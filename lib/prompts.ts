@@ -32,6 +32,23 @@ const EVIDENCE_REQUIREMENTS = `
 4. COUNTER-EVIDENCE: Note instances where the fighter deviates from their patterns.
 `;
 
+// Game plans cite two tapes, so every timestamp says which one (see FOOTAGE_REF_PATTERN)
+const GAME_PLAN_TIMESTAMPS = `
+🔶 TIMESTAMPS (TWO TAPES)
+Label every timestamp with the footage it comes from: [User 0:45] for the user's footage, [Opponent 1:12] for the opponent's.
+- Ranges and lists work the same way: [Opponent 1:12-1:20], [User 0:14, 1:22].
+- Never cite a bare [M:SS]; it cannot be linked to either video.
+`;
+
+// Several opponent fights are labeled V1, V2... so each timestamp names its tape (see VIDEO_REF_PATTERN)
+const MULTI_VIDEO_TIMESTAMPS = `
+🔶 TIMESTAMPS (SEVERAL VIDEOS)
+Several videos are attached, labeled [OPPONENT VIDEO 1] (V1), [OPPONENT VIDEO 2] (V2) and so on.
+Start every timestamp with the video it comes from: [V1 0:45], [V2 03:14], [V2 1:12-1:20].
+- Times count from the start of that video.
+- Never cite a bare [M:SS]; it cannot be linked to a video.
+`;
+
 const MARKDOWN_FORMAT = `
 🔶 FORMATTING RULES (STRICT)
 1. SECTION HEADERS: Use standard Markdown H2 headers (## TITLE). Do not use bolded text for section headers.
@@ -40,6 +57,16 @@ const MARKDOWN_FORMAT = `
 4. NO PREAMBLE: Do not include "Here is the report" or introductions. Start directly with the first section header.
 `;
 
+// Appended when a report is requested as JSON (see lib/report-schema.ts)
+const STRUCTURED_OUTPUT_RULES = `
+🔶 STRUCTURED OUTPUT (JSON MODE)
+Respond with a single JSON object that matches the response schema. Do not wrap it in code fences.
+1. "sections": The full written report, one entry per required section above, in the same order. "title" is the header text without the ##; "content" is the section body in Markdown with [M:SS] timestamps inline.
+2. The typed fields (findings, strengths, improvements, issue changes, decision tree, techniques) restate the observations from the sections. Do not introduce new ones.
+3. Every "timestamps" field is an array of "M:SS" strings from the footage ("H:MM:SS" past the first hour, "M:SS.s" for sub-second moments, "M:SS-M:SS" for an exchange).
+4. "severity" is how exploitable the issue is. "confidence" follows the evidence rules: 3+ instances is high, obscured or single instances are low or inconclusive.
+`;
+
 // Specific formatting rules for self-scout reports to ensure parser compatibility
 const SELF_SCOUT_FORMAT_RULES = `
 🔶 CRITICAL FORMATTING RULES (MUST FOLLOW EXACTLY):
@@ -76,7 +103,7 @@ const SELF_SCOUT_FORMAT_RULES = `
    ## IF I WERE YOUR OPPONENT
    [Write a first-person paragraph from the perspective of an opponent preparing to fight this person]
 
-7. TIMESTAMP FORMAT: Always use [M:SS] format with brackets. Examples: [0:07], [1:30], [2:15].
+7. TIMESTAMP FORMAT: Always use [M:SS] format with brackets. Examples: [0:07], [1:30], [2:15]. Past the first hour use [H:MM:SS], e.g. [1:02:15]. When a moment needs sub-second precision (slow-motion footage), add tenths: [1:30.4]. For an exchange or scramble that spans several seconds, cite the range: [1:30-1:42].
 `;
 
 export const PROMPTS: Record<string, PromptTemplate> = {
@@ -247,6 +274,7 @@ Your task is to create a winning GAME PLAN.
    - R1: Download/Establish.
    - R2: Adjust/Damage.
    - R3: Close/Finish.
+   - Start each round on its own line: "- R1:", "- R2:", and so on.
 
 ## SITUATIONAL PLAYBOOK
    - If winning: How to consolidate.
@@ -257,6 +285,7 @@ Your task is to create a winning GAME PLAN.
    - 3 specific drills to run during training camp.
 
 ${EVIDENCE_REQUIREMENTS}
+${GAME_PLAN_TIMESTAMPS}
 ${MARKDOWN_FORMAT}`,
     userPromptTemplate: `Create a game plan. 
 My footage is labeled "User". 
@@ -298,6 +327,7 @@ The goal for the first 5 minutes.
 The single most important thing to warm up.
 
 ${EVIDENCE_REQUIREMENTS}
+${GAME_PLAN_TIMESTAMPS}
 ${MARKDOWN_FORMAT}`,
     userPromptTemplate: `Quick strategy guide. 
 My footage: "User".
@@ -414,10 +444,12 @@ Context: {{context}}`,
     id: 'SELF_SCOUT_PROGRESS',
     name: 'Progress Report',
     description: 'Analysis of evolution over multiple sessions.',
-    requiredInputs: ['userVideo'], // Implies multiple videos passed as one input array or concatenated
+    requiredInputs: ['userVideo'], // Latest session; earlier sessions arrive as {{baseline}} reports
     systemPrompt: `${BASE_IDENTITY}
 
-Your task is to analyze PROGRESS over time. You are looking at footage from multiple sessions.
+Your task is to analyze PROGRESS over time. You are given the issues found in earlier self-scout reports (the BASELINE, each issue numbered B1, B2, ...) and footage of the latest session.
+
+For every baseline issue, decide from the new footage whether it is RESOLVED (no longer happens) or PERSISTENT (still happens), and cite timestamps from the new footage. Baseline timestamps refer to the earlier tapes; never cite them as evidence from this one. If the new footage gives no chance to judge an issue (e.g. no grappling exchanges), leave it out rather than guessing. Then list NEW issues that do not appear in the baseline.
 
 🔶 SECTIONS (USE EXACT HEADERS)
 ## PERSISTENT HABITS
@@ -440,8 +472,11 @@ Are they ready for competition?
 
 ${EVIDENCE_REQUIREMENTS}
 ${MARKDOWN_FORMAT}`,
-    userPromptTemplate: `Analyze my progress over these sessions.
-Context: {{context}}`,
+    userPromptTemplate: `Analyze my progress since the baseline reports below.
+Context: {{context}}
+Specific concerns: {{specificQuestions}}
+
+{{baseline}}`,
     outputSchema: [
       { id: 'improvements', title: 'Improvements', description: 'Positive changes', required: true },
       { id: 'persistent', title: 'Persistent Issues', description: 'Stuck habits', required: true }
@@ -476,6 +511,54 @@ If no evidence is found for a claim, return an empty instances array for it.`,
     outputSchema: [
       { id: 'evidence', title: 'Evidence', description: 'JSON evidence list', required: true }
     ]
+  },
+
+  PROFILE_EXTRACTION: {
+    id: 'PROFILE_EXTRACTION',
+    name: 'Tale of the Tape Reader',
+    description: 'Reads fighter attributes from stat sheet and tale-of-the-tape images.',
+    requiredInputs: ['taleOfTape'],
+    systemPrompt: `${BASE_IDENTITY}
+
+Your task is pure data extraction. You will be given images of stat sheets, tale-of-the-tape graphics or fighter profile cards.
+Read the fighter's attributes exactly as printed: name, height, reach, stance, record and age.
+
+🔶 RULES
+1. Copy values as shown, with their units ("6'4\"", "193 cm", "84 in"). Do not convert or round.
+2. If the images show two fighters, read only the one named in the request. If no one is named, read the fighter the images focus on.
+3. Leave out any attribute that is not printed in the images. Never estimate it from appearance.`,
+    userPromptTemplate: `Fighter: {{fighterName}}
+
+Read this fighter's tale of the tape from the attached images.`,
+    outputSchema: [
+      { id: 'profile', title: 'Profile', description: 'JSON fighter attributes', required: true }
+    ]
+  },
+
+  CORNER_INSTRUCTION: {
+    id: 'CORNER_INSTRUCTION',
+    name: 'Between-Rounds Instruction',
+    description: 'Three-bullet instruction for the rest period, from the corner\'s notes and the scouting report.',
+    requiredInputs: [],
+    systemPrompt: `${BASE_IDENTITY}
+
+Your task is the instruction the corner gives during the rest between rounds. There is no footage: work from the cornerman's notes on the fight so far and the scouting report.
+
+🔶 RULES
+1. Exactly 3 bullets, most important first.
+2. Each bullet is one short imperative sentence (under 15 words) that a tired fighter can act on.
+3. Start from the notes on the round that just ended. Use the scouting report and game plan to say how to respond to them.
+4. No timestamps, no analysis, no hedging.`,
+    userPromptTemplate: `Round {{round}} of {{rounds}} just ended.
+
+Corner notes:
+{{notes}}
+
+Scouting report:
+{{scouting}}`,
+    outputSchema: [
+      { id: 'instruction', title: 'Instruction', description: 'JSON list of 3 bullets', required: true }
+    ]
   }
 };
 
@@ -537,4 +620,18 @@ export function validateInputs(
  */
 export function withEvidenceRequirements(prompt: string): string {
   return `${prompt}\n\n${EVIDENCE_REQUIREMENTS}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Appends the rule for citing timestamps as [V2 03:14] when several videos are attached.
+ */
+export function withVideoLabels(prompt: string): string {
+  return `${prompt}\n\n${MULTI_VIDEO_TIMESTAMPS}`;
+}
+
+/**
+ * Appends the JSON-mode rules to a system prompt.
+ */
+export function withStructuredOutput(prompt: string): string {
+  return `${prompt}\n\n${STRUCTURED_OUTPUT_RULES}`;
+}
@@ -0,0 +1,121 @@
+import { Timestamp } from '../components/video/TimestampMarker';
+import { ExportImage, ExportableReport, buildExportDocument } from './export-document';
+import { renderMarkdown } from './export-markdown';
+import { renderPdf } from './export-pdf';
+import { renderDocx } from './export-docx';
+import { generateThumbnail } from './video-processing';
+import { throwIfAborted } from './abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExportFormat = 'pdf' | 'markdown' | 'json' | 'docx';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: 'pdf', label: 'PDF', extension: 'pdf' },
+  { format: 'docx', label: 'Word (DOCX)', extension: 'docx' },
+  { format: 'markdown', label: 'Markdown', extension: 'md' },
+  { format: 'json', label: 'JSON bundle', extension: 'json' },
+];
+
+// Bump when the bundle's shape changes, so importers can tell versions apart
+export const EXPORT_BUNDLE_VERSION = 1;
+
+/**
+ * The JSON export: the report as stored, plus what the footage was.
+ */
+export interface ExportBundle {
+  format: 'corner-ai-report';
+  version: number;
+  exportedAt: string; // ISO 8601
+  kind: ExportableReport['kind'];
+  report: ExportableReport['report'];
+  videos: { name: string; type: string; size: number }[]; // Not the footage itself
+}
+
+export interface ExportOptions {
+  videos?: File[]; // The report's footage, V1 first; needed for PDF stills
+  maxThumbnails?: number; // Stills in the PDF, one per finding; defaults to 12
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// THUMBNAILS
+// ============================================================================
+
+const THUMBNAIL_WIDTH = 640;
+const THUMBNAIL_TIMEOUT_MS = 10_000;
+
+/**
+ * A still at the timestamp, from the video it cites. Null if it can't be
+ * captured in time; a missing still shouldn't stop the export.
+ */
+async function captureStill(videos: File[], timestamp: Timestamp): Promise<ExportImage | null> {
+  const video = videos[(timestamp.videoId ?? 1) - 1] ?? videos[0];
+  if (!video) return null;
+
+  try {
+    const dataUrl = await Promise.race([
+      generateThumbnail(video, timestamp.seconds, THUMBNAIL_WIDTH),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Timed out')), THUMBNAIL_TIMEOUT_MS)),
+    ]);
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+
+    const jpeg = new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+    return { jpeg, width: image.naturalWidth, height: image.naturalHeight };
+  } catch (err) {
+    console.warn(`Could not capture a still at ${timestamp.time}`, err);
+    return null;
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+
+export function buildExportBundle(input: ExportableReport, videos: File[] = []): ExportBundle {
+  return {
+    format: 'corner-ai-report',
+    version: EXPORT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    kind: input.kind,
+    report: input.report,
+    videos: videos.map(v => ({ name: v.name, type: v.type, size: v.size })),
+  };
+}
+
+/**
+ * Renders a report in the given format, as a file named after the report.
+ */
+export async function exportReport(input: ExportableReport, format: ExportFormat, options: ExportOptions = {}): Promise<File> {
+  const { videos = [], maxThumbnails = 12, signal } = options;
+  const { extension } = EXPORT_FORMATS.find(f => f.format === format)!;
+
+  let stills = 0;
+  const doc = await buildExportDocument(input, {
+    thumbnail: format === 'pdf' && videos.length > 0
+      ? async (timestamp) => {
+          throwIfAborted(signal);
+          if (stills >= maxThumbnails) return null;
+          stills++;
+          return captureStill(videos, timestamp);
+        }
+      : undefined,
+  });
+  throwIfAborted(signal);
+
+  const blob =
+    format === 'pdf' ? renderPdf(doc)
+    : format === 'docx' ? renderDocx(doc)
+    : format === 'markdown' ? new Blob([renderMarkdown(doc)], { type: 'text/markdown' })
+    : new Blob([JSON.stringify(buildExportBundle(input, videos), null, 2)], { type: 'application/json' });
+
+  const date = doc.generatedAt.toISOString().slice(0, 10);
+  return new File([blob], `${slugify(doc.title)}-${date}.${extension}`, { type: blob.type });
+}
@@ -0,0 +1,537 @@
+import { FightAnalysis } from '../types';
+import { GamePlanReport, OpponentReport, SelfScoutReport } from './report-parser';
+import { hashMedia } from './media-prep';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LibraryReportKind = 'self-scout' | 'opponent' | 'game-plan' | 'scoring';
+
+export type LibraryReport = SelfScoutReport | OpponentReport | GamePlanReport | FightAnalysis;
+
+/**
+ * A report paired with its kind, so switching on `kind` narrows `report`.
+ */
+export type KindedReport =
+  | { kind: 'self-scout'; report: SelfScoutReport }
+  | { kind: 'opponent'; report: OpponentReport }
+  | { kind: 'game-plan'; report: GamePlanReport }
+  | { kind: 'scoring'; report: FightAnalysis };
+
+export type ReportOfKind<K extends LibraryReportKind> = Extract<KindedReport, { kind: K }>['report'];
+
+export interface LibraryEntry {
+  id: string;
+  kind: LibraryReportKind;
+  title: string;
+  fighterName?: string;
+  reportType: string; // Template id, e.g. SELF_SCOUT_FULL
+  createdAt: number;
+  updatedAt: number;
+  videoIds: string[]; // Keys into the videos store, in input order (game plans: user, then opponent)
+  fighterIds: string[]; // Fighters the report is about (scoring: both corners)
+  report: LibraryReport;
+}
+
+/**
+ * A fighter that reports link to, so every scout on the same person can be
+ * found together. Reports are matched by name or alias when saved.
+ */
+export interface Fighter {
+  id: string;
+  name: string;
+  aliases: string[]; // Other spellings and nicknames
+  division?: string;
+  stance?: string;
+  record?: string;
+  photo?: Blob;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type FighterInput = Partial<Omit<Fighter, 'createdAt' | 'updatedAt'>> & { name: string };
+
+export interface StoredVideo {
+  id: string; // Content hash, so the same tape is stored once across reports
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  blob: Blob;
+}
+
+export interface LibraryQuery {
+  text?: string; // Matches title and fighter name
+  kind?: LibraryReportKind | 'all';
+  from?: Date;
+  to?: Date;
+}
+
+export interface NewLibraryEntry {
+  kind: LibraryReportKind;
+  title: string;
+  fighterName?: string;
+  reportType: string;
+  report: LibraryReport;
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const DB_NAME = 'fight_analyzer_library';
+const DB_VERSION = 2;
+const REPORTS_STORE = 'reports';
+const VIDEOS_STORE = 'videos';
+const FIGHTERS_STORE = 'fighters';
+
+// The single-slot localStorage keys this library replaces
+const LEGACY_STORAGE_KEYS: Partial<Record<LibraryReportKind, string>> = {
+  'self-scout': 'fight_analyzer_self_scout_report',
+  opponent: 'fight_analyzer_opponent_report',
+  scoring: 'fight_analyzer_scoring_report',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Copies the reports saved in the old localStorage slots into the library.
+ * Runs once, inside the upgrade that creates the database.
+ */
+function migrateLegacyReports(reports: IDBObjectStore): void {
+  for (const [kind, key] of Object.entries(LEGACY_STORAGE_KEYS) as [LibraryReportKind, string][]) {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) continue;
+
+      const report = JSON.parse(stored);
+      if (report.generatedAt) report.generatedAt = new Date(report.generatedAt);
+      const createdAt = report.generatedAt ? report.generatedAt.getTime() : Date.now();
+
+      reports.put({
+        id: report.id || crypto.randomUUID(),
+        kind,
+        ...describeReport(kind, report),
+        createdAt,
+        updatedAt: createdAt,
+        videoIds: [],
+        fighterIds: [],
+        report,
+      } satisfies LibraryEntry);
+      localStorage.removeItem(key);
+    } catch (e) {
+      console.error(`Failed to migrate ${key} into the report library`, e);
+    }
+  }
+}
+
+/**
+ * Creates fighters for the names in the reports saved before fighters
+ * existed, and links the reports to them. Runs once, inside the upgrade.
+ */
+function linkExistingReports(tx: IDBTransaction): void {
+  const reports = tx.objectStore(REPORTS_STORE);
+  const fighters: Fighter[] = [];
+
+  reports.getAll().onsuccess = (event) => {
+    const entries = (event.target as IDBRequest<LibraryEntry[]>).result;
+    for (const entry of entries) {
+      const linked = linkReport(entry.kind, entry.report, name => resolveFighter(fighters, name)?.id);
+      reports.put({ ...entry, ...linked });
+    }
+    fighters.forEach(fighter => tx.objectStore(FIGHTERS_STORE).put(fighter));
+  };
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (event.oldVersion < 1) {
+          const reports = db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+          reports.createIndex('createdAt', 'createdAt');
+          reports.createIndex('kind', 'kind');
+          db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' });
+          migrateLegacyReports(reports);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(FIGHTERS_STORE, { keyPath: 'id' });
+          tx.objectStore(REPORTS_STORE).createIndex('fighterIds', 'fighterIds', { multiEntry: true });
+          linkExistingReports(tx);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// ============================================================================
+// TITLES
+// ============================================================================
+
+/**
+ * Pairs a report with the kind it is stored under. TypeScript can't narrow a
+ * separate `kind` argument, so this is the one place the pairing is asserted.
+ */
+const toKinded = <K extends LibraryReportKind>(kind: K, report: ReportOfKind<K>) => ({ kind, report }) as KindedReport;
+
+/**
+ * Default title, fighter and report type for a report of the given kind.
+ */
+export function describeReport<K extends LibraryReportKind>(
+  kind: K,
+  reportOfKind: ReportOfKind<K>
+): Pick<LibraryEntry, 'title' | 'fighterName' | 'reportType'> {
+  const { kind: narrowed, report } = toKinded(kind, reportOfKind);
+  switch (narrowed) {
+    case 'scoring':
+      return {
+        title: `${report.fighter_a_name || 'Fighter A'} vs ${report.fighter_b_name || 'Fighter B'}`,
+        reportType: 'FIGHT_SCORING',
+      };
+    case 'opponent':
+      return {
+        title: `${report.fighterName || 'Unknown Fighter'} scouting report`,
+        fighterName: report.fighterName || undefined,
+        reportType: report.reportType === 'quick' ? 'OPPONENT_BREAKDOWN_QUICK' : 'OPPONENT_BREAKDOWN_FULL',
+      };
+    case 'game-plan':
+      return {
+        title: `Game plan vs ${report.opponentName || 'Unknown Opponent'}`,
+        fighterName: report.opponentName || undefined,
+        reportType: report.reportType === 'quick' ? 'GAME_PLAN_QUICK' : 'GAME_PLAN_FULL',
+      };
+    case 'self-scout': {
+      const type = report.analysisType || 'full';
+      return {
+        title: `Self-scout (${type})`,
+        reportType: `SELF_SCOUT_${type.toUpperCase()}`,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// FIGHTER LINKS
+// ============================================================================
+
+// Placeholder names the model and forms use when the fighter isn't known
+const UNNAMED = /^(unknown( fighter)?|fighter [ab]|n\/?a)$/i;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Finds the fighter with this name or alias, or adds a new one to `fighters`.
+ * Returns undefined for a missing or placeholder name.
+ */
+function resolveFighter(fighters: Fighter[], name?: string): Fighter | undefined {
+  const trimmed = name?.trim();
+  if (!trimmed || UNNAMED.test(trimmed)) return undefined;
+
+  const key = normalizeName(trimmed);
+  const existing = fighters.find(f => [f.name, ...f.aliases].some(n => normalizeName(n) === key));
+  if (existing) return existing;
+
+  const now = Date.now();
+  const fighter: Fighter = { id: crypto.randomUUID(), name: trimmed, aliases: [], createdAt: now, updatedAt: now };
+  fighters.push(fighter);
+  return fighter;
+}
+
+/**
+ * Sets the fighter ids on a report: ones it already carries are kept, the
+ * rest are looked up from its fighter names. Self-scout reports carry no
+ * name, so only an id picked on the form links them.
+ */
+function linkReport<K extends LibraryReportKind>(
+  kind: K,
+  reportOfKind: ReportOfKind<K>,
+  idFor: (name?: string) => string | undefined
+): Pick<LibraryEntry, 'report' | 'fighterIds'> {
+  const { kind: narrowed, report } = toKinded(kind, reportOfKind);
+  switch (narrowed) {
+    case 'opponent': {
+      const fighterId = report.fighterId ?? idFor(report.fighterName);
+      return { report: { ...report, fighterId }, fighterIds: fighterId ? [fighterId] : [] };
+    }
+    case 'scoring': {
+      const a = report.fighter_a_id ?? idFor(report.fighter_a_name);
+      const b = report.fighter_b_id ?? idFor(report.fighter_b_name);
+      return { report: { ...report, fighter_a_id: a, fighter_b_id: b }, fighterIds: [a, b].filter((id): id is string => !!id) };
+    }
+    case 'self-scout':
+      return { report, fighterIds: report.fighterId ? [report.fighterId] : [] };
+    case 'game-plan':
+      return { report, fighterIds: [] };
+  }
+}
+
+/**
+ * The report with every link to this fighter cleared.
+ */
+function unlinkReport<K extends LibraryReportKind>(kind: K, reportOfKind: ReportOfKind<K>, fighterId: string): LibraryReport {
+  const { kind: narrowed, report } = toKinded(kind, reportOfKind);
+  switch (narrowed) {
+    case 'opponent':
+    case 'self-scout':
+      return report.fighterId === fighterId ? { ...report, fighterId: undefined } : report;
+    case 'scoring':
+      return {
+        ...report,
+        fighter_a_id: report.fighter_a_id === fighterId ? undefined : report.fighter_a_id,
+        fighter_b_id: report.fighter_b_id === fighterId ? undefined : report.fighter_b_id,
+      };
+    case 'game-plan':
+      return report;
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Saves a report and its source videos. Videos are stored once per content
+ * hash; if the browser refuses the space, the report is still saved without them.
+ */
+export async function saveReport(input: NewLibraryEntry, videos: File[] = []): Promise<LibraryEntry> {
+  const db = await openDb();
+
+  let videoIds: string[] = [];
+  try {
+    const stored = await Promise.all(videos.map(async (file): Promise<StoredVideo> => ({
+      id: await hashMedia(file),
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      blob: file,
+    })));
+
+    const tx = db.transaction(VIDEOS_STORE, 'readwrite');
+    stored.forEach(video => tx.objectStore(VIDEOS_STORE).put(video));
+    await transactionDone(tx);
+    videoIds = stored.map(v => v.id);
+  } catch (e) {
+    console.warn('Could not store source videos in the report library', e);
+  }
+
+  const tx = db.transaction([REPORTS_STORE, FIGHTERS_STORE], 'readwrite');
+  const fighterStore = tx.objectStore(FIGHTERS_STORE);
+  const fighters: Fighter[] = await promisify(fighterStore.getAll());
+  const known = new Set(fighters.map(f => f.id));
+
+  // Link the report to its fighters, adding any not seen before
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: 'id' in input.report && typeof input.report.id === 'string' ? input.report.id : crypto.randomUUID(),
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+    videoIds,
+    ...linkReport(input.kind, input.report, name => resolveFighter(fighters, name)?.id),
+  };
+  fighters.filter(f => !known.has(f.id)).forEach(f => fighterStore.put(f));
+
+  // Fill in a fighter's stance and record from the tale of the tape, never overwriting
+  const profile = input.kind === 'opponent' ? (input.report as OpponentReport).profile : undefined;
+  const scouted = fighters.find(f => f.id === entry.fighterIds[0]);
+  if (profile && scouted && ((!scouted.stance && profile.stance) || (!scouted.record && profile.record))) {
+    fighterStore.put({
+      ...scouted,
+      stance: scouted.stance || profile.stance,
+      record: scouted.record || profile.record,
+      updatedAt: now,
+    });
+  }
+
+  tx.objectStore(REPORTS_STORE).put(entry);
+  await transactionDone(tx);
+
+  // Ask the browser not to evict stored tape under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  return entry;
+}
+
+/**
+ * Lists saved reports, newest first, filtered by the query.
+ */
+export async function listReports(query: LibraryQuery = {}): Promise<LibraryEntry[]> {
+  const db = await openDb();
+  const entries: LibraryEntry[] = await promisify(
+    db.transaction(REPORTS_STORE).objectStore(REPORTS_STORE).index('createdAt').getAll()
+  );
+
+  const text = query.text?.trim().toLowerCase();
+  const from = query.from?.getTime();
+  // `to` is inclusive of the whole day
+  const to = query.to ? query.to.getTime() + 24 * 60 * 60 * 1000 : undefined;
+
+  return entries
+    .filter(e =>
+      (!query.kind || query.kind === 'all' || e.kind === query.kind) &&
+      (from === undefined || e.createdAt >= from) &&
+      (to === undefined || e.createdAt < to) &&
+      (!text || e.title.toLowerCase().includes(text) || (e.fighterName || '').toLowerCase().includes(text))
+    )
+    .reverse();
+}
+
+export async function getReport(id: string): Promise<LibraryEntry | undefined> {
+  const db = await openDb();
+  return promisify(db.transaction(REPORTS_STORE).objectStore(REPORTS_STORE).get(id));
+}
+
+/**
+ * Returns an entry's source videos as Files, skipping any that are missing.
+ */
+export async function loadVideos(entry: LibraryEntry): Promise<File[]> {
+  const db = await openDb();
+  const store = db.transaction(VIDEOS_STORE).objectStore(VIDEOS_STORE);
+  const videos = await Promise.all(entry.videoIds.map(id => promisify<StoredVideo | undefined>(store.get(id))));
+
+  return videos
+    .filter((v): v is StoredVideo => !!v)
+    .map(v => new File([v.blob], v.name, { type: v.type, lastModified: v.lastModified }));
+}
+
+export async function renameReport(id: string, title: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(REPORTS_STORE, 'readwrite');
+  const store = tx.objectStore(REPORTS_STORE);
+  const entry: LibraryEntry | undefined = await promisify(store.get(id));
+  if (entry) {
+    store.put({ ...entry, title: title.trim() || entry.title, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Deletes a report, and any of its videos no other report still uses.
+ */
+export async function deleteReport(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([REPORTS_STORE, VIDEOS_STORE], 'readwrite');
+  const reports = tx.objectStore(REPORTS_STORE);
+  const entry: LibraryEntry | undefined = await promisify(reports.get(id));
+
+  if (entry) {
+    reports.delete(id);
+    const remaining: LibraryEntry[] = await promisify(reports.getAll());
+    const stillUsed = new Set(remaining.flatMap(e => e.videoIds));
+    entry.videoIds
+      .filter(videoId => !stillUsed.has(videoId))
+      .forEach(videoId => tx.objectStore(VIDEOS_STORE).delete(videoId));
+  }
+
+  await transactionDone(tx);
+}
+
+// ============================================================================
+// FIGHTERS
+// ============================================================================
+
+/**
+ * Lists fighters alphabetically.
+ */
+export async function listFighters(): Promise<Fighter[]> {
+  const db = await openDb();
+  const fighters: Fighter[] = await promisify(db.transaction(FIGHTERS_STORE).objectStore(FIGHTERS_STORE).getAll());
+  return fighters.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getFighter(id: string): Promise<Fighter | undefined> {
+  const db = await openDb();
+  return promisify(db.transaction(FIGHTERS_STORE).objectStore(FIGHTERS_STORE).get(id));
+}
+
+/**
+ * Creates a fighter, or updates the one with `input.id`.
+ */
+export async function saveFighter(input: FighterInput): Promise<Fighter> {
+  const db = await openDb();
+  const tx = db.transaction(FIGHTERS_STORE, 'readwrite');
+  const store = tx.objectStore(FIGHTERS_STORE);
+  const existing: Fighter | undefined = input.id ? await promisify(store.get(input.id)) : undefined;
+
+  const now = Date.now();
+  const fighter: Fighter = {
+    ...existing,
+    ...input,
+    id: existing?.id ?? input.id ?? crypto.randomUUID(),
+    name: input.name.trim() || existing?.name || 'Unnamed fighter',
+    aliases: (input.aliases ?? existing?.aliases ?? []).map(a => a.trim()).filter(Boolean),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  store.put(fighter);
+  await transactionDone(tx);
+  return fighter;
+}
+
+/**
+ * Deletes a fighter and unlinks their reports. The reports themselves are kept.
+ */
+export async function deleteFighter(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([REPORTS_STORE, FIGHTERS_STORE], 'readwrite');
+  const reports = tx.objectStore(REPORTS_STORE);
+  const linked: LibraryEntry[] = await promisify(reports.index('fighterIds').getAll(id));
+
+  for (const entry of linked) {
+    const report = unlinkReport(entry.kind, entry.report, id);
+    reports.put({ ...entry, report, fighterIds: entry.fighterIds.filter(f => f !== id) });
+  }
+  tx.objectStore(FIGHTERS_STORE).delete(id);
+
+  await transactionDone(tx);
+}
+
+/**
+ * Every saved report linked to a fighter, newest first.
+ */
+export async function listFighterReports(fighterId: string): Promise<LibraryEntry[]> {
+  const db = await openDb();
+  const entries: LibraryEntry[] = await promisify(
+    db.transaction(REPORTS_STORE).objectStore(REPORTS_STORE).index('fighterIds').getAll(fighterId)
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Name, type and size of stored videos, without reading the footage itself.
+ */
+export async function describeVideos(ids: string[]): Promise<Omit<StoredVideo, 'blob'>[]> {
+  const db = await openDb();
+  const store = db.transaction(VIDEOS_STORE).objectStore(VIDEOS_STORE);
+  const videos = await Promise.all(ids.map(id => promisify<StoredVideo | undefined>(store.get(id))));
+
+  return videos
+    .filter((v): v is StoredVideo => !!v)
+    .map(({ blob, ...info }) => info);
+}
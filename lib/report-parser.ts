@@ -1,5 +1,5 @@
 import { Timestamp } from '../components/video/TimestampMarker';
-import { timestampToSeconds } from './video-processing';
+import { TIMESTAMP_REF_PATTERN, TIME_RANGE_PATTERN, VIDEO_REF_PATTERN, parseTimestampRange } from './video-processing';
 
 // ============================================================================
 // TYPES
@@ -23,6 +23,20 @@ export interface Finding {
   confidence: 'high' | 'medium' | 'low' | 'inconclusive';
   timestamps: Timestamp[];
   counterEvidence?: string;
+  verification?: FindingVerification; // Set by the evidence verification pass
+}
+
+/**
+ * Result of re-checking a finding against the footage (lib/evidence-verification.ts).
+ * - confirmed: every cited timestamp was found again
+ * - partial: the behaviour was found, but not at every cited timestamp
+ * - unconfirmed: the second pass found no instances at all
+ */
+export interface FindingVerification {
+  status: 'confirmed' | 'partial' | 'unconfirmed';
+  citedCount: number;
+  matchedCount: number; // Cited timestamps the second pass also found
+  instances: Timestamp[]; // Everything the second pass found
 }
 
 export interface PriorityImprovement {
@@ -46,6 +60,23 @@ export interface ReportMetadata {
   mediumCount: number;
   lowCount: number;
   validationWarnings?: string[];
+  timestampCheck?: TimestampCheck; // Set once timestamps were checked against the footage
+}
+
+/**
+ * The part of the metadata the timestamp check writes; all a game plan has.
+ */
+export type TimestampMetadata = Pick<ReportMetadata, 'validationWarnings' | 'timestampCheck'>;
+
+/**
+ * Result of checking a report's timestamps against the footage
+ * (see lib/timestamp-validation.ts).
+ */
+export interface TimestampCheck {
+  duration: number; // Seconds of footage the timestamps were checked against
+  total: number; // Distinct moments cited
+  invalid: number; // Of those, how many fall outside the footage
+  videoCount?: number; // Set when several videos were checked, each against its own length
 }
 
 export interface DecisionNode {
@@ -68,12 +99,44 @@ export interface SelfScoutReport {
   strengths: Finding[];
   priorityImprovements: PriorityImprovement[];
   opponentGamePlan?: string;
+  progress?: ProgressComparison; // Progress reports only
   sections: ReportSection[];
   timestamps: Timestamp[];
   metadata: ReportMetadata;
+  profile?: FighterProfile; // Read from tale-of-the-tape images, when any were given
+  fighterId?: string; // Library fighter the athlete was picked as
   rawContent: string;
 }
 
+/**
+ * A progress report's comparison against the earlier reports it was given.
+ */
+export interface ProgressComparison {
+  baselines: ProgressBaseline[];
+  issues: ProgressIssue[];
+  unassessed: string[]; // Baseline issues the model could not judge from the new tape
+}
+
+export interface ProgressBaseline {
+  reportId: string; // Also the report's library entry id
+  generatedAt: Date;
+  analysisType: SelfScoutReport['analysisType'];
+}
+
+/**
+ * - resolved: a baseline issue no longer shows up
+ * - persistent: a baseline issue is still there
+ * - new: not in any baseline
+ */
+export interface ProgressIssue {
+  id: string;
+  title: string;
+  status: 'resolved' | 'persistent' | 'new';
+  note: string;
+  baselineEvidence: { reportId: string; timestamps: Timestamp[] }[]; // From the earlier tapes
+  currentEvidence: Timestamp[]; // From this tape
+}
+
 export interface OpponentReport {
   id: string;
   generatedAt: Date;
@@ -85,7 +148,54 @@ export interface OpponentReport {
   mostUtilizedTechniques: Technique[];
   sections: ReportSection[];
   timestamps: Timestamp[];
+  metadata?: ReportMetadata; // Set once timestamps were checked against the footage
+  profile?: FighterProfile; // Read from tale-of-the-tape images, when any were given
+  fighterId?: string; // Library fighter, linked by name when saved
+  rawContent: string;
+}
+
+/**
+ * Tale-of-the-tape attributes read from stat sheet images, as printed
+ * (e.g. "6'4\"", "84 in", "Orthodox", "26-1-0"). Unknown ones are left out.
+ */
+export interface FighterProfile {
+  name?: string;
+  height?: string;
+  reach?: string;
+  stance?: string;
+  record?: string;
+  age?: string;
+}
+
+/**
+ * Whose tape a game plan timestamp refers to: the fighter's own or the opponent's.
+ */
+export type GamePlanFootage = 'user' | 'opponent';
+
+export type FootageTimestamps = Record<GamePlanFootage, Timestamp[]>;
+
+export interface GamePlanSection extends ReportSection {
+  footage: FootageTimestamps; // Labeled [User M:SS] / [Opponent M:SS] references
+}
+
+export interface GamePlanRound {
+  round: number;
+  content: string;
+  footage: FootageTimestamps;
+}
+
+export interface GamePlanReport {
+  id: string;
+  generatedAt: Date;
+  reportType: 'full' | 'quick';
+  fighterName?: string;
+  opponentName?: string;
+  matchup: GamePlanSection | null; // Full plans only
+  blueprint: GamePlanSection | null; // VICTORY BLUEPRINT, or HOW I WIN in a quick plan
+  rounds: GamePlanRound[];
+  sections: GamePlanSection[]; // Every section, in report order
   rawContent: string;
+  metadata?: TimestampMetadata; // Set once timestamps were checked against both tapes
 }
 
 // ============================================================================
@@ -93,22 +203,42 @@ export interface OpponentReport {
 // ============================================================================
 
 /**
- * Extracts timestamps in format [MM:SS] or (MM:SS) or ranges [MM:SS-MM:SS] from text.
+ * Reads "0:45" or "0:45-1:00" (any format parseTimestampRange accepts),
+ * optionally naming its video ("V2 0:45"), into the time fields of a Timestamp.
+ */
+export function parseTimestampText(
+  text: string
+): Pick<Timestamp, 'time' | 'seconds' | 'frame' | 'end' | 'endTime' | 'videoId'> | null {
+  const videoMatch = text.trim().match(/^V(\d+)\s*:?\s+/i);
+  const range = parseTimestampRange(videoMatch ? text.trim().slice(videoMatch[0].length) : text);
+  if (!range) return null;
+  const { start, end } = range;
+  const videoId = videoMatch ? Number(videoMatch[1]) : 0;
+  return {
+    time: start.time,
+    seconds: start.seconds,
+    ...(start.frame !== undefined && { frame: start.frame }),
+    ...(end && { end: end.seconds, endTime: end.time }),
+    ...(videoId > 0 && { videoId }),
+  };
+}
+
+/**
+ * Extracts timestamps in format [MM:SS], (H:MM:SS), [MM:SS.s], [f2505],
+ * ranges [MM:SS-MM:SS] or with their video [V2 MM:SS] from text.
  */
 export function extractTimestamps(text: string): Timestamp[] {
   if (!text) return [];
   
   // Match both [0:45], (0:45), [0:45-1:00], (0:45-1:00) formats
-  // Captures group 1 as the first time "0:45"
-  const regex = /[\[\(](\d{1,2}:\d{2})(?:-\d{1,2}:\d{2})?[\]\)]/g;
+  // Captures group 1 as the time or range "0:45-1:00", with any "V2 " before it
+  const regex = new RegExp(String.raw`[\[\(]((?:${VIDEO_REF_PATTERN})?${TIME_RANGE_PATTERN})[\]\)]`, 'g');
   const timestamps: Timestamp[] = [];
   let match;
 
   while ((match = regex.exec(text)) !== null) {
-    const timeString = match[1]; // Just the start time
-    const [mins, secs] = timeString.split(':').map(Number);
-    const timeStr = `${mins}:${secs.toString().padStart(2, '0')}`;
-    const seconds = mins * 60 + secs;
+    const parsed = parseTimestampText(match[1]);
+    if (!parsed) continue;
     
     // Find surrounding context (50 chars before and after)
     const start = Math.max(0, match.index - 50);
@@ -116,8 +246,7 @@ export function extractTimestamps(text: string): Timestamp[] {
     const context = text.substring(start, end).replace(/[\n\r]/g, ' ').trim();
 
     timestamps.push({
-      time: timeStr,
-      seconds,
+      ...parsed,
       label: context.substring(0, 40) + (context.length > 40 ? '...' : ''),
       category: categorizeTimestampContext(context),
     });
@@ -156,8 +285,8 @@ function categorizeTimestampContext(context: string): Timestamp['category'] {
  * Strip timestamp patterns from text (for cleaning titles).
  */
 function stripTimestamps(text: string): string {
-  // Remove [MM:SS], (MM:SS), [MM:SS-MM:SS], (MM:SS-MM:SS) patterns
-  return text.replace(/[\[\(]\d{1,2}:\d{2}(?:-\d{1,2}:\d{2})?[\]\)]/g, '').trim();
+  // Remove [MM:SS], (H:MM:SS), [MM:SS-MM:SS], [f2505] and similar patterns
+  return text.replace(new RegExp(TIMESTAMP_REF_PATTERN, 'g'), '').trim();
 }
 
 // ============================================================================
@@ -182,25 +311,9 @@ export function parseReportSections(markdown: string): ReportSection[] {
     }
 
     // Check if line is a Section Header
-    let isHeader = false;
-    let title = '';
+    const title = matchSectionHeader(trimmedLine);
 
-    // 1. Hashtag headers (# Title or ## Title)
-    // This is the preferred strict format now.
-    const hashMatch = trimmedLine.match(/^(#{1,3})\s+(.+)/);
-    
-    // 2. Bold Headers (**TITLE**) - Legacy support, but we try to avoid this being triggered false positives
-    const boldHeaderMatch = trimmedLine.match(/^\*\*[A-Z0-9\s&:,-]+\*\*$/);
-
-    if (hashMatch) {
-        isHeader = true;
-        title = hashMatch[2].replace(/\*\*/g, '').trim();
-    } else if (boldHeaderMatch) {
-        isHeader = true;
-        title = trimmedLine.replace(/\*\*/g, '').trim();
-    } 
-
-    if (isHeader) {
+    if (title !== null) {
       // Save previous section
       if (currentSection) {
         currentSection.content = currentSection.content.trim();
@@ -241,6 +354,26 @@ export function parseReportSections(markdown: string): ReportSection[] {
   return sections;
 }
 
+/**
+ * Returns the section title if a (trimmed) line is a section header, else null.
+ */
+function matchSectionHeader(trimmedLine: string): string | null {
+  // 1. Hashtag headers (# Title or ## Title)
+  // This is the preferred strict format now.
+  const hashMatch = trimmedLine.match(/^(#{1,3})\s+(.+)/);
+  if (hashMatch) {
+    return hashMatch[2].replace(/\*\*/g, '').trim();
+  }
+
+  // 2. Bold Headers (**TITLE**) - Legacy support, but we try to avoid this being triggered false positives
+  const boldHeaderMatch = trimmedLine.match(/^\*\*[A-Z0-9\s&:,-]+\*\*$/);
+  if (boldHeaderMatch) {
+    return trimmedLine.replace(/\*\*/g, '').trim();
+  }
+
+  return null;
+}
+
 function generateSectionId(title: string): string {
   return title
     .toLowerCase()
@@ -249,6 +382,70 @@ function generateSectionId(title: string): string {
     .substring(0, 50);
 }
 
+/**
+ * Builds a section from a title and its markdown body.
+ */
+export function buildSection(title: string, content: string): ReportSection {
+  const trimmed = content.trim();
+  return {
+    id: generateSectionId(title),
+    title,
+    content: trimmed,
+    timestamps: extractTimestamps(trimmed),
+  };
+}
+
+// ============================================================================
+// STREAMING SECTION PARSING
+// ============================================================================
+
+export interface SectionStream {
+  /** Feeds the next chunk of markdown and returns every section seen so far. */
+  push(chunk: string): ReportSection[];
+  /** Returns the final sections once the stream has ended. */
+  end(): ReportSection[];
+}
+
+/**
+ * Incrementally parses streamed markdown into sections.
+ * A section is finalized (and never re-parsed) as soon as the next header
+ * arrives; only the section still being written is re-parsed on each chunk,
+ * and only up to its last complete line.
+ */
+export function createSectionStream(): SectionStream {
+  const completed: ReportSection[] = [];
+  let pending = ''; // Markdown of the section still being written
+  let scanned = 0; // Chars of `pending` already checked for headers
+
+  return {
+    push(chunk: string): ReportSection[] {
+      pending += chunk;
+
+      let lineEnd = pending.indexOf('\n', scanned);
+      while (lineEnd !== -1) {
+        const line = pending.slice(scanned, lineEnd).trim();
+
+        // A new header closes the section before it
+        if (scanned > 0 && matchSectionHeader(line) !== null) {
+          completed.push(...parseReportSections(pending.slice(0, scanned)));
+          pending = pending.slice(scanned);
+          scanned = 0;
+          lineEnd = pending.indexOf('\n');
+        }
+
+        scanned = lineEnd + 1;
+        lineEnd = pending.indexOf('\n', scanned);
+      }
+
+      return [...completed, ...parseReportSections(pending.slice(0, scanned))];
+    },
+
+    end(): ReportSection[] {
+      return [...completed, ...parseReportSections(pending)];
+    },
+  };
+}
+
 // ============================================================================
 // FINDING EXTRACTION
 // ============================================================================
@@ -689,19 +886,108 @@ export function extractOpponentGamePlan(rawContent: string): string | undefined
   return undefined;
 }
 
+// ============================================================================
+// GAME PLAN EXTRACTION
+// ============================================================================
+
+/**
+ * Regex source for a game plan reference naming its footage: [User 0:45],
+ * (Opponent 1:12-1:20) or [Opp 0:14, 1:22]. Captures the label and the times.
+ */
+export const FOOTAGE_REF_PATTERN =
+  String.raw`[\[\(](User|You|Opponent|Opp)\s*:?\s+(${TIME_RANGE_PATTERN}(?:\s*,\s*${TIME_RANGE_PATTERN})*)[\]\)]`;
+
+export function footageOfLabel(label: string): GamePlanFootage {
+  return /^(user|you)$/i.test(label) ? 'user' : 'opponent';
+}
+
+/**
+ * Extracts the labeled timestamps from game plan text, split by footage.
+ * Unlabeled timestamps can't be tied to a video and are left out.
+ */
+export function extractFootageTimestamps(text: string): FootageTimestamps {
+  const footage: FootageTimestamps = { user: [], opponent: [] };
+  if (!text) return footage;
+
+  const regex = new RegExp(FOOTAGE_REF_PATTERN, 'gi');
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    const start = Math.max(0, match.index - 50);
+    const end = Math.min(text.length, match.index + match[0].length + 50);
+    const context = text.substring(start, end).replace(/[\n\r]/g, ' ').trim();
+
+    for (const time of match[2].split(',')) {
+      const parsed = parseTimestampText(time);
+      if (!parsed) continue;
+      const label = stripFootageTimestamps(context);
+      footage[footageOfLabel(match[1])].push({
+        ...parsed,
+        label: label.substring(0, 40) + (label.length > 40 ? '...' : ''),
+        category: categorizeTimestampContext(context),
+      });
+    }
+  }
+
+  footage.user.sort((a, b) => a.seconds - b.seconds);
+  footage.opponent.sort((a, b) => a.seconds - b.seconds);
+  return footage;
+}
+
+function stripFootageTimestamps(text: string): string {
+  return stripTimestamps(text.replace(new RegExp(FOOTAGE_REF_PATTERN, 'gi'), '')).replace(/\s{2,}/g, ' ');
+}
+
+const toGamePlanSection = (section: ReportSection): GamePlanSection => ({
+  ...section,
+  footage: extractFootageTimestamps(section.content),
+});
+
+const findGamePlanSection = (sections: GamePlanSection[], titles: string[]) =>
+  sections.find(s => titles.some(t => s.title.toUpperCase().includes(t))) ?? null;
+
+/**
+ * Splits the round-by-round section into rounds. Lines like "- R1: ..." or
+ * "**Round 2:** ..." start a round; following lines belong to it. A quick
+ * plan's ROUND 1 FOCUS is a single round.
+ */
+export function extractGamePlanRounds(section: GamePlanSection | null): GamePlanRound[] {
+  if (!section) return [];
+  if (!/ROUND-BY-ROUND|ROUND BY ROUND/i.test(section.title)) {
+    return [{ round: 1, content: section.content.trim(), footage: section.footage }];
+  }
+
+  const rounds: { round: number; lines: string[] }[] = [];
+  for (const line of section.content.split('\n')) {
+    const header = line.match(/^\s*(?:[-*•]|\d+\.)?\s*\**\s*(?:R|Round\s*)(\d+)\b\s*\**\s*[:.\-–—]?\s*\**\s*(.*)$/i);
+    if (header) {
+      rounds.push({ round: Number(header[1]), lines: [header[2]] });
+    } else if (rounds.length > 0 && line.trim()) {
+      rounds[rounds.length - 1].lines.push(line.trim());
+    }
+  }
+
+  return rounds.map(({ round, lines }) => {
+    const content = lines.join('\n').trim();
+    return { round, content, footage: extractFootageTimestamps(content) };
+  });
+}
+
 // ============================================================================
 // MAIN PARSE FUNCTION
 // ============================================================================
 
 /**
  * Parse raw Gemini markdown response into structured SelfScoutReport.
+ * Pass `sections` when they were already parsed (e.g. from a SectionStream).
+ * Structured (JSON mode) responses go through lib/report-schema.ts instead;
+ * this heuristic parser handles markdown-only reports and streaming previews.
  */
 export function parseSelfScoutReport(
   rawContent: string,
-  analysisType: 'full' | 'quick' | 'progress' = 'full'
+  analysisType: 'full' | 'quick' | 'progress' = 'full',
+  sections: ReportSection[] = parseReportSections(rawContent)
 ): SelfScoutReport {
-  // Parse sections
-  const sections = parseReportSections(rawContent);
   
   // Extract all timestamps from raw content
   const allTimestamps = extractTimestamps(rawContent);
@@ -725,14 +1011,7 @@ export function parseSelfScoutReport(
   const opponentGamePlan = extractOpponentGamePlan(rawContent);
   
   // Build metadata
-  const metadata: ReportMetadata = {
-    totalFindings: findings.length,
-    criticalCount: findings.filter(f => f.severity === 'critical').length,
-    highCount: findings.filter(f => f.severity === 'high').length,
-    mediumCount: findings.filter(f => f.severity === 'medium').length,
-    lowCount: findings.filter(f => f.severity === 'low').length,
-    validationWarnings: validateReport(findings, strengths),
-  };
+  const metadata = buildReportMetadata(findings, strengths);
 
   return {
     id: crypto.randomUUID(),
@@ -750,6 +1029,45 @@ export function parseSelfScoutReport(
   };
 }
 
+/**
+ * Parse a GAME_PLAN_FULL or GAME_PLAN_QUICK markdown response. Also used on
+ * the partial markdown while the plan streams in.
+ */
+export function parseGamePlanReport(
+  rawContent: string,
+  reportType: GamePlanReport['reportType'] = 'full',
+  names: Pick<GamePlanReport, 'fighterName' | 'opponentName'> = {}
+): GamePlanReport {
+  const sections = parseReportSections(rawContent).map(toGamePlanSection);
+  const roundSection = findGamePlanSection(sections, ['ROUND-BY-ROUND', 'ROUND BY ROUND', 'ROUND 1 FOCUS']);
+
+  return {
+    id: crypto.randomUUID(),
+    generatedAt: new Date(),
+    reportType,
+    ...names,
+    matchup: findGamePlanSection(sections, ['MATCHUP']),
+    blueprint: findGamePlanSection(sections, ['VICTORY BLUEPRINT', 'HOW I WIN']),
+    rounds: extractGamePlanRounds(roundSection),
+    sections,
+    rawContent,
+  };
+}
+
+/**
+ * Severity counts and validation warnings for a set of findings.
+ */
+export function buildReportMetadata(findings: Finding[], strengths: Finding[]): ReportMetadata {
+  return {
+    totalFindings: findings.length,
+    criticalCount: findings.filter(f => f.severity === 'critical').length,
+    highCount: findings.filter(f => f.severity === 'high').length,
+    mediumCount: findings.filter(f => f.severity === 'medium').length,
+    lowCount: findings.filter(f => f.severity === 'low').length,
+    validationWarnings: validateReport(findings, strengths),
+  };
+}
+
 /**
  * Validate report and generate warnings.
  */
@@ -767,6 +1085,12 @@ function validateReport(findings: Finding[], strengths: Finding[]): string[] {
     warnings.push('No strengths were identified in this analysis.');
   }
   
+  // Check for findings the verification pass could not confirm
+  const unconfirmed = findings.filter(f => f.verification?.status === 'unconfirmed');
+  if (unconfirmed.length > 0) {
+    warnings.push(`${unconfirmed.length} finding(s) could not be confirmed by the evidence verification pass.`);
+  }
+  
   // Check if too many critical findings (might indicate over-sensitivity)
   const criticalCount = findings.filter(f => f.severity === 'critical').length;
   if (criticalCount > 5) {
@@ -0,0 +1,493 @@
+import { Type } from '@google/genai';
+import { Timestamp } from '../components/video/TimestampMarker';
+import {
+  Finding,
+  PriorityImprovement,
+  DecisionNode,
+  Technique,
+  OpponentReport,
+  ProgressComparison,
+  ProgressIssue,
+  ReportSection,
+  SelfScoutReport,
+  SectionStream,
+  buildReportMetadata,
+  buildSection,
+  extractTimestamps,
+  parseTimestampText,
+} from './report-parser';
+import { collectBaselineIssues, describeBaselines } from './progress-comparison';
+import { TIME_RANGE_PATTERN, VIDEO_REF_PATTERN } from './video-processing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Raw JSON shapes returned by the model in structured mode.
+ * Field names are snake_case to match the response schemas below.
+ */
+export interface StructuredSection {
+  title: string;
+  content: string; // Markdown body, timestamps inline
+}
+
+export interface StructuredFinding {
+  title: string;
+  description: string;
+  severity: Finding['severity'];
+  category: Finding['category'];
+  confidence: Finding['confidence'];
+  timestamps: string[]; // "M:SS"
+  counter_evidence?: string;
+}
+
+export interface StructuredStrength {
+  title: string;
+  description: string;
+  category: Finding['category'];
+  timestamps: string[];
+}
+
+export interface StructuredSelfScoutResponse {
+  sections: StructuredSection[];
+  overall_assessment: {
+    level: string;
+    archetype: string;
+    summary: string;
+  };
+  findings: StructuredFinding[];
+  strengths: StructuredStrength[];
+  priority_improvements: {
+    area: string;
+    issue: string;
+    fix: string;
+    drill?: string;
+  }[];
+  opponent_game_plan?: string;
+  issue_changes?: StructuredIssueChange[]; // SELF_SCOUT_PROGRESS only
+}
+
+export interface StructuredIssueChange {
+  baseline_ref?: string; // "B1"... for baseline issues, omitted for new ones
+  title: string;
+  status: ProgressIssue['status'];
+  note: string;
+  timestamps: string[]; // Evidence on the current tape
+}
+
+export interface StructuredOpponentResponse {
+  sections: StructuredSection[];
+  strengths: StructuredStrength[];
+  weaknesses: StructuredFinding[];
+  decision_tree: {
+    trigger: string;
+    response: string;
+    timestamp?: string;
+  }[];
+  most_utilized_techniques: {
+    name: string;
+    timestamps: string[];
+  }[];
+}
+
+/**
+ * The parts of an OpponentReport that come from the model output.
+ */
+export type OpponentReportContent = Omit<OpponentReport, 'id' | 'generatedAt' | 'fighterName' | 'reportType'>;
+
+// ============================================================================
+// RESPONSE SCHEMAS
+// ============================================================================
+
+const CATEGORIES: Finding['category'][] = ['striking', 'grappling', 'defensive', 'pattern', 'mental', 'movement', 'cardio', 'other'];
+
+const TIMESTAMP_LIST = {
+  type: Type.ARRAY,
+  items: { type: Type.STRING, description: 'M:SS, H:MM:SS past the first hour, M:SS-M:SS for an exchange; prefixed V2 etc. when several videos are attached' },
+};
+
+// `sections` is ordered first so it streams first (see createStructuredSectionStream)
+const SECTIONS = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      content: { type: Type.STRING },
+    },
+    required: ['title', 'content'],
+    propertyOrdering: ['title', 'content'],
+  },
+};
+
+const FINDING = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    severity: { type: Type.STRING, enum: ['critical', 'high', 'medium', 'low'] },
+    category: { type: Type.STRING, enum: CATEGORIES },
+    confidence: { type: Type.STRING, enum: ['high', 'medium', 'low', 'inconclusive'] },
+    timestamps: TIMESTAMP_LIST,
+    counter_evidence: { type: Type.STRING },
+  },
+  required: ['title', 'description', 'severity', 'category', 'confidence', 'timestamps'],
+};
+
+const STRENGTH = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    category: { type: Type.STRING, enum: CATEGORIES },
+    timestamps: TIMESTAMP_LIST,
+  },
+  required: ['title', 'description', 'category', 'timestamps'],
+};
+
+export const SELF_SCOUT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sections: SECTIONS,
+    overall_assessment: {
+      type: Type.OBJECT,
+      properties: {
+        level: { type: Type.STRING },
+        archetype: { type: Type.STRING },
+        summary: { type: Type.STRING },
+      },
+      required: ['level', 'archetype', 'summary'],
+    },
+    findings: { type: Type.ARRAY, items: FINDING },
+    strengths: { type: Type.ARRAY, items: STRENGTH },
+    priority_improvements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          area: { type: Type.STRING },
+          issue: { type: Type.STRING },
+          fix: { type: Type.STRING },
+          drill: { type: Type.STRING },
+        },
+        required: ['area', 'issue', 'fix'],
+      },
+    },
+    opponent_game_plan: { type: Type.STRING },
+  },
+  required: ['sections', 'overall_assessment', 'findings', 'strengths', 'priority_improvements'],
+  propertyOrdering: ['sections', 'overall_assessment', 'findings', 'strengths', 'priority_improvements', 'opponent_game_plan'],
+};
+
+export const SELF_SCOUT_PROGRESS_RESPONSE_SCHEMA = {
+  ...SELF_SCOUT_RESPONSE_SCHEMA,
+  properties: {
+    ...SELF_SCOUT_RESPONSE_SCHEMA.properties,
+    issue_changes: {
+      type: Type.ARRAY,
+      description: 'One entry per baseline issue you can judge from this footage, plus one per new issue',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          baseline_ref: { type: Type.STRING, description: 'Baseline issue reference, e.g. B2. Omit for new issues.' },
+          title: { type: Type.STRING },
+          status: { type: Type.STRING, enum: ['resolved', 'persistent', 'new'] },
+          note: { type: Type.STRING },
+          timestamps: { ...TIMESTAMP_LIST, description: 'Evidence in the current footage' },
+        },
+        required: ['title', 'status', 'note', 'timestamps'],
+      },
+    },
+  },
+  required: [...SELF_SCOUT_RESPONSE_SCHEMA.required, 'issue_changes'],
+  propertyOrdering: [...SELF_SCOUT_RESPONSE_SCHEMA.propertyOrdering, 'issue_changes'],
+};
+
+export const OPPONENT_REPORT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sections: SECTIONS,
+    strengths: { type: Type.ARRAY, items: STRENGTH },
+    weaknesses: { type: Type.ARRAY, items: FINDING },
+    decision_tree: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          trigger: { type: Type.STRING },
+          response: { type: Type.STRING },
+          timestamp: { type: Type.STRING, description: 'M:SS, H:MM:SS past the first hour' },
+        },
+        required: ['trigger', 'response'],
+      },
+    },
+    most_utilized_techniques: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          timestamps: TIMESTAMP_LIST,
+        },
+        required: ['name', 'timestamps'],
+      },
+    },
+  },
+  required: ['sections', 'strengths', 'weaknesses', 'decision_tree', 'most_utilized_techniques'],
+  propertyOrdering: ['sections', 'strengths', 'weaknesses', 'decision_tree', 'most_utilized_techniques'],
+};
+
+/**
+ * Returns the response schema for a report template, or undefined if the
+ * template only supports markdown output.
+ */
+export function getReportResponseSchema(reportType: string): object | undefined {
+  if (reportType === 'SELF_SCOUT_PROGRESS') return SELF_SCOUT_PROGRESS_RESPONSE_SCHEMA;
+  if (reportType.startsWith('SELF_SCOUT_')) return SELF_SCOUT_RESPONSE_SCHEMA;
+  if (reportType.startsWith('OPPONENT_BREAKDOWN_')) return OPPONENT_REPORT_RESPONSE_SCHEMA;
+  return undefined;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Converts "M:SS" (or "H:MM:SS", "M:SS.s", "M:SS-M:SS", "V2 M:SS") strings into
+ * Timestamps, dropping anything unparseable.
+ */
+function toTimestamps(times: string[] | undefined, label: string, category: Timestamp['category']): Timestamp[] {
+  const timestamps: Timestamp[] = [];
+  for (const time of times ?? []) {
+    // Tolerate brackets and stray text around the time
+    const match = time.match(new RegExp(String.raw`(?:${VIDEO_REF_PATTERN})?${TIME_RANGE_PATTERN}`, 'i'));
+    const parsed = match && parseTimestampText(match[0]);
+    if (!parsed) continue;
+    timestamps.push({
+      ...parsed,
+      label,
+      category,
+    });
+  }
+  return timestamps.sort((a, b) => a.seconds - b.seconds);
+}
+
+function toFinding(finding: StructuredFinding): Finding {
+  const timestamps = toTimestamps(finding.timestamps, finding.title, finding.category);
+  return {
+    id: crypto.randomUUID(),
+    title: finding.title,
+    description: finding.description,
+    severity: finding.severity,
+    category: finding.category,
+    instanceCount: timestamps.length || 1,
+    confidence: finding.confidence,
+    timestamps,
+    counterEvidence: finding.counter_evidence || undefined,
+  };
+}
+
+// Strengths reuse Finding; severity and confidence are fixed as in the markdown parser
+function toStrength(strength: StructuredStrength): Finding {
+  const timestamps = toTimestamps(strength.timestamps, strength.title, strength.category);
+  return {
+    id: crypto.randomUUID(),
+    title: strength.title,
+    description: strength.description,
+    severity: 'low',
+    category: strength.category,
+    instanceCount: timestamps.length || 1,
+    confidence: 'high',
+    timestamps,
+  };
+}
+
+function toSections(sections: StructuredSection[] | undefined): ReportSection[] {
+  return (sections ?? []).map(s => buildSection(s.title, s.content));
+}
+
+/**
+ * Renders sections back into the markdown layout the report templates use,
+ * so `rawContent` stays readable for display and export.
+ */
+export function sectionsToMarkdown(sections: ReportSection[]): string {
+  return sections.map(s => `## ${s.title}\n\n${s.content}`).join('\n\n');
+}
+
+/**
+ * Matches the model's issue changes to the baseline issues they refer to:
+ * by reference first, then by title.
+ */
+function toProgressComparison(changes: StructuredIssueChange[], baselines: SelfScoutReport[]): ProgressComparison {
+  const baselineIssues = collectBaselineIssues(baselines);
+  const assessed = new Set<string>();
+
+  const issues = changes.map((change): ProgressIssue => {
+    const title = change.title.replace(/:$/, '');
+    const baseline = change.status === 'new' ? undefined
+      : baselineIssues.find(b => b.ref === change.baseline_ref?.trim().toUpperCase())
+        ?? baselineIssues.find(b => b.title.toLowerCase() === title.toLowerCase());
+    if (baseline) assessed.add(baseline.ref);
+
+    return {
+      id: crypto.randomUUID(),
+      title: baseline?.title ?? title,
+      status: change.status,
+      note: change.note,
+      baselineEvidence: baseline?.evidence ?? [],
+      currentEvidence: toTimestamps(change.timestamps, title, baseline?.category ?? 'other'),
+    };
+  });
+
+  return {
+    baselines: describeBaselines(baselines),
+    issues,
+    unassessed: baselineIssues.filter(b => !assessed.has(b.ref)).map(b => b.title),
+  };
+}
+
+/**
+ * Parses a structured (JSON mode) self-scout response into a SelfScoutReport.
+ * Progress reports also need the baseline reports they were compared against.
+ */
+export function parseStructuredSelfScoutReport(
+  json: string,
+  analysisType: SelfScoutReport['analysisType'] = 'full',
+  baselines: SelfScoutReport[] = []
+): SelfScoutReport {
+  const response: StructuredSelfScoutResponse = JSON.parse(json);
+
+  const sections = toSections(response.sections);
+  const rawContent = sectionsToMarkdown(sections);
+  const findings = (response.findings ?? []).map(toFinding);
+  const strengths = (response.strengths ?? []).map(toStrength);
+  const priorityImprovements: PriorityImprovement[] = (response.priority_improvements ?? []).map((imp, i) => ({
+    area: imp.area,
+    issue: imp.issue,
+    fix: imp.fix,
+    drillRecommendation: imp.drill || undefined,
+    priority: i + 1,
+  }));
+
+  return {
+    id: crypto.randomUUID(),
+    generatedAt: new Date(),
+    analysisType,
+    overallAssessment: {
+      level: response.overall_assessment?.level || 'Unknown',
+      archetype: response.overall_assessment?.archetype || 'Unknown',
+      summary: response.overall_assessment?.summary || 'No assessment available.',
+    },
+    findings,
+    strengths,
+    priorityImprovements,
+    opponentGamePlan: response.opponent_game_plan || undefined,
+    progress: analysisType === 'progress' && baselines.length > 0
+      ? toProgressComparison(response.issue_changes ?? [], baselines)
+      : undefined,
+    sections,
+    timestamps: extractTimestamps(rawContent).sort((a, b) => a.seconds - b.seconds),
+    metadata: buildReportMetadata(findings, strengths),
+    rawContent,
+  };
+}
+
+/**
+ * Parses a structured (JSON mode) opponent response into report content.
+ */
+export function parseStructuredOpponentReport(json: string): OpponentReportContent {
+  const response: StructuredOpponentResponse = JSON.parse(json);
+
+  const sections = toSections(response.sections);
+  const decisionTree: DecisionNode[] = (response.decision_tree ?? []).map(node => ({
+    trigger: node.trigger,
+    response: node.response,
+    timestamp: toTimestamps(node.timestamp ? [node.timestamp] : [], node.trigger, 'other')[0],
+  }));
+  const mostUtilizedTechniques: Technique[] = (response.most_utilized_techniques ?? []).map(t => ({
+    name: t.name,
+    timestamps: toTimestamps(t.timestamps, t.name, 'other'),
+  }));
+
+  return {
+    sections,
+    strengths: (response.strengths ?? []).map(toStrength),
+    weaknesses: (response.weaknesses ?? []).map(toFinding),
+    decisionTree,
+    mostUtilizedTechniques,
+    timestamps: sections.flatMap(s => s.timestamps),
+    rawContent: sectionsToMarkdown(sections),
+  };
+}
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Incrementally reads the `sections` array out of a streaming JSON response.
+ * Each section is emitted once its object is complete; the typed fields that
+ * follow are left to the final parse.
+ */
+export function createStructuredSectionStream(): SectionStream {
+  const sections: ReportSection[] = [];
+  let buffer = '';
+  let pos = -1; // Scan position inside the sections array, -1 until it is found
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let done = false;
+
+  return {
+    push(chunk: string): ReportSection[] {
+      buffer += chunk;
+
+      if (pos === -1) {
+        // `sections` is the first property, so its first match is the key
+        const match = buffer.match(/"sections"\s*:\s*\[/);
+        if (!match) return [...sections];
+        pos = match.index! + match[0].length;
+      }
+
+      for (; pos < buffer.length && !done; pos++) {
+        const ch = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{' || ch === '[') {
+          if (depth === 0) objectStart = pos;
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          if (depth === 0) {
+            done = true; // End of the sections array
+            continue;
+          }
+          depth--;
+          if (depth === 0 && objectStart !== -1) {
+            try {
+              const section: StructuredSection = JSON.parse(buffer.slice(objectStart, pos + 1));
+              sections.push(buildSection(section.title, section.content));
+            } catch (e) {
+              console.warn('Skipping unparseable streamed section', e);
+            }
+            objectStart = -1;
+          }
+        }
+      }
+
+      return [...sections];
+    },
+
+    end(): ReportSection[] {
+      return [...sections];
+    },
+  };
+}
@@ -0,0 +1,518 @@
+import { Timestamp } from '../components/video/TimestampMarker';
+import {
+  DecisionNode,
+  Finding,
+  FindingVerification,
+  OpponentReport,
+  PriorityImprovement,
+  ProgressIssue,
+  ReportSection,
+  SelfScoutReport,
+  Technique,
+  buildReportMetadata,
+} from './report-parser';
+import { TIME_PATTERN, VIDEO_REF_PATTERN, formatTimestamp, getVideoMetadata, parseTimestamp } from './video-processing';
+import { MediaTaskOptions, splitMedia } from './media-prep';
+import { isAbortError } from './abort';
+import { isSimilarTitle } from './title-similarity';
+import { MAX_SPLIT_SIZE_MB } from '../constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a long video is cut before analysis.
+ * - `none`: sent whole.
+ * - `window`: fixed-length pieces; a video no longer than one window is sent whole.
+ * - `rounds`: cut where the user marked each new round (seconds, e.g. [300, 600]).
+ */
+export type SegmentationMode =
+  | { type: 'none' }
+  | { type: 'window'; windowSeconds: number }
+  | { type: 'rounds'; roundStarts: number[] };
+
+export interface VideoSegment {
+  index: number;
+  start: number; // Seconds in the original video
+  end: number;
+  label: string; // "Round 2" or "Part 2"
+}
+
+/**
+ * A segment ready to send: the piece of the video (or, when nothing was cut,
+ * the input videos themselves).
+ */
+export interface PreparedSegment {
+  segment: VideoSegment;
+  videos: File[];
+}
+
+/**
+ * One segment's report, still on the segment's own timeline.
+ */
+export interface SegmentResult<R> {
+  segment: VideoSegment;
+  report: R;
+}
+
+// Five minutes is one round; the model stays precise at that length
+export const DEFAULT_SEGMENT_SECONDS = 5 * 60;
+
+export const DEFAULT_SEGMENTATION: SegmentationMode = { type: 'window', windowSeconds: DEFAULT_SEGMENT_SECONDS };
+
+// Windows overlap a little so an exchange on a boundary is seen whole by one of them
+const WINDOW_OVERLAP_SECONDS = 10;
+
+// Don't leave a sliver at the end: a last window shorter than this joins the previous one
+const MIN_SEGMENT_SECONDS = 30;
+
+// ffmpeg.wasm holds the whole file in memory while it cuts; larger files are sent whole
+export const MAX_SPLIT_BYTES = MAX_SPLIT_SIZE_MB * 1024 * 1024;
+
+// The same moment reported by two overlapping windows lands within a second or two
+const DUPLICATE_TOLERANCE_SECONDS = 3;
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Cuts [0, duration] into the segments to analyse. Always returns at least one
+ * segment; a single segment covering the whole video means "don't split".
+ */
+export function planSegments(duration: number, mode: SegmentationMode): VideoSegment[] {
+  const whole: VideoSegment[] = [{ index: 0, start: 0, end: duration, label: 'Full video' }];
+  if (!(duration > 0)) return whole;
+
+  if (mode.type === 'rounds') {
+    const starts = [...new Set(mode.roundStarts)]
+      .filter(s => s > 0 && s < duration)
+      .sort((a, b) => a - b);
+    const bounds = [0, ...starts, duration];
+    return bounds.slice(0, -1).map((start, index) => ({
+      index,
+      start,
+      end: bounds[index + 1],
+      label: `Round ${index + 1}`,
+    }));
+  }
+
+  if (mode.type === 'window' && duration > mode.windowSeconds + MIN_SEGMENT_SECONDS) {
+    const step = mode.windowSeconds;
+    const segments: VideoSegment[] = [];
+    for (let start = 0; start < duration; start += step) {
+      const isLast = duration - (start + step) < MIN_SEGMENT_SECONDS;
+      segments.push({
+        index: segments.length,
+        start: Math.max(0, start - (start > 0 ? WINDOW_OVERLAP_SECONDS : 0)),
+        end: isLast ? duration : start + step,
+        label: `Part ${segments.length + 1}`,
+      });
+      if (isLast) break;
+    }
+    return segments;
+  }
+
+  return whole;
+}
+
+/**
+ * Plans the segments and cuts the video in the media worker. Only a single
+ * video is split; several videos are analysed together as they are. If the
+ * video is over MAX_SPLIT_BYTES, or can't be read or cut, it is analysed
+ * whole, as before segmentation.
+ */
+export async function prepareSegments(
+  videos: File[],
+  mode: SegmentationMode,
+  options: MediaTaskOptions = {}
+): Promise<PreparedSegment[]> {
+  const whole: PreparedSegment[] = [{ segment: { index: 0, start: 0, end: 0, label: 'Full video' }, videos }];
+  if (videos.length !== 1 || mode.type === 'none') return whole;
+  if (videos[0].size > MAX_SPLIT_BYTES) {
+    console.warn(`${videos[0].name} is too large to split in the browser; analysing it whole`);
+    return whole;
+  }
+
+  try {
+    const { duration } = await getVideoMetadata(videos[0]);
+    const segments = planSegments(duration, mode);
+    if (segments.length === 1) return whole;
+
+    // Pieces start on a keyframe, up to a few seconds before the planned start
+    const pieces = await splitMedia(videos[0], segments, options);
+    return segments.map((segment, i) => ({ segment: { ...segment, start: pieces[i].start }, videos: [pieces[i].file] }));
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Could not split the video into segments; analysing it whole', err);
+    return whole;
+  }
+}
+
+/**
+ * Context added to each segment's prompt so the model knows what it is looking at.
+ */
+export function describeSegmentForPrompt(segment: VideoSegment, count: number): string {
+  return `FOOTAGE SEGMENT: This clip is ${segment.label} of ${count} (${formatTime(segment.start)}-${formatTime(segment.end)} of the full video). ` +
+    'Only analyse what happens in this clip and give every timestamp relative to the start of this clip.';
+}
+
+/**
+ * Heading used for a segment's part of a merged section.
+ */
+export function describeSegment(segment: VideoSegment): string {
+  return `${segment.label} (${formatTime(segment.start)}-${formatTime(segment.end)})`;
+}
+
+// ============================================================================
+// SHIFTING TO THE ORIGINAL TIMELINE
+// ============================================================================
+
+const TIMESTAMP_REF_REGEX = new RegExp(String.raw`([\[\(](?:${VIDEO_REF_PATTERN})?)(${TIME_PATTERN})(?:\s*-\s*(${TIME_PATTERN}))?([\]\)])`, 'g');
+
+// Frame numbers count from the start of the clip, so shifted ones become clock times
+const FRAME_SHIFT_DIGITS = 2;
+
+const shiftTime = (time: string, offset: number) => {
+  const parsed = parseTimestamp(time);
+  if (!parsed) return time;
+  const digits = parsed.frame !== undefined ? FRAME_SHIFT_DIGITS : parsed.fractionDigits;
+  return formatTimestamp(parsed.seconds + offset, digits);
+};
+
+export function shiftTimestamp(timestamp: Timestamp, offset: number): Timestamp {
+  const parsed = parseTimestamp(timestamp.time);
+  const digits = timestamp.frame !== undefined ? FRAME_SHIFT_DIGITS : parsed?.fractionDigits ?? 0;
+  const seconds = timestamp.seconds + offset;
+  const shifted: Timestamp = { ...timestamp, seconds, time: formatTimestamp(seconds, digits), frame: undefined };
+  if (timestamp.end !== undefined) {
+    shifted.end = timestamp.end + offset;
+    shifted.endTime = formatTimestamp(shifted.end, digits);
+  }
+  return shifted;
+}
+
+/**
+ * Rewrites the [MM:SS] and [MM:SS-MM:SS] references in prose.
+ */
+export function shiftText(text: string, offset: number): string {
+  if (!text || offset === 0) return text;
+  return text.replace(TIMESTAMP_REF_REGEX, (_, open: string, start: string, end: string | undefined, close: string) => {
+    const shifted = shiftTime(start, offset);
+    return `${open}${shifted}${end ? `-${shiftTime(end, offset)}` : ''}${close}`;
+  });
+}
+
+export function shiftSection(section: ReportSection, offset: number): ReportSection {
+  return {
+    ...section,
+    content: shiftText(section.content, offset),
+    timestamps: section.timestamps.map(ts => shiftTimestamp(ts, offset)),
+    subsections: section.subsections?.map(s => shiftSection(s, offset)),
+  };
+}
+
+export function shiftFinding(finding: Finding, offset: number): Finding {
+  return {
+    ...finding,
+    description: shiftText(finding.description, offset),
+    timestamps: finding.timestamps.map(ts => shiftTimestamp(ts, offset)),
+    counterEvidence: finding.counterEvidence && shiftText(finding.counterEvidence, offset),
+    verification: finding.verification && {
+      ...finding.verification,
+      instances: finding.verification.instances.map(ts => shiftTimestamp(ts, offset)),
+    },
+  };
+}
+
+const shiftImprovement = (imp: PriorityImprovement, offset: number): PriorityImprovement => ({
+  ...imp,
+  issue: shiftText(imp.issue, offset),
+  fix: shiftText(imp.fix, offset),
+});
+
+const shiftIssue = (issue: ProgressIssue, offset: number): ProgressIssue => ({
+  ...issue,
+  note: shiftText(issue.note, offset),
+  currentEvidence: issue.currentEvidence.map(ts => shiftTimestamp(ts, offset)),
+});
+
+export function shiftSelfScoutReport(report: SelfScoutReport, offset: number): SelfScoutReport {
+  return {
+    ...report,
+    overallAssessment: { ...report.overallAssessment, summary: shiftText(report.overallAssessment.summary, offset) },
+    findings: report.findings.map(f => shiftFinding(f, offset)),
+    strengths: report.strengths.map(f => shiftFinding(f, offset)),
+    priorityImprovements: report.priorityImprovements.map(imp => shiftImprovement(imp, offset)),
+    opponentGamePlan: report.opponentGamePlan && shiftText(report.opponentGamePlan, offset),
+    progress: report.progress && { ...report.progress, issues: report.progress.issues.map(i => shiftIssue(i, offset)) },
+    sections: report.sections.map(s => shiftSection(s, offset)),
+    timestamps: report.timestamps.map(ts => shiftTimestamp(ts, offset)),
+    rawContent: shiftText(report.rawContent, offset),
+  };
+}
+
+export function shiftOpponentReport(report: OpponentReport, offset: number): OpponentReport {
+  return {
+    ...report,
+    strengths: report.strengths.map(f => shiftFinding(f, offset)),
+    weaknesses: report.weaknesses.map(f => shiftFinding(f, offset)),
+    decisionTree: report.decisionTree.map(node => ({
+      trigger: shiftText(node.trigger, offset),
+      response: shiftText(node.response, offset),
+      timestamp: node.timestamp && shiftTimestamp(node.timestamp, offset),
+    })),
+    mostUtilizedTechniques: report.mostUtilizedTechniques.map(t => ({
+      ...t,
+      timestamps: t.timestamps.map(ts => shiftTimestamp(ts, offset)),
+    })),
+    sections: report.sections.map(s => shiftSection(s, offset)),
+    timestamps: report.timestamps.map(ts => shiftTimestamp(ts, offset)),
+    rawContent: shiftText(report.rawContent, offset),
+  };
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\*\*/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const SEVERITY_RANK: Finding['severity'][] = ['low', 'medium', 'high', 'critical'];
+const CONFIDENCE_RANK: Finding['confidence'][] = ['inconclusive', 'low', 'medium', 'high'];
+
+const higher = <T>(rank: T[], a: T, b: T) => (rank.indexOf(a) >= rank.indexOf(b) ? a : b);
+
+/**
+ * Timestamps from both lists, sorted, with the copies an overlap produced dropped.
+ */
+export function mergeTimestamps(a: Timestamp[], b: Timestamp[]): Timestamp[] {
+  const merged = [...a];
+  for (const ts of b) {
+    if (!merged.some(m => Math.abs(m.seconds - ts.seconds) <= DUPLICATE_TOLERANCE_SECONDS)) {
+      merged.push(ts);
+    }
+  }
+  return merged.sort((x, y) => x.seconds - y.seconds);
+}
+
+const mergeVerification = (a?: FindingVerification, b?: FindingVerification): FindingVerification | undefined => {
+  if (!a || !b) return a ?? b;
+  const instances = mergeTimestamps(a.instances, b.instances);
+  const status: FindingVerification['status'] =
+    a.status === b.status ? a.status
+    : instances.length === 0 ? 'unconfirmed'
+    : 'partial';
+  return {
+    status,
+    citedCount: a.citedCount + b.citedCount,
+    matchedCount: a.matchedCount + b.matchedCount,
+    instances,
+  };
+};
+
+/**
+ * Joins the findings of every segment. The same finding seen in several
+ * segments (a similar title; each segment words it its own way) becomes one,
+ * with the evidence of all of them and the highest severity any segment gave it.
+ */
+export function mergeFindings(lists: Finding[][]): Finding[] {
+  const merged: Finding[] = [];
+
+  for (const finding of lists.flat()) {
+    const index = merged.findIndex(m => isSimilarTitle(m.title, finding.title));
+    if (index === -1) {
+      merged.push(finding);
+      continue;
+    }
+
+    const existing = merged[index];
+    const timestamps = mergeTimestamps(existing.timestamps, finding.timestamps);
+    // Moments both segments cited (from the overlap) count once
+    const repeated = finding.timestamps.length - (timestamps.length - existing.timestamps.length);
+    merged[index] = {
+      ...existing,
+      severity: higher(SEVERITY_RANK, existing.severity, finding.severity),
+      confidence: higher(CONFIDENCE_RANK, existing.confidence, finding.confidence),
+      instanceCount: Math.max(timestamps.length, existing.instanceCount + finding.instanceCount - repeated),
+      timestamps,
+      counterEvidence: [existing.counterEvidence, finding.counterEvidence].filter(Boolean).join(' ') || undefined,
+      verification: mergeVerification(existing.verification, finding.verification),
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Joins same-titled sections across segments. When more than one segment
+ * wrote a section, each part is headed with its segment.
+ */
+export function mergeSections(results: { segment: VideoSegment; sections: ReportSection[] }[]): ReportSection[] {
+  const groups: { section: ReportSection; parts: { segment: VideoSegment; section: ReportSection }[] }[] = [];
+  const byTitle = new Map<string, number>();
+
+  for (const { segment, sections } of results) {
+    for (const section of sections) {
+      const key = normalizeTitle(section.title);
+      const index = byTitle.get(key);
+      if (index === undefined) {
+        byTitle.set(key, groups.length);
+        groups.push({ section, parts: [{ segment, section }] });
+      } else {
+        groups[index].parts.push({ segment, section });
+      }
+    }
+  }
+
+  return groups.map(({ section, parts }) => {
+    if (parts.length === 1) return section;
+
+    const subsections = mergeSections(parts.map(p => ({ segment: p.segment, sections: p.section.subsections ?? [] })));
+    return {
+      ...section,
+      content: parts.map(p => `**${describeSegment(p.segment)}**\n\n${p.section.content}`).join('\n\n'),
+      timestamps: parts.flatMap(p => p.section.timestamps),
+      subsections: subsections.length > 0 ? subsections : undefined,
+    };
+  });
+}
+
+const mergeImprovements = (lists: PriorityImprovement[][]): PriorityImprovement[] => {
+  const merged: PriorityImprovement[] = [];
+  for (const imp of lists.flat()) {
+    const existing = merged.find(m => isSimilarTitle(m.area, imp.area));
+    if (existing) {
+      existing.priority = Math.min(existing.priority, imp.priority);
+    } else {
+      merged.push({ ...imp });
+    }
+  }
+  return merged
+    .sort((a, b) => a.priority - b.priority)
+    .map((imp, i) => ({ ...imp, priority: i + 1 }));
+};
+
+/**
+ * A baseline issue judged in several segments. Segments that agree keep
+ * their status; any disagreement is 'persistent'. A segment calling it
+ * resolved or persistent places it in the baseline, and one calling it
+ * persistent or new saw it on this tape, so both together mean it is still
+ * there. Resolved needs every segment that judged it to say so.
+ */
+const mergeProgressIssues = (lists: ProgressIssue[][]): ProgressIssue[] => {
+  const merged: ProgressIssue[] = [];
+  for (const issue of lists.flat()) {
+    const index = merged.findIndex(m => isSimilarTitle(m.title, issue.title));
+    if (index === -1) {
+      merged.push(issue);
+      continue;
+    }
+    const existing = merged[index];
+    merged[index] = {
+      ...existing,
+      status: existing.status === issue.status ? existing.status : 'persistent',
+      note: existing.note === issue.note ? existing.note : `${existing.note} ${issue.note}`,
+      // A 'new' judgement carries no baseline evidence; keep the one that does
+      baselineEvidence: existing.baselineEvidence.length > 0 ? existing.baselineEvidence : issue.baselineEvidence,
+      currentEvidence: mergeTimestamps(existing.currentEvidence, issue.currentEvidence),
+    };
+  }
+  return merged;
+};
+
+const mergeTechniques = (lists: Technique[][]): Technique[] => {
+  const merged: Technique[] = [];
+  for (const technique of lists.flat()) {
+    const existing = merged.find(m => isSimilarTitle(m.name, technique.name));
+    if (existing) {
+      existing.timestamps = mergeTimestamps(existing.timestamps, technique.timestamps);
+    } else {
+      merged.push({ ...technique });
+    }
+  }
+  // Most seen first, since the segments each ranked only their own part
+  return merged.sort((a, b) => b.timestamps.length - a.timestamps.length);
+};
+
+const mergeDecisionTree = (lists: DecisionNode[][]): DecisionNode[] => {
+  const merged: DecisionNode[] = [];
+  for (const node of lists.flat()) {
+    if (!merged.some(m => isSimilarTitle(m.trigger, node.trigger))) {
+      merged.push(node);
+    }
+  }
+  return merged;
+};
+
+const joinBySegment = (results: { segment: VideoSegment; text?: string }[]): string | undefined => {
+  const parts = results.filter(r => r.text?.trim());
+  if (parts.length <= 1) return parts[0]?.text;
+  return parts.map(r => `**${describeSegment(r.segment)}:** ${r.text}`).join('\n\n');
+};
+
+const joinRawContent = (results: { segment: VideoSegment; text: string }[]) =>
+  results.map(r => `## ${describeSegment(r.segment)}\n\n${r.text}`).join('\n\n');
+
+/**
+ * Merges segment reports that were already shifted to the original timeline.
+ * The first segment supplies the id, date and anything that isn't merged.
+ */
+export function mergeSelfScoutReports(results: SegmentResult<SelfScoutReport>[]): SelfScoutReport {
+  const [first] = results;
+  if (results.length === 1) return first.report;
+
+  const reports = results.map(r => r.report);
+  const findings = mergeFindings(reports.map(r => r.findings));
+  const strengths = mergeFindings(reports.map(r => r.strengths));
+
+  const progressReports = reports.filter(r => r.progress);
+  const issues = mergeProgressIssues(progressReports.map(r => r.progress!.issues));
+  const progress = first.report.progress && {
+    baselines: first.report.progress.baselines,
+    issues,
+    // Not assessed only if no segment could judge it
+    unassessed: first.report.progress.unassessed.filter(title =>
+      !issues.some(i => isSimilarTitle(i.title, title)) && progressReports.every(r => r.progress!.unassessed.includes(title))),
+  };
+
+  return {
+    ...first.report,
+    overallAssessment: {
+      ...first.report.overallAssessment,
+      summary: joinBySegment(results.map(r => ({ segment: r.segment, text: r.report.overallAssessment.summary }))) ?? '',
+    },
+    findings,
+    strengths,
+    priorityImprovements: mergeImprovements(reports.map(r => r.priorityImprovements)),
+    opponentGamePlan: joinBySegment(results.map(r => ({ segment: r.segment, text: r.report.opponentGamePlan }))),
+    progress,
+    sections: mergeSections(results.map(r => ({ segment: r.segment, sections: r.report.sections }))),
+    timestamps: reports.flatMap(r => r.timestamps).sort((a, b) => a.seconds - b.seconds),
+    metadata: buildReportMetadata(findings, strengths),
+    rawContent: joinRawContent(results.map(r => ({ segment: r.segment, text: r.report.rawContent }))),
+  };
+}
+
+export function mergeOpponentReports(results: SegmentResult<OpponentReport>[]): OpponentReport {
+  const [first] = results;
+  if (results.length === 1) return first.report;
+
+  const reports = results.map(r => r.report);
+  return {
+    ...first.report,
+    strengths: mergeFindings(reports.map(r => r.strengths)),
+    weaknesses: mergeFindings(reports.map(r => r.weaknesses)),
+    decisionTree: mergeDecisionTree(reports.map(r => r.decisionTree)),
+    mostUtilizedTechniques: mergeTechniques(reports.map(r => r.mostUtilizedTechniques)),
+    sections: mergeSections(results.map(r => ({ segment: r.segment, sections: r.report.sections }))),
+    timestamps: reports.flatMap(r => r.timestamps).sort((a, b) => a.seconds - b.seconds),
+    rawContent: joinRawContent(results.map(r => ({ segment: r.segment, text: r.report.rawContent }))),
+  };
+}
@@ -0,0 +1,240 @@
+import { Timestamp } from '../components/video/TimestampMarker';
+import {
+  Finding,
+  FootageTimestamps,
+  GamePlanFootage,
+  GamePlanReport,
+  OpponentReport,
+  ReportSection,
+  SelfScoutReport,
+  TimestampCheck,
+  TimestampMetadata,
+  buildReportMetadata,
+} from './report-parser';
+import { formatTimestamp, getVideoMetadata, secondsToTimestamp } from './video-processing';
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+// Players and the model round differently; a second past the end is still the end
+const DURATION_TOLERANCE_SECONDS = 1;
+
+// Above this share of invalid timestamps the report is flagged for regeneration
+export const REGENERATE_INVALID_RATE = 0.2;
+
+/**
+ * True if a moment can exist in footage of this length. Unknown durations
+ * (0, NaN, Infinity for some streams) can't rule anything out.
+ */
+export function isWithinDuration(seconds: number, duration?: number): boolean {
+  if (!duration || !Number.isFinite(duration)) return true;
+  return seconds >= 0 && seconds <= duration + DURATION_TOLERANCE_SECONDS;
+}
+
+/**
+ * One duration for all the footage, or one per video (indexed by videoId - 1)
+ * when timestamps name the video they are in. 0 means unknown.
+ */
+export type FootageDuration = number | number[];
+
+/**
+ * Duration of each video, 0 for any that couldn't be read.
+ */
+export async function getVideoDurations(videos: File[]): Promise<number[]> {
+  const durations = await Promise.all(videos.map(file =>
+    getVideoMetadata(file).then(m => m.duration, () => 0)
+  ));
+  return durations.map(d => (Number.isFinite(d) ? d : 0));
+}
+
+/**
+ * Longest duration among the videos, or null if none could be read.
+ * Several videos are checked against the longest, since any of them may be cited.
+ */
+export async function getFootageDuration(videos: File[]): Promise<number | null> {
+  const longest = Math.max(0, ...await getVideoDurations(videos));
+  return longest > 0 ? longest : null;
+}
+
+const durationOf = (ts: Timestamp, duration: FootageDuration): number =>
+  typeof duration === 'number' ? duration : duration[(ts.videoId ?? 1) - 1] ?? 0;
+
+const mark = (ts: Timestamp, footage: FootageDuration): Timestamp => {
+  const duration = durationOf(ts, footage);
+  if (ts.invalid) return ts;
+  if (!isWithinDuration(ts.seconds, duration)) return { ...ts, invalid: true };
+  // A range that starts in the footage but runs past it is cut at the end
+  if (ts.end !== undefined && !isWithinDuration(ts.end, duration)) {
+    return { ...ts, end: duration, endTime: formatTimestamp(duration) };
+  }
+  return ts;
+};
+
+const markSection = (section: ReportSection, duration: FootageDuration): ReportSection => ({
+  ...section,
+  timestamps: section.timestamps.map(ts => mark(ts, duration)),
+  subsections: section.subsections?.map(s => markSection(s, duration)),
+});
+
+const markFinding = (finding: Finding, duration: FootageDuration): Finding => ({
+  ...finding,
+  timestamps: finding.timestamps.map(ts => mark(ts, duration)),
+  verification: finding.verification && {
+    ...finding.verification,
+    instances: finding.verification.instances.map(ts => mark(ts, duration)),
+  },
+});
+
+/**
+ * Counts distinct cited moments and how many of them are flagged invalid.
+ */
+function countTimestamps(timestamps: Timestamp[], duration: FootageDuration): TimestampCheck {
+  const seen = new Map<string, boolean>();
+  for (const ts of timestamps) {
+    const key = `${ts.videoId ?? 1}:${ts.seconds}`;
+    seen.set(key, (seen.get(key) ?? false) || !!ts.invalid);
+  }
+  const flags = [...seen.values()];
+  const counts = { total: flags.length, invalid: flags.filter(Boolean).length };
+  return typeof duration === 'number'
+    ? { duration, ...counts }
+    : { duration: Math.max(0, ...duration), ...counts, videoCount: duration.length };
+}
+
+/**
+ * The warning shown with the report, or null when every timestamp is in range.
+ */
+export function describeTimestampCheck(check: TimestampCheck): string | null {
+  if (check.invalid === 0) return null;
+  const rate = Math.round((check.invalid / check.total) * 100);
+  const video = check.videoCount ? 'video they cite' : `${secondsToTimestamp(check.duration)} video`;
+  return `${check.invalid} of ${check.total} timestamps (${rate}%) are past the end of the ` +
+    `${video} and were marked invalid; the model likely made them up.`;
+}
+
+export function shouldRegenerate(metadata?: TimestampMetadata): boolean {
+  const check = metadata?.timestampCheck;
+  return !!check && check.total > 0 && check.invalid / check.total > REGENERATE_INVALID_RATE;
+}
+
+const withCheck = <M extends TimestampMetadata>(metadata: M, check: TimestampCheck): M => {
+  const warning = describeTimestampCheck(check);
+  return {
+    ...metadata,
+    timestampCheck: check,
+    validationWarnings: [...(metadata.validationWarnings ?? []), ...(warning ? [warning] : [])],
+  };
+};
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Flags every timestamp outside [0, duration] as invalid and records the
+ * hallucination rate in the metadata. Flags already set (e.g. against a
+ * shorter segment) are kept.
+ */
+export function validateSelfScoutTimestamps(report: SelfScoutReport, duration: number): SelfScoutReport {
+  const findings = report.findings.map(f => markFinding(f, duration));
+  const strengths = report.strengths.map(f => markFinding(f, duration));
+  const sections = report.sections.map(s => markSection(s, duration));
+  const timestamps = report.timestamps.map(ts => mark(ts, duration));
+  const progress = report.progress && {
+    ...report.progress,
+    issues: report.progress.issues.map(issue => ({
+      ...issue,
+      currentEvidence: issue.currentEvidence.map(ts => mark(ts, duration)),
+    })),
+  };
+
+  const check = countTimestamps([
+    ...timestamps,
+    ...findings.flatMap(f => f.timestamps),
+    ...strengths.flatMap(f => f.timestamps),
+  ], duration);
+
+  return {
+    ...report,
+    findings,
+    strengths,
+    sections,
+    timestamps,
+    progress,
+    metadata: withCheck(buildReportMetadata(findings, strengths), check),
+  };
+}
+
+export function validateOpponentTimestamps(report: OpponentReport, duration: FootageDuration): OpponentReport {
+  const strengths = report.strengths.map(f => markFinding(f, duration));
+  const weaknesses = report.weaknesses.map(f => markFinding(f, duration));
+  const decisionTree = report.decisionTree.map(node => ({
+    ...node,
+    timestamp: node.timestamp && mark(node.timestamp, duration),
+  }));
+  const mostUtilizedTechniques = report.mostUtilizedTechniques.map(t => ({
+    ...t,
+    timestamps: t.timestamps.map(ts => mark(ts, duration)),
+  }));
+  const sections = report.sections.map(s => markSection(s, duration));
+  const timestamps = report.timestamps.map(ts => mark(ts, duration));
+
+  const check = countTimestamps([
+    ...timestamps,
+    ...strengths.flatMap(f => f.timestamps),
+    ...weaknesses.flatMap(f => f.timestamps),
+    ...decisionTree.flatMap(n => (n.timestamp ? [n.timestamp] : [])),
+    ...mostUtilizedTechniques.flatMap(t => t.timestamps),
+  ], duration);
+
+  return {
+    ...report,
+    strengths,
+    weaknesses,
+    decisionTree,
+    mostUtilizedTechniques,
+    sections,
+    timestamps,
+    metadata: withCheck(buildReportMetadata(weaknesses, strengths), check),
+  };
+}
+
+/**
+ * Flags game plan timestamps past the end of their own tape and records the
+ * hallucination rate across both. Either duration may be unknown, in which
+ * case that tape's timestamps are left as they are.
+ */
+export function validateGamePlanTimestamps(
+  report: GamePlanReport,
+  durations: Record<GamePlanFootage, number | null>
+): GamePlanReport {
+  const markFootage = (footage: FootageTimestamps): FootageTimestamps => ({
+    user: footage.user.map(ts => (durations.user ? mark(ts, durations.user) : ts)),
+    opponent: footage.opponent.map(ts => (durations.opponent ? mark(ts, durations.opponent) : ts)),
+  });
+  const sections = report.sections.map(s => ({ ...s, footage: markFootage(s.footage) }));
+  const rounds = report.rounds.map(r => ({ ...r, footage: markFootage(r.footage) }));
+  const find = (section: GamePlanReport['matchup']) => (section && sections.find(s => s.id === section.id)) ?? null;
+
+  // Each tape is counted against its own length, as with several scouting videos
+  const footage = [...sections, ...rounds].map(s => s.footage);
+  const counts = (['user', 'opponent'] as GamePlanFootage[]).map(tape =>
+    countTimestamps(footage.flatMap(f => f[tape]), durations[tape] ?? 0)
+  );
+  const check: TimestampCheck = {
+    duration: Math.max(...counts.map(c => c.duration)),
+    total: counts.reduce((sum, c) => sum + c.total, 0),
+    invalid: counts.reduce((sum, c) => sum + c.invalid, 0),
+    videoCount: counts.length,
+  };
+
+  return {
+    ...report,
+    sections,
+    matchup: find(report.matchup),
+    blueprint: find(report.blueprint),
+    rounds,
+    metadata: withCheck({}, check),
+  };
+}
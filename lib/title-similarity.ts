@@ -0,0 +1,52 @@
+// ============================================================================
+// WORDS
+// ============================================================================
+
+// Share of significant words two titles need in common to be the same thing
+export const SIMILARITY_THRESHOLD = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'at', 'after', 'for', 'from', 'he', 'her', 'his', 'in', 'into', 'is', 'it', 'of', 'on',
+  'or', 'she', 'the', 'their', 'they', 'to', 'too', 'very', 'when', 'while', 'with',
+]);
+
+// A rough stem, enough for "drops", "dropping" and "dropped" to match
+const stem = (word: string) =>
+  word.length <= 3 ? word : word.replace(/(ing|ed|es|s)$/, '').replace(/(.)\1$/, '$1').replace(/e$/, '');
+
+/**
+ * The significant words of a title, stemmed.
+ */
+export const titleWords = (title: string) =>
+  new Set(
+    title
+      .toLowerCase()
+      .replace(/\*\*/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(w => w && !STOPWORDS.has(w))
+      .map(stem)
+  );
+
+// ============================================================================
+// SIMILARITY
+// ============================================================================
+
+/**
+ * Overlap of two word sets (Jaccard). A short title wholly contained in a
+ * longer one also matches, e.g. "Overhand right" and "Loops the overhand right".
+ */
+export function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(w => b.has(w)).length;
+  if (shared === Math.min(a.size, b.size) && shared >= 2) return 1;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * True if two titles, worded by different reports or segments, name the same
+ * pattern. Identical titles always match, even when they are all stopwords.
+ */
+export function isSimilarTitle(a: string, b: string): boolean {
+  if (a.trim().toLowerCase() === b.trim().toLowerCase()) return true;
+  return titleSimilarity(titleWords(a), titleWords(b)) >= SIMILARITY_THRESHOLD;
+}
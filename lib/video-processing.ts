@@ -1,27 +1,124 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
+// Bundled with the app (served same-origin) so FFmpeg works offline
+import ffmpegCoreURL from '@ffmpeg/core?url';
+import ffmpegWasmURL from '@ffmpeg/core/wasm?url';
+import ffmpegCoreMtURL from '@ffmpeg/core-mt?url';
+import ffmpegWasmMtURL from '@ffmpeg/core-mt/wasm?url';
+import ffmpegWorkerMtURL from '@ffmpeg/core-mt/worker?url';
+import { createAbortError, isAbortError, throwIfAborted } from './abort';
+
+// --- TIMESTAMPS ---
+
+// Frame rate assumed for frame-number timestamps when the video's own is unknown
+export const DEFAULT_FRAME_RATE = 30;
 
 /**
- * Converts a timestamp string (MM:SS) to seconds.
+ * Regex source for one clock time: "M:SS", "MM:SS" or "H:MM:SS", each with an
+ * optional fraction of a second ("1:23.5").
  */
-export function timestampToSeconds(timestamp: string): number {
-  const parts = timestamp.split(':').map(Number);
-  if (parts.length === 2) {
-    return parts[0] * 60 + parts[1];
-  }
-  if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+export const CLOCK_TIME_PATTERN = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:\.\d{1,3})?`;
+
+/**
+ * Regex source for any cited time: a clock time or a frame number ("f2505",
+ * "frame 2505"). Frame numbers are only recognised inside brackets.
+ */
+export const TIME_PATTERN = String.raw`${CLOCK_TIME_PATTERN}|f(?:rame\s*)?\d+`;
+
+/**
+ * Regex source for a time or a range of times ("1:23-1:30"). No capture groups.
+ */
+export const TIME_RANGE_PATTERN = String.raw`(?:${TIME_PATTERN})(?:\s*-\s*(?:${TIME_PATTERN}))?`;
+
+/**
+ * Regex source for the video a timestamp is in when several are attached:
+ * "V2 " in [V2 3:14]. No capture groups.
+ */
+export const VIDEO_REF_PATTERN = String.raw`V\d+\s*:?\s+`;
+
+/**
+ * Regex source for a bracketed reference such as [1:23], (1:02:03.5), [f2505],
+ * a range [1:23-1:30] or one naming its video [V2 3:14]. No capture groups.
+ */
+export const TIMESTAMP_REF_PATTERN = String.raw`[\[\(](?:${VIDEO_REF_PATTERN})?${TIME_RANGE_PATTERN}[\]\)]`;
+
+export interface ParsedTime {
+  seconds: number;
+  time: string; // Normalised for display: "1:23", "1:02:03", "1:23.5" or "f2505"
+  frame?: number; // Set when cited as a frame number
+  fractionDigits: number; // Precision the time was cited with
+}
+
+/**
+ * Parses one cited time (see TIME_PATTERN). Frame numbers are converted at
+ * `frameRate`. Returns null for anything else.
+ */
+export function parseTimestamp(text: string, frameRate = DEFAULT_FRAME_RATE): ParsedTime | null {
+  const value = text.trim();
+
+  const frameMatch = value.match(/^f(?:rame\s*)?(\d+)$/i);
+  if (frameMatch) {
+    const frame = Number(frameMatch[1]);
+    return { seconds: frame / frameRate, time: `f${frame}`, frame, fractionDigits: 0 };
   }
-  return 0;
+
+  const clockMatch = value.match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\.(\d{1,3}))?$/);
+  if (!clockMatch) return null;
+  const [, hours = '0', mins, secs, fraction = ''] = clockMatch;
+  const seconds = Number(hours) * 3600 + Number(mins) * 60 + Number(`${secs}.${fraction || '0'}`);
+  return { seconds, time: formatTimestamp(seconds, fraction.length), fractionDigits: fraction.length };
 }
 
 /**
- * Converts seconds to a timestamp string (MM:SS).
+ * Parses a time or a range ("1:23-1:30"). An end that doesn't come after the
+ * start is dropped, leaving a single moment.
  */
-export function secondsToTimestamp(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+export function parseTimestampRange(text: string, frameRate = DEFAULT_FRAME_RATE): { start: ParsedTime; end?: ParsedTime } | null {
+  const match = text.trim().match(new RegExp(String.raw`^(${TIME_PATTERN})(?:\s*-\s*(${TIME_PATTERN}))?$`));
+  const start = match && parseTimestamp(match[1], frameRate);
+  if (!start) return null;
+  const end = match[2] ? parseTimestamp(match[2], frameRate) : null;
+  return end && end.seconds > start.seconds ? { start, end } : { start };
+}
+
+/**
+ * Converts a timestamp string ("MM:SS", "H:MM:SS", "MM:SS.s" or a frame
+ * number) to seconds, or 0 if it can't be read.
+ */
+export function timestampToSeconds(timestamp: string, frameRate = DEFAULT_FRAME_RATE): number {
+  return parseTimestamp(timestamp, frameRate)?.seconds ?? 0;
+}
+
+const splitSeconds = (seconds: number, fractionDigits: number) => {
+  // Truncate like a player clock; the epsilon keeps 83.5 from reading as 83.4999
+  const scale = 10 ** fractionDigits;
+  const total = Math.floor(Math.max(0, seconds) * scale + 1e-6) / scale;
+  const whole = Math.floor(total);
+  return {
+    hours: Math.floor(whole / 3600),
+    mins: Math.floor((whole % 3600) / 60),
+    secs: whole % 60,
+    fraction: fractionDigits > 0 ? (total - whole).toFixed(fractionDigits).slice(1) : '',
+  };
+};
+
+/**
+ * Formats seconds the way reports cite them: "1:23", "1:02:03" past the hour,
+ * with `fractionDigits` decimals for slow-motion work ("1:23.5").
+ */
+export function formatTimestamp(seconds: number, fractionDigits = 0): string {
+  const { hours, mins, secs, fraction } = splitSeconds(seconds, fractionDigits);
+  const ss = `${secs.toString().padStart(2, '0')}${fraction}`;
+  return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${ss}` : `${mins}:${ss}`;
+}
+
+/**
+ * Converts seconds to a clock string: "MM:SS", or "H:MM:SS" past the hour.
+ */
+export function secondsToTimestamp(seconds: number, fractionDigits = 0): string {
+  const { hours, mins, secs, fraction } = splitSeconds(seconds, fractionDigits);
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${fraction}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
 }
 
 export interface VideoMetadata {
@@ -52,10 +149,55 @@ export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
   });
 }
 
+const HASH_SAMPLE_BYTES = 4 * 1024 * 1024;
+
 /**
- * Generates a thumbnail image from a video at a specific time.
+ * Computes a SHA-256 fingerprint of a file (hex).
+ * Large files are sampled (head, middle, tail + size) so fight-length videos
+ * can be identified without reading hundreds of MB into memory.
  */
-export async function generateThumbnail(file: File, timeInSeconds: number = 1): Promise<string> {
+export async function computeFileHash(
+  file: File,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const slices: Blob[] = [];
+
+  if (file.size <= HASH_SAMPLE_BYTES * 3) {
+    slices.push(file);
+  } else {
+    const middle = Math.floor(file.size / 2 - HASH_SAMPLE_BYTES / 2);
+    slices.push(
+      new Blob([String(file.size)]),
+      file.slice(0, HASH_SAMPLE_BYTES),
+      file.slice(middle, middle + HASH_SAMPLE_BYTES),
+      file.slice(file.size - HASH_SAMPLE_BYTES),
+    );
+  }
+
+  // Read slice by slice so progress moves while the samples load
+  const total = slices.reduce((sum, slice) => sum + slice.size, 0);
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const slice of slices) {
+    throwIfAborted(signal);
+    data.set(new Uint8Array(await slice.arrayBuffer()), offset);
+    offset += slice.size;
+    onProgress?.(total > 0 ? Math.round((offset / total) * 100) : 100);
+  }
+
+  throwIfAborted(signal);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generates a thumbnail image from a video at a specific time, scaled down
+ * to `maxWidth` when given.
+ */
+export async function generateThumbnail(file: File, timeInSeconds: number = 1, maxWidth?: number): Promise<string> {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     video.crossOrigin = 'anonymous';
@@ -64,8 +206,9 @@ export async function generateThumbnail(file: File, timeInSeconds: number = 1):
 
     const onSeeked = () => {
       const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      const scale = maxWidth ? Math.min(1, maxWidth / video.videoWidth) : 1;
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
@@ -93,82 +236,578 @@ export async function generateThumbnail(file: File, timeInSeconds: number = 1):
   });
 }
 
+// --- FFMPEG ---
+
+let ffmpeg: FFmpeg | null = null;
+let ffmpegQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Loads the shared FFmpeg instance on first use. On a cross-origin isolated
+ * page (see vite.config.ts) that is the multi-threaded core, several times
+ * faster at encoding; elsewhere the single-threaded one.
+ */
+async function loadFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpeg) {
+    ffmpeg = new FFmpeg();
+  }
+
+  if (!ffmpeg.loaded) {
+    await ffmpeg.load(self.crossOriginIsolated
+      ? {
+          coreURL: await toBlobURL(ffmpegCoreMtURL, 'text/javascript'),
+          wasmURL: await toBlobURL(ffmpegWasmMtURL, 'application/wasm'),
+          workerURL: await toBlobURL(ffmpegWorkerMtURL, 'text/javascript'),
+        }
+      : {
+          coreURL: await toBlobURL(ffmpegCoreURL, 'text/javascript'),
+          wasmURL: await toBlobURL(ffmpegWasmURL, 'application/wasm'),
+        });
+  }
+
+  return ffmpeg;
+}
+
 /**
- * Extracts a clip from a video (Mock implementation for browser).
+ * Runs one job at a time on the shared FFmpeg instance, with progress (0-100)
+ * and cancellation. Aborting the signal kills the FFmpeg worker and rejects
+ * with an AbortError.
+ */
+function runFFmpegJob<T>(
+  job: (instance: FFmpeg) => Promise<T>,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const run = async () => {
+    // ffmpeg.wasm can't interrupt a running exec; terminating the worker is the only way
+    const onAbort = () => {
+      ffmpeg?.terminate();
+      ffmpeg = null;
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const handleProgress = ({ progress }: { progress: number }) => {
+      onProgress?.(Math.min(100, Math.max(0, Math.round(progress * 100))));
+    };
+
+    let instance: FFmpeg | null = null;
+    try {
+      throwIfAborted(signal);
+      instance = await loadFFmpeg();
+      throwIfAborted(signal);
+      instance.on('progress', handleProgress);
+      return await job(instance);
+    } catch (err) {
+      if (signal?.aborted || isAbortError(err)) {
+        throw createAbortError();
+      }
+      throw err;
+    } finally {
+      instance?.off('progress', handleProgress);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  const result = ffmpegQueue.then(run, run);
+  ffmpegQueue = result.catch(() => undefined);
+  return result;
+}
+
+// --- CLIP EXTRACTION ---
+
+// 3 s before and 5 s after a timestamp: the setup and the exchange behind a finding
+export const DEFAULT_CLIP_LEAD_IN = 3;
+export const DEFAULT_CLIP_LEAD_OUT = 5;
+
+export interface ClipOptions {
+  leadIn?: number; // Seconds before the timestamp
+  leadOut?: number; // Seconds after the timestamp
+  duration?: number; // Source duration, to keep the clip inside the video
+  until?: number; // End of a cited range; the clip runs to it, then leadOut
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Start and end (seconds) of the clip around a timestamp or range.
+ */
+export function getClipRange(
+  seconds: number,
+  { leadIn = DEFAULT_CLIP_LEAD_IN, leadOut = DEFAULT_CLIP_LEAD_OUT, duration, until }: Pick<ClipOptions, 'leadIn' | 'leadOut' | 'duration' | 'until'> = {}
+): { start: number; end: number } {
+  const start = Math.max(0, seconds - leadIn);
+  const last = Math.max(seconds, until ?? seconds) + leadOut;
+  const end = duration && duration > 0 ? Math.min(duration, last) : last;
+  return { start, end: Math.max(end, start + 0.1) };
+}
+
+/**
+ * Cuts [startTime, endTime] out of a video (a File or a fetchable/object URL)
+ * into a new MP4. The clip is re-encoded so it starts exactly at startTime
+ * instead of the previous keyframe.
  */
 export async function extractClip(
-  videoUrl: string,
+  source: File | Blob | string,
   startTime: number,
-  endTime: number
-): Promise<string> {
-  console.warn("Client-side clipping not fully implemented without ffmpeg.wasm. Returning original URL.");
-  return videoUrl; // Placeholder
+  endTime: number,
+  { onProgress, signal }: Pick<ClipOptions, 'onProgress' | 'signal'> = {}
+): Promise<Blob> {
+  if (endTime <= startTime) {
+    throw new Error(`Invalid clip range: ${startTime}s to ${endTime}s`);
+  }
+
+  const data = await fetchFile(source);
+  throwIfAborted(signal);
+
+  return runFFmpegJob(async (instance) => {
+    // Unique names so a terminated job can't leave files that clash with the next one
+    const id = crypto.randomUUID().slice(0, 8);
+    const inputName = `clip-in-${id}`;
+    const outputName = `clip-out-${id}.mp4`;
+
+    await instance.writeFile(inputName, data);
+    try {
+      // -ss before -i seeks fast; with re-encoding the cut is still frame-accurate
+      const exitCode = await instance.exec([
+        '-ss', startTime.toFixed(3),
+        '-i', inputName,
+        '-t', (endTime - startTime).toFixed(3),
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', '23',
+        '-c:a', 'aac',
+        '-movflags', '+faststart',
+        outputName,
+      ]);
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} while cutting the clip`);
+      }
+
+      const output = await instance.readFile(outputName);
+      await instance.deleteFile(outputName);
+      return new Blob([output as Uint8Array], { type: 'video/mp4' });
+    } finally {
+      await instance.deleteFile(inputName).catch(() => undefined);
+    }
+  }, onProgress, signal);
 }
 
+/**
+ * Cuts the clip around a timestamp, named after the source and the moment
+ * (e.g. "sparring_1-36.mp4").
+ */
+export async function extractTimestampClip(
+  source: File | Blob | string,
+  seconds: number,
+  fileName: string,
+  options: ClipOptions = {}
+): Promise<File> {
+  const { start, end } = getClipRange(seconds, options);
+  const blob = await extractClip(source, start, end, options);
+  const base = fileName.replace(/\.[^.]+$/, '') || 'clip';
+  const moment = secondsToTimestamp(seconds).replace(/:/g, '-').replace(/^0(?=\d)/, '');
+  return new File([blob], `${base}_${moment}.mp4`, { type: 'video/mp4' });
+}
+
+// --- SEGMENTATION ---
+
+/**
+ * One piece cut by splitVideo. It starts on the keyframe at or before the
+ * planned start, so `start` can be a little earlier than the range asked for.
+ */
+export interface SplitPiece {
+  file: File;
+  start: number; // Seconds in the original video
+}
+
+// showinfo logs one line per decoded frame: "... n:  12 pts: 3600 pts_time:12.012 ..."
+const PTS_TIME_REGEX = /pts_time:\s*(-?\d+(?:\.\d+)?)/;
+
+// A seek just past a keyframe still lands on it, whatever the rounding of the logged time
+const KEYFRAME_SEEK_MARGIN = 0.001;
+
+/**
+ * Splits a long video into pieces, one per range (seconds), named
+ * "<name>_part1.mp4" and so on. The streams are copied, not re-encoded, so
+ * even a full fight on the single-threaded core splits in about the time it
+ * takes to read it. A copy can only start on a keyframe, so each piece starts
+ * on the keyframe before its range and reports that start, for its
+ * timestamps to be shifted by.
+ */
+export async function splitVideo(
+  file: File,
+  ranges: { start: number; end: number }[],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitPiece[]> {
+  const data = await fetchFile(file);
+  throwIfAborted(signal);
+
+  // FFmpeg reports progress per exec; spread it over the keyframe pass and every piece
+  let current = 0;
+  const reportProgress = (progress: number) =>
+    onProgress?.(Math.round((current * 100 + progress) / (ranges.length + 1)));
+
+  return runFFmpegJob(async (instance) => {
+    const id = crypto.randomUUID().slice(0, 8);
+    const inputName = `split-in-${id}`;
+    const base = file.name.replace(/\.[^.]+$/, '') || 'video';
+
+    await instance.writeFile(inputName, data);
+    try {
+      // 1. Keyframe times. -skip_frame nokey decodes nothing else, so this pass is quick
+      const keyframes: number[] = [];
+      const onLog = ({ message }: { message: string }) => {
+        const match = message.match(PTS_TIME_REGEX);
+        if (match) keyframes.push(Number(match[1]));
+      };
+      instance.on('log', onLog);
+      let exitCode: number;
+      try {
+        exitCode = await instance.exec([
+          '-skip_frame', 'nokey',
+          '-i', inputName,
+          '-map', '0:v:0',
+          '-vf', 'showinfo',
+          '-f', 'null', '-',
+        ]);
+      } finally {
+        instance.off('log', onLog);
+      }
+      if (exitCode !== 0 || keyframes.length === 0) {
+        throw new Error(`FFmpeg could not read the keyframes of ${file.name}`);
+      }
+      // Seeks count from the start of the file, frame times from the stream's first frame
+      const origin = Math.min(...keyframes);
+      const times = keyframes.map(t => t - origin).sort((a, b) => a - b);
+      const keyframeBefore = (seconds: number) =>
+        times.filter(t => t <= seconds + KEYFRAME_SEEK_MARGIN).pop() ?? 0;
+
+      // 2. One stream copy per range, from its keyframe
+      const parts: SplitPiece[] = [];
+      for (const [index, range] of ranges.entries()) {
+        current = index + 1;
+        const start = keyframeBefore(range.start);
+        const outputName = `split-out-${id}-${index}.mp4`;
+        exitCode = await instance.exec([
+          '-ss', (start + KEYFRAME_SEEK_MARGIN).toFixed(3),
+          '-i', inputName,
+          '-t', (range.end - start).toFixed(3),
+          '-c', 'copy',
+          '-avoid_negative_ts', 'make_zero',
+          '-movflags', '+faststart',
+          outputName,
+        ]);
+        if (exitCode !== 0) {
+          throw new Error(`FFmpeg exited with code ${exitCode} while splitting part ${index + 1}`);
+        }
+
+        const output = await instance.readFile(outputName);
+        await instance.deleteFile(outputName);
+        parts.push({
+          file: new File([output as Uint8Array], `${base}_part${index + 1}.mp4`, { type: 'video/mp4' }),
+          start,
+        });
+      }
+      return parts;
+    } finally {
+      await instance.deleteFile(inputName).catch(() => undefined);
+    }
+  }, reportProgress, signal);
+}
+
+// --- HIGHLIGHT REELS ---
+
+export interface ReelSegment {
+  start: number; // Seconds in the source video
+  end: number;
+  caption: string; // Title card shown before the clip
+  subcaption?: string;
+}
+
+export interface ReelOptions {
+  title: string; // Opening title card
+  subtitle?: string;
+  cardSeconds?: number; // How long each title card is shown
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+const REEL_WIDTH = 1280;
+const REEL_HEIGHT = 720;
+const REEL_FPS = 30;
+
+// Letterbox everything into one frame size so pieces can be joined
+const REEL_VIDEO_FILTER = `scale=${REEL_WIDTH}:${REEL_HEIGHT}:force_original_aspect_ratio=decrease,pad=${REEL_WIDTH}:${REEL_HEIGHT}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+
+// Every piece is encoded identically so the concat demuxer can join them without re-encoding.
+// Title cards have no audio track, so reels are silent.
+const REEL_ENCODE_ARGS = [
+  '-vf', REEL_VIDEO_FILTER,
+  '-r', String(REEL_FPS),
+  '-c:v', 'libx264',
+  '-preset', 'veryfast',
+  '-crf', '23',
+  '-pix_fmt', 'yuv420p',
+  '-an',
+];
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Draws a title card as a PNG.
+ */
+async function renderTitleCard(title: string, subtitle?: string): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = REEL_WIDTH;
+  canvas.height = REEL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, REEL_WIDTH, REEL_HEIGHT);
+  ctx.fillStyle = '#ef4444';
+  ctx.fillRect(REEL_WIDTH / 2 - 60, REEL_HEIGHT / 2 - 110, 120, 6);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 56px sans-serif';
+  const titleLines = wrapText(ctx, title, REEL_WIDTH - 200).slice(0, 3);
+  const titleTop = REEL_HEIGHT / 2 - ((titleLines.length - 1) * 68) / 2 - (subtitle ? 30 : 0);
+  titleLines.forEach((line, i) => ctx.fillText(line, REEL_WIDTH / 2, titleTop + i * 68));
+
+  if (subtitle) {
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '32px sans-serif';
+    const subtitleLines = wrapText(ctx, subtitle, REEL_WIDTH - 240).slice(0, 2);
+    const subtitleTop = titleTop + titleLines.length * 68 + 20;
+    subtitleLines.forEach((line, i) => ctx.fillText(line, REEL_WIDTH / 2, subtitleTop + i * 42));
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not render title card');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Stitches segments of a video into one MP4, with an opening title card and
+ * a card before each clip.
+ */
+export async function buildHighlightReel(
+  source: File | Blob | string,
+  segments: ReelSegment[],
+  { title, subtitle, cardSeconds = 2, onProgress, signal }: ReelOptions
+): Promise<Blob> {
+  if (segments.length === 0) {
+    throw new Error('Nothing to put in the reel: no timestamps were cited.');
+  }
+
+  const data = await fetchFile(source);
+  const openingCard = await renderTitleCard(title, subtitle);
+  const segmentCards = await Promise.all(segments.map(s => renderTitleCard(s.caption, s.subcaption)));
+  throwIfAborted(signal);
+
+  return runFFmpegJob(async (instance) => {
+    const id = crypto.randomUUID().slice(0, 8);
+    const inputName = `reel-in-${id}`;
+    const listName = `reel-list-${id}.txt`;
+    const outputName = `reel-out-${id}.mp4`;
+    const written: string[] = [inputName];
+
+    // Progress across all the encodes: each exec reports 0-1 for itself
+    const totalSteps = 2 + segments.length * 2;
+    let step = 0;
+    const handleProgress = ({ progress }: { progress: number }) => {
+      const within = Math.min(1, Math.max(0, progress));
+      onProgress?.(Math.round(((step + within) / totalSteps) * 100));
+    };
+    instance.on('progress', handleProgress);
+
+    const run = async (args: string[]) => {
+      const exitCode = await instance.exec(args);
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} while building the reel`);
+      }
+      step++;
+      onProgress?.(Math.round((step / totalSteps) * 100));
+    };
+
+    const encodeCard = async (png: Uint8Array, name: string) => {
+      const pngName = `${name}.png`;
+      await instance.writeFile(pngName, png);
+      written.push(pngName, name);
+      await run(['-loop', '1', '-framerate', String(REEL_FPS), '-i', pngName, '-t', String(cardSeconds), ...REEL_ENCODE_ARGS, name]);
+    };
+
+    try {
+      await instance.writeFile(inputName, data);
+      const pieces: string[] = [];
+
+      const opening = `reel-${id}-title.mp4`;
+      await encodeCard(openingCard, opening);
+      pieces.push(opening);
+
+      for (let i = 0; i < segments.length; i++) {
+        const { start, end } = segments[i];
+        const card = `reel-${id}-card-${i}.mp4`;
+        const clip = `reel-${id}-clip-${i}.mp4`;
+
+        await encodeCard(segmentCards[i], card);
+        written.push(clip);
+        await run(['-ss', start.toFixed(3), '-i', inputName, '-t', (end - start).toFixed(3), ...REEL_ENCODE_ARGS, clip]);
+        pieces.push(card, clip);
+      }
+
+      await instance.writeFile(listName, pieces.map(p => `file '${p}'`).join('\n'));
+      written.push(listName, outputName);
+      await run(['-f', 'concat', '-safe', '0', '-i', listName, '-c', 'copy', '-movflags', '+faststart', outputName]);
+
+      const output = await instance.readFile(outputName);
+      return new Blob([output as Uint8Array], { type: 'video/mp4' });
+    } finally {
+      instance.off('progress', handleProgress);
+      await Promise.all(written.map(name => instance.deleteFile(name).catch(() => undefined)));
+    }
+  }, undefined, signal);
+}
 
 // --- FFMPEG COMPRESSION ---
 
-let ffmpeg: FFmpeg | null = null;
+export type CompressionProfileId = 'original' | 'fast-preview' | 'archival' | 'audio-kept';
+
+export interface CompressionProfile {
+  id: CompressionProfileId;
+  label: string;
+  description: string;
+  maxHeight?: number; // Downscale to this height, keeping aspect; unset keeps the resolution
+  crf?: number; // x264 quality: lower is better and bigger
+  preset?: string; // x264 speed/size trade-off
+  keepAudio: boolean;
+}
+
+export const COMPRESSION_PROFILES: Record<CompressionProfileId, CompressionProfile> = {
+  original: {
+    id: 'original',
+    label: 'Original',
+    description: 'Sends the file exactly as recorded',
+    keepAudio: true,
+  },
+  'fast-preview': {
+    id: 'fast-preview',
+    label: 'Fast preview',
+    description: '720p, high compression, no audio. Smallest upload',
+    maxHeight: 720,
+    crf: 28,
+    preset: 'ultrafast',
+    keepAudio: false,
+  },
+  'audio-kept': {
+    id: 'audio-kept',
+    label: 'Audio kept',
+    description: '720p with audio, for corner instructions and crowd reactions',
+    maxHeight: 720,
+    crf: 28,
+    preset: 'veryfast',
+    keepAudio: true,
+  },
+  archival: {
+    id: 'archival',
+    label: 'Archival',
+    description: 'Full resolution, near-lossless, audio kept. Slow',
+    crf: 18,
+    preset: 'medium',
+    keepAudio: true,
+  },
+};
+
+/**
+ * What was actually produced, so the UI can say exactly what goes to the model.
+ */
+export interface CompressionResult {
+  file: File;
+  profile: CompressionProfile;
+  compressed: boolean; // False when the original is sent (profile or failure)
+  originalSize: number;
+  failureReason?: string;
+}
+
+/**
+ * Builds the FFmpeg arguments for a profile.
+ */
+export function getCompressionArgs(profile: CompressionProfile, inputName: string, outputName: string): string[] {
+  return [
+    '-i', inputName,
+    // Downscale to maxHeight (never upscale), keep aspect, even width for x264
+    ...(profile.maxHeight ? ['-vf', `scale=-2:'min(${profile.maxHeight},ih)'`] : []),
+    '-c:v', 'libx264',
+    '-crf', String(profile.crf ?? 23),
+    '-preset', profile.preset ?? 'veryfast',
+    ...(profile.keepAudio ? ['-c:a', 'aac', '-b:a', '128k'] : ['-an']),
+    '-movflags', '+faststart',
+    outputName,
+  ];
+}
 
 /**
- * Compresses video and removes audio using FFmpeg.wasm.
- * Falls back to original file if FFmpeg cannot load (e.g. missing COOP/COEP headers).
+ * Re-encodes a video with a compression profile using FFmpeg.wasm.
+ * If FFmpeg fails, the original file is returned with `compressed: false` and
+ * the reason, so callers can tell the user what is being sent instead.
+ * Aborting the signal kills the FFmpeg worker and rejects with an AbortError.
  */
 export async function compressVideo(
   file: File, 
-  onProgress?: (progress: number) => void
-): Promise<File> {
+  profile: CompressionProfile = COMPRESSION_PROFILES['fast-preview'],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<CompressionResult> {
+  const original: CompressionResult = { file, profile, compressed: false, originalSize: file.size };
+  if (profile.id === 'original') return original;
+
   try {
-    if (!ffmpeg) {
-      ffmpeg = new FFmpeg();
-    }
+    const data = await fetchFile(file);
 
-    if (!ffmpeg.loaded) {
-      // Use unpkg URLs for core
-      const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-      await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-      });
-    }
+    const compressed = await runFFmpegJob(async (instance) => {
+      const id = crypto.randomUUID().slice(0, 8);
+      const inputName = `compress-in-${id}`;
+      const outputName = `compress-out-${id}.mp4`;
 
-    const inputName = 'input.mp4';
-    const outputName = 'output.mp4';
-
-    await ffmpeg.writeFile(inputName, await fetchFile(file));
-
-    // FFmpeg log handler for progress
-    ffmpeg.on('progress', ({ progress }) => {
-      if (onProgress) onProgress(Math.round(progress * 100));
-    });
-
-    // Command: 
-    // -i input -c:v libx264 -crf 28 (high compression) 
-    // -preset ultrafast (speed over size) 
-    // -an (remove audio) 
-    // -vf scale=-2:720 (downscale to 720p height max, keep aspect)
-    await ffmpeg.exec([
-      '-i', inputName,
-      '-vf', 'scale=-2:720', 
-      '-c:v', 'libx264', 
-      '-crf', '28', 
-      '-preset', 'ultrafast', 
-      '-an', 
-      outputName
-    ]);
-
-    const data = await ffmpeg.readFile(outputName);
-    const compressedBlob = new Blob([data as Uint8Array], { type: 'video/mp4' });
-    
-    // Cleanup
-    await ffmpeg.deleteFile(inputName);
-    await ffmpeg.deleteFile(outputName);
-
-    return new File([compressedBlob], file.name, { type: 'video/mp4' });
+      await instance.writeFile(inputName, data);
+      try {
+        const exitCode = await instance.exec(getCompressionArgs(profile, inputName, outputName));
+        if (exitCode !== 0) {
+          throw new Error(`FFmpeg exited with code ${exitCode}`);
+        }
+
+        const output = await instance.readFile(outputName);
+        await instance.deleteFile(outputName);
+        return new Blob([output as Uint8Array], { type: 'video/mp4' });
+      } finally {
+        await instance.deleteFile(inputName).catch(() => undefined);
+      }
+    }, onProgress, signal);
+
+    const name = file.name.replace(/\.[^.]+$/, '') + '.mp4';
+    return { ...original, file: new File([compressed], name, { type: 'video/mp4' }), compressed: true };
 
   } catch (err) {
+    if (signal?.aborted || isAbortError(err)) {
+      throw createAbortError();
+    }
     console.error("FFmpeg Compression Failed:", err);
-    console.warn("Returning original file due to compression failure (likely missing SharedArrayBuffer support in this environment).");
-    return file;
+    return { ...original, failureReason: err instanceof Error ? err.message : String(err) };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+/**
+ * Renders the recorded scoring report to PDF, DOCX and Markdown and checks
+ * the files are well formed: the PDF's cross-reference offsets land on their
+ * objects, the DOCX zip's entries match their CRCs and hold balanced XML,
+ * and names outside WinAnsi reach the PDF transliterated rather than as "?".
+ *
+ *   npm run check:exports
+ *
+ * The TypeScript modules are loaded through Vite, as the app loads them.
+ */
+import { createServer } from 'vite';
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+const failures = [];
+const check = (ok, message) => {
+  if (!ok) failures.push(message);
+};
+
+const latin1 = (bytes) => Buffer.from(bytes).toString('latin1');
+
+function checkPdf(bytes) {
+  const text = latin1(bytes);
+  check(text.startsWith('%PDF-1.4'), 'PDF: missing header');
+  check(text.trimEnd().endsWith('%%EOF'), 'PDF: missing %%EOF');
+
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\s*$/)?.[1]);
+  check(text.startsWith('xref\n', startxref), `PDF: startxref ${startxref} is not the xref table`);
+
+  const table = text.slice(startxref).match(/^xref\n0 (\d+)\n((?:\d{10} \d{5} [fn] \n)+)/);
+  check(!!table, 'PDF: unreadable xref table');
+  if (!table) return;
+  const entries = table[2].trim().split('\n').slice(1);
+  check(entries.length === Number(table[1]) - 1, 'PDF: xref size does not match its entries');
+  entries.forEach((entry, i) => {
+    const offset = Number(entry.slice(0, 10));
+    check(text.startsWith(`${i + 1} 0 obj\n`, offset), `PDF: xref offset ${offset} is not object ${i + 1}`);
+  });
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Every element closed in order and every entity one XML knows.
+ */
+function checkXml(name, xml) {
+  const stack = [];
+  for (const [tag, closing, tagName, selfClosing] of xml.replace(/<\?xml[^>]*\?>/, '').matchAll(/<(\/?)([\w:]+)[^>]*?(\/?)>/g)) {
+    if (selfClosing) continue;
+    if (!closing) stack.push(tagName);
+    else if (stack.pop() !== tagName) return check(false, `DOCX: ${name} closes ${tag} out of order`);
+  }
+  check(stack.length === 0, `DOCX: ${name} leaves <${stack.at(-1)}> open`);
+  check(!/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[\da-f]+);)/i.test(xml), `DOCX: ${name} has a bare &`);
+}
+
+function checkDocx(bytes) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  check(view.getUint32(end, true) === 0x06054b50, 'DOCX: no end of central directory');
+  const count = view.getUint16(end + 10, true);
+  let entry = view.getUint32(end + 16, true);
+  const names = [];
+
+  for (let i = 0; i < count; i++) {
+    check(view.getUint32(entry, true) === 0x02014b50, `DOCX: central entry ${i} has a bad signature`);
+    const crc = view.getUint32(entry + 16, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const local = view.getUint32(entry + 42, true);
+    const name = latin1(bytes.subarray(entry + 46, entry + 46 + nameLength));
+    names.push(name);
+
+    check(view.getUint32(local, true) === 0x04034b50, `DOCX: ${name} has no local header`);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + size);
+    check(crc32(data) === crc, `DOCX: ${name} fails its CRC`);
+    if (/\.(xml|rels)$/.test(name)) checkXml(name, new TextDecoder().decode(data));
+
+    entry += 46 + nameLength + view.getUint16(entry + 30, true) + view.getUint16(entry + 32, true);
+  }
+
+  for (const required of ['[Content_Types].xml', '_rels/.rels', 'word/document.xml']) {
+    check(names.includes(required), `DOCX: missing ${required}`);
+  }
+}
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+try {
+  const { RECORDED_RESPONSES } = await server.ssrLoadModule('/services/fixtures/recordedResponses.ts');
+  const { buildExportDocument } = await server.ssrLoadModule('/lib/export-document.ts');
+  const { renderPdf } = await server.ssrLoadModule('/lib/export-pdf.ts');
+  const { renderDocx } = await server.ssrLoadModule('/lib/export-docx.ts');
+  const { renderMarkdown } = await server.ssrLoadModule('/lib/export-markdown.ts');
+
+  // Names and punctuation the model writes that WinAnsi has no code for
+  const report = {
+    ...JSON.parse(RECORDED_RESPONSES.FIGHT_SCORING),
+    fighter_a_name: 'Jiří Procházka',
+    fighter_b_name: 'Jan Błachowicz',
+  };
+  report.overall_summary = `“${report.overall_summary}” — non‑stop pressure.`;
+
+  const doc = await buildExportDocument({ kind: 'scoring', report });
+  const pdf = new Uint8Array(await renderPdf(doc).arrayBuffer());
+  const docx = new Uint8Array(await renderDocx(doc).arrayBuffer());
+
+  checkPdf(pdf);
+  checkDocx(docx);
+  check(renderMarkdown(doc).includes('Jiří Procházka'), 'Markdown: fighter name lost');
+
+  const pdfText = latin1(pdf);
+  check(pdfText.includes('Jir\xed Proch\xe1zka'), 'PDF: "Jiří Procházka" not transliterated to "Jirí Procházka"');
+  check(pdfText.includes('Jan Blachowicz'), 'PDF: "Jan Błachowicz" not transliterated to "Jan Blachowicz"');
+  check(pdfText.includes('non-stop'), 'PDF: non-breaking hyphen not written as "-"');
+  // The fixture has no "?" of its own, so any in the PDF is a character it couldn't encode
+  check(JSON.stringify(doc).includes('?') || !pdfText.includes('?'), 'PDF: a character was written as "?"');
+} finally {
+  await server.close();
+}
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`✗ ${failure}`));
+  process.exit(1);
+}
+console.log('✓ PDF, DOCX and Markdown exports of the scoring fixture are well formed');
@@ -0,0 +1,166 @@
+import { abortableDelay, isAbortError } from "../lib/abort";
+
+// ============================================================================
+// TYPED ERRORS
+// ============================================================================
+
+export type AIErrorKind = 'quota' | 'invalid_media' | 'safety' | 'timeout' | 'malformed_json' | 'unavailable';
+
+/**
+ * Base class for classified model-call failures. `retryable` marks transient
+ * failures that withRetry may attempt again.
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AIErrorKind, message: string, retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/** Rate limit or quota exhausted (HTTP 429). */
+export class QuotaError extends AIServiceError {
+  /** Server-suggested wait before retrying, if it sent one. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('quota', message, true, cause);
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The model rejected an attached file (unsupported codec, corrupt data, bad MIME type). */
+export class InvalidMediaError extends AIServiceError {
+  readonly fileName?: string;
+
+  constructor(message: string, fileName?: string, cause?: unknown) {
+    super('invalid_media', message, false, cause);
+    this.name = 'InvalidMediaError';
+    this.fileName = fileName;
+  }
+}
+
+/** The prompt or response was blocked by safety filters. */
+export class SafetyBlockError extends AIServiceError {
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string, cause?: unknown) {
+    super('safety', message, false, cause);
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+/** The request or file processing took too long. */
+export class ModelTimeoutError extends AIServiceError {
+  constructor(message: string, retryable = true, cause?: unknown) {
+    super('timeout', message, retryable, cause);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/** The model returned output that does not parse as the expected JSON. */
+export class MalformedResponseError extends AIServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('malformed_json', message, true, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/** The service is temporarily down or the network dropped (5xx, connection reset). */
+export class ServiceUnavailableError extends AIServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('unavailable', message, true, cause);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// ============================================================================
+// RETRY
+// ============================================================================
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Extra veto on top of `retryable`, e.g. once streamed text has been shown. */
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (error: AIServiceError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * True if the error is a transient AIServiceError worth another attempt.
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof AIServiceError && error.retryable;
+}
+
+/**
+ * Runs `operation`, retrying transient failures with exponential backoff and
+ * jitter. Aborts and non-retryable errors are rethrown immediately.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30000, signal, shouldRetry, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= maxRetries || !isRetryable(error)) throw error;
+      if (shouldRetry && !shouldRetry(error)) throw error;
+
+      const err = error as AIServiceError;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      const delayMs = err instanceof QuotaError && err.retryAfterMs
+        ? Math.max(err.retryAfterMs, backoff)
+        : backoff;
+
+      console.warn(`${err.name}: retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${maxRetries})`, err);
+      onRetry?.(err, attempt + 1, delayMs);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+}
+
+// ============================================================================
+// USER-FACING MESSAGES
+// ============================================================================
+
+/**
+ * Turns any analysis failure into an actionable message for the UI.
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof AIServiceError) {
+    switch (error.kind) {
+      case 'quota':
+        return 'Rate limit or quota reached. Wait a minute and try again, or check your API plan.';
+      case 'invalid_media': {
+        const file = (error as InvalidMediaError).fileName;
+        return `Video codec or format rejected${file ? ` for "${file}"` : ''} — try compressing the video or converting it to H.264 MP4.`;
+      }
+      case 'safety':
+        return 'The model declined to analyze this content (safety filter). Try a different clip or rephrase your notes.';
+      case 'timeout':
+        return 'The analysis timed out. Try a shorter clip, a quick analysis, or compress the video first.';
+      case 'malformed_json':
+        return 'The model returned an incomplete result. Please run the analysis again.';
+      case 'unavailable':
+        return 'The AI service is temporarily unavailable or your connection dropped. Please try again shortly.';
+    }
+  }
+  if (error instanceof Error && /api key|api_key|permission|unauthenticated/i.test(error.message)) {
+    return 'The API key was rejected. Check that it is valid and has access to the selected model.';
+  }
+  return error instanceof Error && error.message
+    ? `Analysis failed: ${error.message}`
+    : 'Analysis failed. Please try again.';
+}
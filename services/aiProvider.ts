@@ -0,0 +1,95 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createLocalProvider } from "./providers/localProvider";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A single piece of prompt content. Media is passed as the raw File so each
+ * provider decides how (or whether) to encode it.
+ */
+export type PromptPart =
+  | { text: string }
+  | { file: File };
+
+/**
+ * Identifies what a request is for. Providers that replay recorded output
+ * (the local provider) use it to pick a fixture; live providers ignore it.
+ * Usually a PROMPTS template id, or 'CUSTOM' for ad-hoc prompts.
+ */
+export type GenerationTask = string;
+
+export interface UploadProgress {
+  fileName: string;
+  loaded: number; // bytes
+  total: number; // bytes
+}
+
+export interface GenerationRequest {
+  task: GenerationTask;
+  parts: PromptPart[];
+  temperature: number;
+  responseMimeType?: 'text/plain' | 'application/json';
+  responseSchema?: unknown;
+  onUploadProgress?: (progress: UploadProgress) => void;
+  /**
+   * When set, the provider streams the response and reports each text delta
+   * as it arrives. generateContent still resolves with the full text.
+   */
+  onText?: (delta: string) => void;
+  /** Cancels uploads and the model call; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: string;
+  model: string;
+  generateContent(request: GenerationRequest): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'local';
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const DEFAULT_PROVIDER: ProviderId = 'gemini';
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Builds the provider named by AI_PROVIDER (defaults to Gemini).
+ */
+function createProvider(id: string | undefined): AIProvider {
+  switch (id || DEFAULT_PROVIDER) {
+    case 'local':
+      // A little simulated latency so loading and streaming states are visible
+      return createLocalProvider({ latencyMs: 2000 });
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: process.env.API_KEY,
+        model: process.env.GEMINI_MODEL,
+      });
+    default:
+      throw new Error(`Unknown AI provider: ${id}`);
+  }
+}
+
+/**
+ * Returns the active provider, creating it from the environment on first use.
+ */
+export function getProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(process.env.AI_PROVIDER);
+  }
+  return activeProvider;
+}
+
+/**
+ * Overrides the active provider (e.g. to force the local provider in tests).
+ * Pass null to fall back to the environment default again.
+ */
+export function setProvider(provider: AIProvider | null): void {
+  activeProvider = provider;
+}
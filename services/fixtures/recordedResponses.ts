@@ -0,0 +1,459 @@
+// Recorded model responses replayed by the local provider.
+// Keyed by PROMPTS template id; JSON-mode (structured) variants use `<id>_JSON`.
+// Keep these in the exact shape the live model returns so the parser and hooks
+// exercise the same code paths offline.
+
+import { FightAnalysis } from "../../types";
+import { formatTimestampText } from "../../components/video/TimestampMarker";
+import { FighterProfile, Finding, parseReportSections, parseSelfScoutReport, extractStrengths, extractFindings, extractDecisionTree, extractMostUtilizedTechniques } from "../../lib/report-parser";
+import { StructuredFinding, StructuredStrength, StructuredSelfScoutResponse, StructuredOpponentResponse, StructuredIssueChange } from "../../lib/report-schema";
+
+const FIGHT_SCORING: FightAnalysis = {
+  fighter_a_name: 'Fighter A',
+  fighter_b_name: 'Fighter B',
+  rounds: [
+    {
+      round: 1,
+      winner: 'Fighter A',
+      score: '10-9',
+      striking: 'Fighter A landed the cleaner jab and two hard calf kicks.',
+      grappling: 'No takedown attempts from either fighter.',
+      aggression: 'Fighter B walked forward but threw little.',
+      control: 'Fighter A held the center for most of the round.',
+      explanation: 'Fighter A out-landed Fighter B at range with no meaningful return.',
+    },
+    {
+      round: 2,
+      winner: 'Fighter B',
+      score: '10-9',
+      striking: 'Fighter B landed an overhand right that stiffened Fighter A.',
+      grappling: 'Fighter B completed one single leg and held top position for 90 seconds.',
+      aggression: 'Fighter B pressed the pace after the knockdown scare.',
+      control: 'Fighter B controlled the cage and the mat.',
+      explanation: 'The overhand and top control clearly took the round for Fighter B.',
+    },
+    {
+      round: 3,
+      winner: 'Fighter A',
+      score: '10-9',
+      striking: 'Fighter A returned to the jab and body kick, landing at a 2:1 ratio.',
+      grappling: 'Fighter A stuffed three takedown attempts.',
+      aggression: 'Even.',
+      control: 'Fighter A circled well and kept the fight in open space.',
+      explanation: 'Fighter A defended every shot and won the striking exchanges.',
+    },
+  ],
+  fighter_a_strengths: ['Long, stiff jab', 'Takedown defense along the fence', 'Calf kick timing'],
+  fighter_a_weaknesses: ['Drops right hand when jabbing', 'Backs straight up under pressure'],
+  fighter_b_strengths: ['Overhand right power', 'Chain wrestling from the single leg'],
+  fighter_b_weaknesses: ['Low output at range', 'Slow to recover after failed shots'],
+  detected_tells: [
+    'Fighter A dips the left shoulder before the calf kick.',
+    'Fighter B lowers his level a half-step before shooting.',
+  ],
+  overall_rating: 72,
+  overall_summary: 'A competitive three-round fight. Fighter A won the range battle in rounds one and three; Fighter B took round two on power and top control.',
+};
+
+const SELF_SCOUT_FULL = `## OVERALL ASSESSMENT
+**Current Level:** Intermediate amateur
+**Archetype:** Pressure boxer
+
+You walk forward well and your jab is a real weapon, but your defense disappears the moment you commit to combinations. Your takedown defense is reactive rather than anticipatory, and you fade noticeably in the final minute of each round.
+
+## STRIKING SELF-SCOUT
+- What works: the double jab to the body is landing cleanly [0:32], [1:18], [2:40].
+- What doesn't: the lead hook is loaded and telegraphed [0:55], [2:05].
+- Defensive liability: chin stays high on the exit [1:02], [1:47], [3:10].
+
+## GRAPPLING SELF-SCOUT
+- Control ability: solid pressure from half guard top [3:35].
+- Scramble efficiency: slow to get to the wrist after the sprawl [2:22].
+- Bottom game urgency: waits too long to frame [3:50].
+
+## MOVEMENT & FOOTWORK
+- Follows the opponent instead of cutting the cage [1:25], [2:50].
+- Stance narrows when tired [4:05].
+
+## CARDIO & PACING
+- Output drops sharply after the three-minute mark [3:05].
+
+## MENTAL & TACTICAL
+- Frustration shows after missed hooks, leading to loading up [2:08].
+
+## TOP 10 EXPLOITABLE PATTERNS
+1. **Right Hand Drops On The Jab:** The right hand falls to the chest every time the jab is thrown [0:18], [0:44], [1:36].
+2. **Chin Up On Exits:** Exits straight back with the chin high after combinations [1:02], [1:47], [3:10].
+3. **Loaded Lead Hook:** Shoulder dips before the hook, giving a clear read [0:55], [2:05].
+4. **Straight-Line Retreat:** Backs straight up under pressure instead of angling off [1:25], [2:50].
+5. **Late Sprawl:** Reacts to level changes a beat late, conceding the hips [2:22].
+6. **Narrow Stance When Tired:** Feet come together late in the round [4:05].
+
+## TOP 5 STRENGTHS
+1. **Double Jab To The Body:** Consistently lands and sets up the right hand [0:32], [1:18], [2:40].
+2. **Forward Pressure:** Keeps the opponent near the fence for long stretches [0:10], [1:50].
+3. **Half Guard Top Pressure:** Heavy hips and good crossface once on top [3:35].
+
+## PRIORITY IMPROVEMENTS
+1. **Guard Discipline:** Right hand drops on the jab. Fix: Focus on returning the right hand to the cheek; drill: shadowbox with a tennis ball under the chin.
+2. **Exit Angles:** Straight-line retreats invite counters. Work on pivoting off after every combination; drill: cone pivot drill, three rounds.
+3. **Takedown Anticipation:** Late sprawl concedes the hips. Practice: reaction sprawls off partner level changes.
+
+## IF I WERE YOUR OPPONENT
+I would let you come forward and time the jab. Every time you jab, your right hand drops, so I would counter with a left hook over the top. When you exit with your chin up, I would follow you straight back with a double leg, because you react late to level changes. By the third minute of each round I would raise the pace, because your output falls off.
+`;
+
+const SELF_SCOUT_QUICK = `## 3 BAD HABITS
+1. **Right Hand Drops:** The right hand falls away every time the jab is thrown [0:18], [0:44], [1:36].
+2. **Chin Up On Exits:** Exits straight back with the chin high [1:02], [1:47].
+3. **Crossing Feet:** Feet cross when circling left [2:12].
+
+## 3 GOOD THINGS
+1. **Body Jab:** Lands cleanly and often [0:32], [1:18].
+2. **Cage Pressure:** Keeps the partner on the fence [0:10].
+3. **Composure:** Stays calm when hit clean [1:40].
+
+## BIGGEST HOLE
+The right hand dropping on the jab. Any partner with a left hook will find it [0:18], [0:44].
+
+## ONE FIX
+Focus on bringing the right hand back to the cheek after every jab. Drill: 3 rounds of jab-only shadowboxing with a partner calling out the right hand.
+`;
+
+const SELF_SCOUT_PROGRESS = `## PERSISTENT HABITS
+- Right hand still drops on the jab in the latest session [0:22], [1:10].
+
+## IMPROVEMENTS OBSERVED
+- Exits now angle off to the left instead of straight back [0:48], [2:02].
+
+## REGRESSIONS
+- Output in the final minute dropped further [3:40].
+
+## CONSISTENCY ASSESSMENT
+Performance is stable round to round with the exception of late-round output.
+
+## TRAINING RECOMMENDATIONS
+- Keep the guard-return drill in every session.
+- Add conditioning rounds that finish with hard minute-long pushes.
+
+## READINESS ASSESSMENT
+Ready for a regional amateur bout if the guard habit is addressed in the next block.
+`;
+
+// Issue changes for SELF_SCOUT_PROGRESS, judged against SELF_SCOUT_FULL as the only baseline (B1-B6 are its findings, in parsed order)
+const SELF_SCOUT_PROGRESS_ISSUE_CHANGES: StructuredIssueChange[] = [
+  {
+    baseline_ref: 'B1',
+    title: 'Right Hand Drops On The Jab',
+    status: 'persistent',
+    note: 'Still drops to the chest on the jab, though less often.',
+    timestamps: ['0:22', '1:10'],
+  },
+  {
+    baseline_ref: 'B2',
+    title: 'Loaded Lead Hook',
+    status: 'resolved',
+    note: 'Hooks are thrown without the shoulder dip.',
+    timestamps: ['1:34'],
+  },
+  {
+    baseline_ref: 'B3',
+    title: 'Chin Up On Exits',
+    status: 'resolved',
+    note: 'Exits now angle off with the chin tucked.',
+    timestamps: ['0:48'],
+  },
+  {
+    baseline_ref: 'B4',
+    title: 'Straight-Line Retreat',
+    status: 'resolved',
+    note: 'Angles off to the left instead of backing straight up.',
+    timestamps: ['0:48', '2:02'],
+  },
+  {
+    baseline_ref: 'B6',
+    title: 'Narrow Stance When Tired',
+    status: 'persistent',
+    note: 'Feet still come together in the final minute.',
+    timestamps: ['3:44'],
+  },
+  {
+    title: 'Late-Round Output Drop',
+    status: 'new',
+    note: 'Output in the final minute dropped further than in the baseline.',
+    timestamps: ['3:40'],
+  },
+];
+
+const OPPONENT_BREAKDOWN_FULL = `## FIGHTER PROFILE
+- Style Summary: Counter-striking southpaw who fights off the back foot.
+- Stance: Southpaw
+- Primary Range: Long range, kicking distance
+
+## MOST UTILIZED TECHNIQUES
+1. **Counter Left Straight:** Thrown off the opponent's jab [0:14], [1:22], [2:48].
+2. **Lead Leg Teep:** Used to reset distance [0:40], [2:05].
+3. **Switch Kick To The Body:** Thrown when the opponent squares up [1:05], [3:12].
+
+## STRENGTHS
+1. **Counter Timing:** Lands the counter left straight cleanly off the jab [0:14], [1:22], [2:48].
+2. **Distance Management:** Uses the teep to keep opponents at kicking range [0:40], [2:05].
+3. **Takedown Defense:** Strong underhooks along the fence [2:30].
+4. **Body Kicks:** Hard switch kick to the body [1:05], [3:12].
+5. **Composure:** Does not panic when backed up [3:30].
+
+## WEAKNESSES
+1. **Circles Into The Power Hand:** Circles left into the opponent's right hand when pressured [0:55], [1:48], [3:02].
+2. **Low Output When Leading:** Rarely initiates; struggles when forced to lead [2:15].
+3. **Hands Drop After Kicking:** Guard falls after throwing the body kick [1:07], [3:14].
+4. **Flat-Footed Against Feints:** Reacts to every feint, giving away counters [1:30], [2:52].
+5. **Slow Off The Fence:** Takes several seconds to escape when pinned [2:32].
+
+## DECISION TREE
+- IF **Jabs lazily** THEN **Slip outside and throw the overhand right** [0:12]
+- IF **Throws the switch kick** THEN **Catch and return the right hand** [1:05]
+- IF **Circles left** THEN **Cut him off with the right foot and throw the right hand** [0:55]
+- IF **Backs to the fence** THEN **Pin him with an underhook and work the single leg** [2:30]
+- IF **Reacts to feints** THEN **Feint the jab and go to the body** [1:30]
+
+## DANGER ZONE
+Do not stand in front of him at kicking range; the counter left is his money punch.
+`;
+
+const OPPONENT_BREAKDOWN_QUICK = `## SUMMARY
+Counter-striking southpaw who wants you to lead. Dangerous at range, vulnerable when pressured.
+
+## OFFENSIVE THREATS
+1. **Counter Left Straight:** Thrown off the jab [0:14], [1:22].
+2. **Switch Kick To The Body:** Thrown when you square up [1:05].
+3. **Lead Leg Teep:** Resets distance [0:40].
+
+## EXPLOITABLE HABITS
+1. **Circles Into The Power Hand:** Circles left into the right hand under pressure [0:55], [1:48].
+2. **Hands Drop After Kicking:** Guard falls after the body kick [1:07], [3:14].
+3. **Bites On Feints:** Reacts to every feint [1:30].
+
+## DANGER ZONES
+Kicking range, directly in front of him.
+
+## WINNING POSITIONS
+Along the fence with an underhook, or in the pocket with constant pressure.
+`;
+
+const GAME_PLAN_FULL = `## MATCHUP ANALYSIS
+- Range comparison: the opponent wants long range [Opponent 0:40], you want the pocket [User 1:15].
+- Speed/Power: you carry more power; he is faster on the counter.
+- Stylistic clash: pressure boxer versus counter-striker.
+- Your double jab to the body [User 0:32] against his low output when leading [Opponent 2:05-2:20].
+
+## VICTORY BLUEPRINT
+- Pressure boxing to a late-round stoppage; he fades once pinned [Opponent 3:10-3:30].
+- Don't Do This: do not lead with a lazy jab from range [User 0:14]; he counters it [Opponent 1:22].
+
+## OFFENSIVE STRATEGY
+- Primary: feint, double jab to the body.
+- Secondary: overhand right as he circles left [Opponent 0:55], the shot you land cleanest [User 2:40].
+- Counters: catch the switch kick and return the right hand [Opponent 1:05].
+
+## DEFENSIVE PRIORITIES
+- Watch for the counter left straight off your jab [Opponent 0:14, 1:22].
+- Exit at an angle, never straight back.
+
+## ROUND-BY-ROUND APPROACH
+- R1: Download his reactions to feints [Opponent 0:20]; establish the body jab [User 0:32].
+- R2: Cut off the left circle [Opponent 0:55] and land the overhand [User 2:40].
+- R3: Raise the pace and push for the finish; his output drops late [Opponent 3:10-3:30].
+
+## SITUATIONAL PLAYBOOK
+- If winning: keep him on the fence and work the underhook.
+- If losing: go to the single leg off the fence.
+- If hurt: clinch and tie up the underhooks.
+
+## CAMP PRIORITIES
+1. Cage-cutting drill against a southpaw partner.
+2. Feint-to-body-jab entries.
+3. Catch-and-return drill for switch kicks.
+`;
+
+const GAME_PLAN_QUICK = `## HOW I WIN
+Walk him down, cut off the left circle [Opponent 0:55] and land the overhand right [User 2:40].
+
+## BEST WEAPONS
+Double jab to the body [User 0:32], overhand right [User 2:40].
+
+## WHAT TO AVOID
+Leading with a lazy jab from range [User 0:14].
+
+## THE DANGER
+His counter left straight off your jab [Opponent 1:22].
+
+## ROUND 1 FOCUS
+Feint and watch how he reacts before committing [Opponent 0:20].
+
+## ONE DRILL
+Cage-cutting footwork against a southpaw partner.
+`;
+
+// Matches the SELF_SCOUT_FULL findings: most confirmed, one partial (1:47 not
+// found again), one unconfirmed (Late Sprawl) so every verification state shows.
+const EVIDENCE_EXTRACTION = [
+  {
+    claim: 'Right Hand Drops On The Jab: The right hand falls to the chest every time the jab is thrown.',
+    instances: [
+      { timestamp: '00:18', description: 'Right hand falls to chest on the jab', confidence: 'High' },
+      { timestamp: '00:44', description: 'Right hand low during double jab', confidence: 'Medium' },
+      { timestamp: '01:37', description: 'Jab thrown with right hand at the sternum', confidence: 'High' },
+    ],
+  },
+  {
+    claim: 'Loaded Lead Hook: Shoulder dips before the hook, giving a clear read.',
+    instances: [
+      { timestamp: '00:55', description: 'Lead shoulder dips, then the hook', confidence: 'High' },
+      { timestamp: '02:05', description: 'Same dip before a missed hook', confidence: 'High' },
+      { timestamp: '03:20', description: 'Dip and hook off the jab', confidence: 'Medium' },
+    ],
+  },
+  {
+    claim: 'Chin Up On Exits: Exits straight back with the chin high after combinations.',
+    instances: [
+      { timestamp: '01:02', description: 'Straight back out of the pocket, chin up', confidence: 'High' },
+      { timestamp: '03:10', description: 'Chin high exiting after the 1-2', confidence: 'Medium' },
+    ],
+  },
+  {
+    claim: 'Straight-Line Retreat: Backs straight up under pressure instead of angling off.',
+    instances: [
+      { timestamp: '01:25', description: 'Backs straight to the fence', confidence: 'High' },
+      { timestamp: '02:50', description: 'Retreats in a line under the jab', confidence: 'High' },
+    ],
+  },
+  {
+    claim: 'Late Sprawl: Reacts to level changes a beat late, conceding the hips.',
+    instances: [],
+  },
+  {
+    claim: 'Narrow Stance When Tired: Feet come together late in the round.',
+    instances: [
+      { timestamp: '04:05', description: 'Feet nearly square and close together', confidence: 'Medium' },
+    ],
+  },
+  {
+    claim: 'Double Jab To The Body: Consistently lands and sets up the right hand.',
+    instances: [
+      { timestamp: '00:32', description: 'Double jab to the body lands', confidence: 'High' },
+      { timestamp: '01:18', description: 'Body jab, then right hand upstairs', confidence: 'High' },
+      { timestamp: '02:40', description: 'Double jab to the body lands clean', confidence: 'High' },
+    ],
+  },
+  {
+    claim: 'Forward Pressure: Keeps the opponent near the fence for long stretches.',
+    instances: [
+      { timestamp: '00:10', description: 'Walks the opponent to the fence', confidence: 'High' },
+      { timestamp: '01:50', description: 'Holds the opponent on the fence', confidence: 'Medium' },
+    ],
+  },
+  {
+    claim: 'Half Guard Top Pressure: Heavy hips and good crossface once on top.',
+    instances: [
+      { timestamp: '03:35', description: 'Crossface from half guard top', confidence: 'High' },
+    ],
+  },
+];
+
+// ============================================================================
+// STRUCTURED (JSON MODE) VARIANTS
+// ============================================================================
+// Derived from the markdown recordings above so both modes replay the same report.
+
+const toStructuredFinding = (f: Finding): StructuredFinding => ({
+  title: f.title.replace(/:$/, ''),
+  description: f.description,
+  severity: f.severity,
+  category: f.category,
+  confidence: f.confidence,
+  timestamps: f.timestamps.map(formatTimestampText),
+  ...(f.counterEvidence && { counter_evidence: f.counterEvidence }),
+});
+
+const toStructuredStrength = (f: Finding): StructuredStrength => ({
+  title: f.title.replace(/:$/, ''),
+  description: f.description,
+  category: f.category,
+  timestamps: f.timestamps.map(formatTimestampText),
+});
+
+const toStructuredSelfScout = (markdown: string, analysisType: 'full' | 'quick' | 'progress'): string => {
+  const report = parseSelfScoutReport(markdown, analysisType);
+  const response: StructuredSelfScoutResponse = {
+    sections: report.sections.map(({ title, content }) => ({ title, content })),
+    overall_assessment: report.overallAssessment,
+    findings: report.findings.map(toStructuredFinding),
+    strengths: report.strengths.map(toStructuredStrength),
+    priority_improvements: report.priorityImprovements.map(({ area, issue, fix, drillRecommendation }) => ({
+      area,
+      issue,
+      fix,
+      ...(drillRecommendation && { drill: drillRecommendation }),
+    })),
+    ...(report.opponentGamePlan && { opponent_game_plan: report.opponentGamePlan }),
+    ...(analysisType === 'progress' && { issue_changes: SELF_SCOUT_PROGRESS_ISSUE_CHANGES }),
+  };
+  return JSON.stringify(response, null, 2); // Multi-line so it streams in pieces
+};
+
+const toStructuredOpponent = (markdown: string): string => {
+  const sections = parseReportSections(markdown);
+  const response: StructuredOpponentResponse = {
+    sections: sections.map(({ title, content }) => ({ title, content })),
+    strengths: extractStrengths(sections, markdown).map(toStructuredStrength),
+    weaknesses: extractFindings(sections, markdown).map(toStructuredFinding),
+    decision_tree: extractDecisionTree(sections).map(({ trigger, response, timestamp }) => ({
+      trigger,
+      response,
+      ...(timestamp && { timestamp: formatTimestampText(timestamp) }),
+    })),
+    most_utilized_techniques: extractMostUtilizedTechniques(sections).map(t => ({
+      name: t.name,
+      timestamps: t.timestamps.map(formatTimestampText),
+    })),
+  };
+  return JSON.stringify(response, null, 2); // Multi-line so it streams in pieces
+};
+
+// Tale of the tape for the OPPONENT_BREAKDOWN_* fixtures
+const PROFILE_EXTRACTION: FighterProfile = {
+  name: 'Marcus Silva',
+  height: `5'11"`,
+  reach: '74 in',
+  stance: 'Southpaw',
+  record: '14-3-0',
+  age: '29',
+};
+
+const CORNER_INSTRUCTION = {
+  bullets: [
+    'Double jab, then step off to your right before he counters.',
+    'When he drops the left, throw the right hand over it.',
+    'Stay off the fence: circle out the moment your back gets close.',
+  ],
+};
+
+export const RECORDED_RESPONSES: Record<string, string> = {
+  FIGHT_SCORING: JSON.stringify(FIGHT_SCORING),
+  SELF_SCOUT_FULL,
+  SELF_SCOUT_QUICK,
+  SELF_SCOUT_PROGRESS,
+  OPPONENT_BREAKDOWN_FULL,
+  OPPONENT_BREAKDOWN_QUICK,
+  SELF_SCOUT_FULL_JSON: toStructuredSelfScout(SELF_SCOUT_FULL, 'full'),
+  SELF_SCOUT_QUICK_JSON: toStructuredSelfScout(SELF_SCOUT_QUICK, 'quick'),
+  SELF_SCOUT_PROGRESS_JSON: toStructuredSelfScout(SELF_SCOUT_PROGRESS, 'progress'),
+  OPPONENT_BREAKDOWN_FULL_JSON: toStructuredOpponent(OPPONENT_BREAKDOWN_FULL),
+  OPPONENT_BREAKDOWN_QUICK_JSON: toStructuredOpponent(OPPONENT_BREAKDOWN_QUICK),
+  GAME_PLAN_FULL,
+  GAME_PLAN_QUICK,
+  EVIDENCE_EXTRACTION: JSON.stringify(EVIDENCE_EXTRACTION),
+  PROFILE_EXTRACTION: JSON.stringify(PROFILE_EXTRACTION),
+  CORNER_INSTRUCTION: JSON.stringify(CORNER_INSTRUCTION),
+  CUSTOM: SELF_SCOUT_QUICK,
+};
@@ -1,62 +1,42 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { FightAnalysis } from "../types";
 import { 
   getPrompt, 
+  listPrompts,
   buildUserPrompt, 
   validateInputs,
+  withStructuredOutput,
+  withVideoLabels,
   PromptTemplate 
 } from "../lib/prompts";
-
-// Initialize Gemini Client
-// CRITICAL: process.env.API_KEY must be defined in the build/runtime environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { getReportResponseSchema } from "../lib/report-schema";
+import { FighterProfile, Finding } from "../lib/report-parser";
+import { EvidenceResult, applyEvidence, buildClaims } from "../lib/evidence-verification";
+import { CornerBrief } from "../lib/corner-mode";
+import { getProvider, GenerationRequest, PromptPart, UploadProgress } from "./aiProvider";
+import { MalformedResponseError, withRetry } from "./aiErrors";
 
 /**
- * Converts a File object to a Base64 encoded string.
- * Includes MIME type normalization to prevent "Invalid video data" errors.
+ * Calls the active provider, retrying transient failures with backoff.
+ * A streamed request is only retried if no text has reached the caller yet,
+ * so the UI never sees the same section twice. `validate` runs inside the
+ * retry, so a response it rejects is regenerated like any transient failure.
  */
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      const base64String = result.split(',')[1];
-      
-      let mimeType = file.type;
-      
-      // Fix: Normalize MIME types if missing or generic
-      if (!mimeType || mimeType === 'application/octet-stream') {
-        const ext = file.name.split('.').pop()?.toLowerCase();
-        if (ext === 'mp4') mimeType = 'video/mp4';
-        else if (ext === 'mov') mimeType = 'video/quicktime';
-        else if (ext === 'webm') mimeType = 'video/webm';
-        else if (ext === 'avi') mimeType = 'video/x-msvideo';
-        else if (ext === 'mpg' || ext === 'mpeg') mimeType = 'video/mpeg';
-      }
-
-      // Gemini specific fixes: 
-      // video/quicktime (MOV) sometimes causes "Invalid video data" (400) errors if sent as inline data.
-      // Mapping it to video/mp4 often resolves this if the underlying codec is compatible (e.g. H.264).
-      if (mimeType === 'video/quicktime' || mimeType === 'video/x-m4v') {
-        console.warn(`Normalizing ${mimeType} to video/mp4 for Gemini compatibility.`);
-        mimeType = 'video/mp4';
-      }
-
-      if (!mimeType) {
-        console.warn("Could not determine MIME type for file, defaulting to video/mp4");
-        mimeType = 'video/mp4';
-      }
-
-      resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: mimeType,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+const generateWithRetry = async (
+  request: GenerationRequest,
+  validate?: (text: string) => void
+): Promise<string> => {
+  let streamed = false;
+  const onText = request.onText && ((delta: string) => {
+    streamed = true;
+    request.onText!(delta);
   });
+
+  return withRetry(async () => {
+    const text = await getProvider().generateContent({ ...request, onText });
+    validate?.(text);
+    return text;
+  }, { signal: request.signal, shouldRetry: () => !streamed });
 };
 
 /**
@@ -66,13 +46,15 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
 export const analyzeFightData = async (
   videoFile: File | null,
   imageFiles: File[],
-  textNotes: string
+  textNotes: string,
+  onUploadProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
 ): Promise<FightAnalysis> => {
   
   // Get the appropriate prompt template for fight analysis
   const template = getPrompt('FIGHT_SCORING');
   
-  const parts: any[] = [];
+  const parts: PromptPart[] = [];
 
   // Add System Instruction as text part first
   if (template) {
@@ -86,14 +68,12 @@ export const analyzeFightData = async (
 
   // Process Video
   if (videoFile) {
-    const videoPart = await fileToGenerativePart(videoFile);
-    parts.push(videoPart);
+    parts.push({ file: videoFile });
   }
 
   // Process Images (Stats/Profiles)
   for (const img of imageFiles) {
-    const imagePart = await fileToGenerativePart(img);
-    parts.push(imagePart);
+    parts.push({ file: img });
   }
 
   // Define the JSON Schema for strict output
@@ -142,23 +122,28 @@ export const analyzeFightData = async (
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: parts
-      },
-      config: {
+    // Parsing happens inside the retry so a truncated or invalid JSON reply is regenerated
+    return await withRetry(async () => {
+      const text = await getProvider().generateContent({
+        task: 'FIGHT_SCORING',
+        parts,
+        onUploadProgress,
+        signal,
         responseMimeType: "application/json",
         responseSchema: responseSchema,
         temperature: 0.2, // Low temperature for objective analysis
-      },
-    });
+      });
 
-    if (response.text) {
-      return JSON.parse(response.text) as FightAnalysis;
-    } else {
-      throw new Error("No data returned from Gemini.");
-    }
+      if (!text) {
+        throw new MalformedResponseError("No data returned from Gemini.");
+      }
+
+      try {
+        return JSON.parse(text) as FightAnalysis;
+      } catch (e) {
+        throw new MalformedResponseError("Gemini returned invalid JSON for the fight analysis.", e);
+      }
+    }, { signal });
 
   } catch (error) {
     console.error("Analysis Failed:", error);
@@ -166,6 +151,17 @@ export const analyzeFightData = async (
   }
 };
 
+/**
+ * Rejects JSON-mode output that does not parse (e.g. a truncated response).
+ */
+const validateJson = (text: string) => {
+  try {
+    JSON.parse(text);
+  } catch (e) {
+    throw new MalformedResponseError("Gemini returned invalid JSON.", e);
+  }
+};
+
 // ============================================================================
 // REPORT GENERATION USING PROMPT TEMPLATES
 // ============================================================================
@@ -186,6 +182,19 @@ export interface ReportGenerationOptions {
   imageFiles?: File[];
   context?: string;
   specificQuestions?: string;
+  /** Extra {{placeholder}} values for the template (e.g. fighterName, weightClass). */
+  promptVariables?: Record<string, string>;
+  onUploadProgress?: (progress: UploadProgress) => void;
+  /** Streams the report: called with each markdown delta as it is generated. */
+  onTextChunk?: (delta: string) => void;
+  /** Cancels the upload and generation; rejects with an AbortError. */
+  signal?: AbortSignal;
+  /**
+   * Return typed JSON matching the template's response schema instead of
+   * markdown (SELF_SCOUT_* and OPPONENT_BREAKDOWN_* only). Parse the result
+   * with the lib/report-schema.ts parsers.
+   */
+  structured?: boolean;
 }
 
 /**
@@ -201,7 +210,12 @@ export const generateReportFromTemplate = async (
     opponentVideos = [],
     imageFiles = [], 
     context = '', 
-    specificQuestions = '' 
+    specificQuestions = '',
+    promptVariables = {},
+    onUploadProgress,
+    onTextChunk,
+    signal,
+    structured = false
   } = options;
 
   // Get the prompt template
@@ -210,6 +224,11 @@ export const generateReportFromTemplate = async (
     throw new Error(`Unknown report type: ${reportType}`);
   }
 
+  const responseSchema = structured ? getReportResponseSchema(reportType) : undefined;
+  if (structured && !responseSchema) {
+    throw new Error(`Structured output is not supported for ${reportType}`);
+  }
+
   // Validate inputs
   const validation = validateInputs(template, {
     userVideo: userVideos,
@@ -222,15 +241,20 @@ export const generateReportFromTemplate = async (
 
   // Build the user prompt with variables filled in
   const userPrompt = buildUserPrompt(template, {
+    ...promptVariables,
     context,
     specificQuestions,
   });
 
-  // Build the parts array for Gemini
-  const parts: any[] = [];
+  // Build the parts array for the model
+  const parts: PromptPart[] = [];
   
   // System Prompt - using the template's system prompt
-  parts.push({ text: `SYSTEM INSTRUCTION:\n${template.systemPrompt}` });
+  // Several opponent videos: timestamps name their video, [V2 03:14]
+  const labelVideos = opponentVideos.length > 1;
+  const basePrompt = labelVideos ? withVideoLabels(template.systemPrompt) : template.systemPrompt;
+  const systemPrompt = structured ? withStructuredOutput(basePrompt) : basePrompt;
+  parts.push({ text: `SYSTEM INSTRUCTION:\n${systemPrompt}` });
   
   // User Prompt
   parts.push({ text: `USER REQUEST:\n${userPrompt}` });
@@ -238,35 +262,40 @@ export const generateReportFromTemplate = async (
   // Attach User Videos (labeled)
   for (let i = 0; i < userVideos.length; i++) {
     parts.push({ text: `[USER VIDEO ${i + 1}]` });
-    const part = await fileToGenerativePart(userVideos[i]);
-    parts.push(part);
+    parts.push({ file: userVideos[i] });
   }
 
   // Attach Opponent Videos (labeled)
   for (let i = 0; i < opponentVideos.length; i++) {
-    parts.push({ text: `[OPPONENT VIDEO ${i + 1}]` });
-    const part = await fileToGenerativePart(opponentVideos[i]);
-    parts.push(part);
+    parts.push({ text: labelVideos ? `[OPPONENT VIDEO ${i + 1}] (V${i + 1})` : `[OPPONENT VIDEO ${i + 1}]` });
+    parts.push({ file: opponentVideos[i] });
   }
 
-  // Attach Images
+  // Attach Images (labeled, so the model reads them as stats rather than footage)
+  if (imageFiles.length > 0) {
+    parts.push({ text: '[STAT SHEETS / TALE OF THE TAPE]' });
+  }
   for (const img of imageFiles) {
-    const part = await fileToGenerativePart(img);
-    parts.push(part);
+    parts.push({ file: img });
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts },
-      config: {
-        temperature: 0.4,
-        // No JSON schema - we want Markdown text output
-      }
-    });
-
-    if (response.text) {
-      return response.text;
+    const text = await generateWithRetry({
+      task: reportType,
+      parts,
+      onUploadProgress,
+      onText: onTextChunk,
+      signal,
+      temperature: 0.4,
+      // Markdown text output unless a structured report was requested
+      ...(responseSchema && {
+        responseMimeType: 'application/json' as const,
+        responseSchema,
+      }),
+    }, responseSchema ? validateJson : undefined);
+
+    if (text) {
+      return text;
     } else {
       throw new Error("No report generated.");
     }
@@ -338,6 +367,248 @@ export const generateGamePlan = async (
   });
 };
 
+// ============================================================================
+// EVIDENCE VERIFICATION
+// ============================================================================
+
+export interface EvidenceVerificationOptions {
+  onUploadProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+const EVIDENCE_RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      claim: { type: Type.STRING },
+      instances: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            timestamp: { type: Type.STRING },
+            description: { type: Type.STRING },
+            confidence: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
+          },
+          required: ["timestamp", "description", "confidence"],
+        },
+      },
+    },
+    required: ["claim", "instances"],
+  },
+};
+
+/**
+ * Second pass over the footage: sends each finding back as a claim through
+ * the EVIDENCE_EXTRACTION template and re-scores it from what is found.
+ * Uploaded videos are reused from the Files API cache, so this costs one
+ * extra model call rather than another upload.
+ */
+export const verifyFindings = async (
+  videoFiles: File[],
+  findings: Finding[],
+  options: EvidenceVerificationOptions = {}
+): Promise<Finding[]> => {
+  const { onUploadProgress, signal } = options;
+  if (findings.length === 0) return findings;
+
+  const template = getPrompt('EVIDENCE_EXTRACTION');
+  if (!template) {
+    throw new Error("Unknown report type: EVIDENCE_EXTRACTION");
+  }
+  if (videoFiles.length === 0) {
+    throw new Error("Missing required inputs: video");
+  }
+
+  const claims = buildClaims(findings);
+  const userPrompt = buildUserPrompt(template, {
+    claims: claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n'),
+  });
+
+  const parts: PromptPart[] = [
+    { text: `SYSTEM INSTRUCTION:\n${template.systemPrompt}` },
+    { text: `USER REQUEST:\n${userPrompt}\n\nReturn exactly one item per claim, in the same order, with the claim text unchanged.` },
+  ];
+  // Several videos: each instance names its video, as the claims' timestamps did
+  if (videoFiles.length > 1) {
+    parts.push({ text: 'Several videos are attached, labeled V1, V2 and so on. Prefix every instance timestamp with its video: "V2 01:15".' });
+  }
+  videoFiles.forEach((video, i) => {
+    if (videoFiles.length > 1) parts.push({ text: `[V${i + 1}]` });
+    parts.push({ file: video });
+  });
+
+  try {
+    const text = await generateWithRetry({
+      task: 'EVIDENCE_EXTRACTION',
+      parts,
+      onUploadProgress,
+      signal,
+      responseMimeType: "application/json",
+      responseSchema: EVIDENCE_RESPONSE_SCHEMA,
+      temperature: 0.1, // Pure extraction
+    }, validateJson);
+
+    return applyEvidence(findings, JSON.parse(text) as EvidenceResult[]);
+  } catch (error) {
+    console.error("Evidence Verification Failed:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// FIGHTER PROFILE
+// ============================================================================
+
+export interface ProfileExtractionOptions {
+  fighterName?: string; // Whose attributes to read when the images show both fighters
+  onUploadProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+const PROFILE_FIELDS = ['name', 'height', 'reach', 'stance', 'record', 'age'] as const;
+
+const PROFILE_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(PROFILE_FIELDS.map(field => [field, { type: Type.STRING }])),
+};
+
+/**
+ * Reads the tale of the tape (height, reach, stance, record, age) from stat
+ * sheet images through the PROFILE_EXTRACTION template. Attributes the
+ * images don't show are left out.
+ */
+export const extractFighterProfile = async (
+  imageFiles: File[],
+  options: ProfileExtractionOptions = {}
+): Promise<FighterProfile> => {
+  const { fighterName, onUploadProgress, signal } = options;
+
+  const template = getPrompt('PROFILE_EXTRACTION');
+  if (!template) {
+    throw new Error("Unknown report type: PROFILE_EXTRACTION");
+  }
+  const validation = validateInputs(template, { taleOfTape: imageFiles });
+  if (!validation.valid) {
+    throw new Error(`Missing required inputs: ${validation.missing.join(', ')}`);
+  }
+
+  const parts: PromptPart[] = [
+    { text: `SYSTEM INSTRUCTION:\n${template.systemPrompt}` },
+    { text: `USER REQUEST:\n${buildUserPrompt(template, { fighterName: fighterName || 'Not named' })}` },
+  ];
+  for (const img of imageFiles) {
+    parts.push({ file: img });
+  }
+
+  try {
+    const text = await generateWithRetry({
+      task: 'PROFILE_EXTRACTION',
+      parts,
+      onUploadProgress,
+      signal,
+      responseMimeType: "application/json",
+      responseSchema: PROFILE_RESPONSE_SCHEMA,
+      temperature: 0.1, // Pure extraction
+    }, validateJson);
+
+    const raw = JSON.parse(text) as Record<string, unknown>;
+    const profile: FighterProfile = {};
+    for (const field of PROFILE_FIELDS) {
+      const value = typeof raw[field] === 'string' ? raw[field].trim() : '';
+      if (value) profile[field] = value;
+    }
+    return profile;
+  } catch (error) {
+    console.error("Profile Extraction Failed:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// CORNER INSTRUCTIONS
+// ============================================================================
+
+export interface CornerInstructionOptions {
+  signal?: AbortSignal;
+}
+
+const INSTRUCTION_BULLETS = 3;
+
+const CORNER_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["bullets"],
+};
+
+/**
+ * Rejects an instruction without any bullets, so it is regenerated.
+ */
+const validateInstruction = (text: string) => {
+  validateJson(text);
+  const bullets = (JSON.parse(text) as { bullets?: unknown }).bullets;
+  if (!Array.isArray(bullets) || !bullets.some(b => typeof b === 'string' && b.trim())) {
+    throw new MalformedResponseError("Gemini returned an instruction without bullets.");
+  }
+};
+
+/**
+ * Three-bullet instruction for the rest between rounds, from the corner's
+ * notes and the scouting report (CORNER_INSTRUCTION). Text only, so it
+ * returns in seconds.
+ */
+export const generateCornerInstruction = async (
+  brief: CornerBrief,
+  options: CornerInstructionOptions = {}
+): Promise<string[]> => {
+  const template = getPrompt('CORNER_INSTRUCTION');
+  if (!template) {
+    throw new Error("Unknown report type: CORNER_INSTRUCTION");
+  }
+
+  const userPrompt = buildUserPrompt(template, {
+    round: String(brief.round),
+    rounds: String(brief.rounds),
+    notes: brief.notes,
+    scouting: brief.scouting,
+  });
+
+  try {
+    const text = await generateWithRetry({
+      task: 'CORNER_INSTRUCTION',
+      parts: [
+        { text: `SYSTEM INSTRUCTION:\n${template.systemPrompt}` },
+        { text: `USER REQUEST:\n${userPrompt}` },
+      ],
+      signal: options.signal,
+      responseMimeType: "application/json",
+      responseSchema: CORNER_RESPONSE_SCHEMA,
+      temperature: 0.3,
+    }, validateInstruction);
+
+    const { bullets } = JSON.parse(text) as { bullets: unknown[] };
+    return bullets
+      .filter((b): b is string => typeof b === 'string' && b.trim() !== '')
+      .map(b => b.trim())
+      .slice(0, INSTRUCTION_BULLETS);
+  } catch (error) {
+    console.error("Corner Instruction Failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Maps a raw system prompt back to its template id so the local provider can
+ * replay the matching fixture. Ad-hoc prompts are tagged 'CUSTOM'.
+ */
+const resolveTask = (systemPrompt: string): string => {
+  const template = listPrompts().find(p => p.systemPrompt === systemPrompt);
+  return template ? template.id : 'CUSTOM';
+};
+
 /**
  * Legacy function - kept for backward compatibility
  * Prefer using generateReportFromTemplate or the convenience functions above
@@ -346,10 +617,11 @@ export const generateReport = async (
   systemPrompt: string,
   userPrompt: string,
   videoFiles: File[],
-  imageFiles: File[] = []
+  imageFiles: File[] = [],
+  onUploadProgress?: (progress: UploadProgress) => void
 ): Promise<string> => {
   
-  const parts: any[] = [];
+  const parts: PromptPart[] = [];
   
   // System Prompt
   parts.push({ text: `SYSTEM INSTRUCTION:\n${systemPrompt}` });
@@ -359,27 +631,24 @@ export const generateReport = async (
 
   // Attach Videos
   for (const vid of videoFiles) {
-    const part = await fileToGenerativePart(vid);
-    parts.push(part);
+    parts.push({ file: vid });
   }
 
   // Attach Images
   for (const img of imageFiles) {
-    const part = await fileToGenerativePart(img);
-    parts.push(part);
+    parts.push({ file: img });
   }
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts },
-      config: {
-        temperature: 0.4,
-      }
+    const text = await generateWithRetry({
+      task: resolveTask(systemPrompt),
+      parts,
+      onUploadProgress,
+      temperature: 0.4,
     });
 
-    if (response.text) {
-      return response.text;
+    if (text) {
+      return text;
     } else {
       throw new Error("No report generated.");
     }
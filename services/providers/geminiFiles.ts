@@ -0,0 +1,264 @@
+import { GoogleGenAI, FileState } from "@google/genai";
+import { hashMedia } from "../../lib/media-prep";
+import { UploadProgress } from "../aiProvider";
+import { abortableDelay, createAbortError, isAbortError, throwIfAborted } from "../../lib/abort";
+import { InvalidMediaError, ModelTimeoutError } from "../aiErrors";
+
+// ============================================================================
+// GEMINI FILES API (RESUMABLE UPLOAD)
+// ============================================================================
+
+const UPLOAD_BASE_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const CHUNK_SIZE = 8 * 1024 * 1024; // Must be a multiple of 256 KiB
+const MAX_CHUNK_RETRIES = 3;
+const ACTIVE_POLL_INTERVAL_MS = 2000;
+const ACTIVE_TIMEOUT_MS = 5 * 60 * 1000;
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000; // Don't reuse handles that expire within the hour
+
+const CACHE_STORAGE_KEY = 'fight_analyzer_gemini_file_cache';
+
+export interface UploadedFileRef {
+  uri: string;
+  mimeType: string;
+}
+
+interface CachedUpload extends UploadedFileRef {
+  name: string;
+  expiresAt: number;
+}
+
+interface PendingUpload {
+  uploadUrl: string;
+  size: number;
+}
+
+interface UploadCache {
+  files: Record<string, CachedUpload>;
+  pending: Record<string, PendingUpload>;
+}
+
+const readCache = (): UploadCache => {
+  try {
+    const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to read Gemini file cache', e);
+  }
+  return { files: {}, pending: {} };
+};
+
+const writeCache = (update: (cache: UploadCache) => void): void => {
+  const cache = readCache();
+  update(cache);
+  try {
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error('Failed to write Gemini file cache', e);
+  }
+};
+
+/**
+ * Cache key for a file under an API key. Uploads belong to the key's project,
+ * so a handle cached under another key can't be reused. Only a digest of the
+ * key is kept in storage.
+ */
+const cacheKey = async (apiKey: string, contentHash: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  const keyId = Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${keyId}:${contentHash}`;
+};
+
+/**
+ * Opens a resumable upload session and returns its upload URL.
+ */
+const startSession = async (apiKey: string, file: File, mimeType: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(`${UPLOAD_BASE_URL}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: file.name } }),
+  });
+
+  const uploadUrl = response.headers.get('x-goog-upload-url');
+  if (!response.ok || !uploadUrl) {
+    throw new Error(`Failed to start upload for ${file.name} (${response.status})`);
+  }
+  return uploadUrl;
+};
+
+/**
+ * Asks the server how many bytes of an interrupted session it already has.
+ * Returns null if the session is no longer usable.
+ */
+const queryOffset = async (uploadUrl: string, signal?: AbortSignal): Promise<number | null> => {
+  try {
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      signal,
+      headers: { 'X-Goog-Upload-Command': 'query' },
+    });
+    const status = response.headers.get('x-goog-upload-status');
+    const received = response.headers.get('x-goog-upload-size-received');
+    if (!response.ok || status !== 'active' || received === null) return null;
+    return Number(received);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return null;
+  }
+};
+
+/**
+ * Sends one chunk. Uses XHR rather than fetch for byte-level upload progress.
+ * Resolves with the response body (only meaningful on the final chunk).
+ */
+const sendChunk = (
+  uploadUrl: string,
+  chunk: Blob,
+  offset: number,
+  isLast: boolean,
+  onProgress: (chunkLoaded: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.open('POST', uploadUrl);
+    xhr.setRequestHeader('X-Goog-Upload-Command', isLast ? 'upload, finalize' : 'upload');
+    xhr.setRequestHeader('X-Goog-Upload-Offset', String(offset));
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    xhr.onabort = () => reject(createAbortError());
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.responseText);
+      } else {
+        reject(new Error(`Chunk upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during chunk upload'));
+    xhr.send(chunk);
+  });
+};
+
+/**
+ * Polls until Gemini has finished processing the file (videos take a while).
+ */
+const waitUntilActive = async (ai: GoogleGenAI, name: string, fileName: string, signal?: AbortSignal) => {
+  const deadline = Date.now() + ACTIVE_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const file = await ai.files.get({ name, config: { abortSignal: signal } });
+    if (file.state === FileState.ACTIVE) return file;
+    if (file.state === FileState.FAILED) {
+      throw new InvalidMediaError(`Gemini failed to process ${name}: ${file.error?.message || 'unknown error'}`, fileName);
+    }
+    await abortableDelay(ACTIVE_POLL_INTERVAL_MS, signal);
+  }
+
+  // Not retryable: a retry would upload the whole file again
+  throw new ModelTimeoutError(`Timed out waiting for ${name} to finish processing.`, false);
+};
+
+/**
+ * Uploads a file through the Gemini Files API and returns a file reference.
+ * - Chunked and resumable: interrupted sessions resume from the server's offset,
+ *   including across page reloads.
+ * - Cached by API key and content hash: the same tape is only uploaded once
+ *   per project while the remote copy is still valid.
+ */
+export async function uploadFileToGemini(
+  ai: GoogleGenAI,
+  apiKey: string,
+  file: File,
+  mimeType: string,
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<UploadedFileRef> {
+  const report = (loaded: number) => onProgress?.({ fileName: file.name, loaded, total: file.size });
+  const hash = await cacheKey(apiKey, await hashMedia(file, { signal }));
+
+  // 1. Reuse a previous upload of the same content
+  const cached = readCache().files[hash];
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    report(file.size);
+    return { uri: cached.uri, mimeType: cached.mimeType };
+  }
+
+  // 2. Resume an interrupted session, or start a new one
+  let uploadUrl: string | null = null;
+  let offset = 0;
+
+  const pending = readCache().pending[hash];
+  if (pending && pending.size === file.size) {
+    const received = await queryOffset(pending.uploadUrl, signal);
+    if (received !== null) {
+      uploadUrl = pending.uploadUrl;
+      offset = received;
+    }
+  }
+
+  if (!uploadUrl) {
+    uploadUrl = await startSession(apiKey, file, mimeType, signal);
+    writeCache(cache => { cache.pending[hash] = { uploadUrl: uploadUrl!, size: file.size }; });
+  }
+
+  // 3. Send chunks
+  let responseBody = '';
+  let retries = 0;
+  report(offset);
+
+  while (offset < file.size) {
+    const end = Math.min(offset + CHUNK_SIZE, file.size);
+    const isLast = end === file.size;
+    const chunkStart = offset;
+
+    try {
+      responseBody = await sendChunk(uploadUrl, file.slice(chunkStart, end), chunkStart, isLast, loaded => report(chunkStart + loaded), signal);
+      offset = end;
+      retries = 0;
+    } catch (err) {
+      // A cancelled upload keeps its pending session so it can resume next time
+      if (isAbortError(err) || ++retries > MAX_CHUNK_RETRIES) throw err;
+      console.warn(`Retrying upload of ${file.name} at byte ${offset} (attempt ${retries})`, err);
+      const received = await queryOffset(uploadUrl, signal);
+      if (received === null) throw err;
+      offset = received;
+    }
+  }
+
+  // The server already had every byte (e.g. the last chunk's response was
+  // lost), so nothing was sent: finalize the session to get the file resource
+  if (!responseBody) {
+    responseBody = await sendChunk(uploadUrl, new Blob([]), file.size, true, () => {}, signal);
+  }
+
+  // 4. Wait for processing and cache the handle
+  const uploaded = responseBody ? JSON.parse(responseBody).file : undefined;
+  if (!uploaded?.name) {
+    throw new Error(`Upload of ${file.name} finished without a file resource`);
+  }
+  const active = await waitUntilActive(ai, uploaded.name, file.name, signal);
+  const ref: CachedUpload = {
+    name: uploaded.name,
+    uri: active.uri || uploaded.uri,
+    mimeType: active.mimeType || mimeType,
+    expiresAt: active.expirationTime ? Date.parse(active.expirationTime) : Date.now() + 47 * 60 * 60 * 1000,
+  };
+
+  writeCache(cache => {
+    cache.files[hash] = ref;
+    delete cache.pending[hash];
+  });
+
+  return { uri: ref.uri, mimeType: ref.mimeType };
+}
@@ -0,0 +1,197 @@
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Part, createPartFromUri } from "@google/genai";
+import { AIProvider, GenerationRequest, PromptPart } from "../aiProvider";
+import { uploadFileToGemini } from "./geminiFiles";
+import { isAbortError, throwIfAborted } from "../../lib/abort";
+import { encodeMediaBase64 } from "../../lib/media-prep";
+import {
+  AIServiceError,
+  InvalidMediaError,
+  ModelTimeoutError,
+  QuotaError,
+  SafetyBlockError,
+  ServiceUnavailableError,
+} from "../aiErrors";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+// Media at or below this size is sent inline; anything larger (and every
+// video) goes through the Files API so requests stay small.
+const INLINE_LIMIT_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Resolves the MIME type to send to Gemini.
+ * Includes MIME type normalization to prevent "Invalid video data" errors.
+ */
+const resolveMimeType = (file: File): string => {
+  let mimeType = file.type;
+
+  // Fix: Normalize MIME types if missing or generic
+  if (!mimeType || mimeType === 'application/octet-stream') {
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    if (ext === 'mp4') mimeType = 'video/mp4';
+    else if (ext === 'mov') mimeType = 'video/quicktime';
+    else if (ext === 'webm') mimeType = 'video/webm';
+    else if (ext === 'avi') mimeType = 'video/x-msvideo';
+    else if (ext === 'mpg' || ext === 'mpeg') mimeType = 'video/mpeg';
+  }
+
+  // Gemini specific fixes:
+  // video/quicktime (MOV) sometimes causes "Invalid video data" (400) errors.
+  // Mapping it to video/mp4 often resolves this if the underlying codec is compatible (e.g. H.264).
+  if (mimeType === 'video/quicktime' || mimeType === 'video/x-m4v') {
+    console.warn(`Normalizing ${mimeType} to video/mp4 for Gemini compatibility.`);
+    mimeType = 'video/mp4';
+  }
+
+  if (!mimeType) {
+    console.warn("Could not determine MIME type for file, defaulting to video/mp4");
+    mimeType = 'video/mp4';
+  }
+
+  return mimeType;
+};
+
+/**
+ * Converts a small File object (e.g. a stat sheet image) to an inline Base64 part.
+ * The encoding runs in the media worker.
+ */
+const fileToInlinePart = async (file: File, mimeType: string, signal?: AbortSignal): Promise<Part> => {
+  return {
+    inlineData: {
+      data: await encodeMediaBase64(file, { signal }),
+      mimeType,
+    },
+  };
+};
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+/**
+ * Throws a SafetyBlockError if the prompt or the candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Prompt blocked by Gemini (${blockReason}).`, blockReason);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Response blocked by Gemini (${finishReason}).`, finishReason);
+  }
+};
+
+/**
+ * Maps SDK, HTTP and network failures onto the typed AI errors.
+ * Anything unrecognised is returned unchanged.
+ */
+const classifyError = (err: unknown, request: GenerationRequest): unknown => {
+  if (isAbortError(err) || err instanceof AIServiceError || !(err instanceof Error)) return err;
+
+  const message = err.message;
+  const status = err instanceof ApiError ? err.status : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return new QuotaError(message, retryDelay ? Number(retryDelay[1]) * 1000 : undefined, err);
+  }
+
+  if (status === 400 && /video|image|mime|media|codec|file/i.test(message)) {
+    // Only name the file when there is no ambiguity about which one was rejected
+    const files = request.parts.filter((p): p is { file: File } => 'file' in p);
+    return new InvalidMediaError(message, files.length === 1 ? files[0].file.name : undefined, err);
+  }
+
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return new ModelTimeoutError(message, true, err);
+  }
+
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|failed to fetch|network/i.test(message)) {
+    return new ServiceUnavailableError(message, err);
+  }
+
+  return err;
+};
+
+/**
+ * Live provider backed by the Gemini API.
+ * CRITICAL: an API key must be defined in the build/runtime environment.
+ */
+export function createGeminiProvider(options: GeminiProviderOptions = {}): AIProvider {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  const toGeminiPart = async (part: PromptPart, request: GenerationRequest): Promise<Part> => {
+    if (!('file' in part)) {
+      return { text: part.text };
+    }
+
+    const mimeType = resolveMimeType(part.file);
+    if (part.file.size <= INLINE_LIMIT_BYTES && !mimeType.startsWith('video/')) {
+      return fileToInlinePart(part.file, mimeType, request.signal);
+    }
+
+    const ref = await uploadFileToGemini(ai, options.apiKey || '', part.file, mimeType, request.onUploadProgress, request.signal);
+    return createPartFromUri(ref.uri, ref.mimeType);
+  };
+
+  const generate = async (request: GenerationRequest): Promise<string> => {
+    const parts: Part[] = [];
+    for (const part of request.parts) {
+      throwIfAborted(request.signal);
+      parts.push(await toGeminiPart(part, request));
+    }
+
+    const params = {
+      model,
+      contents: { parts },
+      config: {
+        temperature: request.temperature,
+        responseMimeType: request.responseMimeType,
+        responseSchema: request.responseSchema,
+        abortSignal: request.signal,
+      },
+    };
+
+    if (!request.onText) {
+      const response = await ai.models.generateContent(params);
+      assertNotBlocked(response);
+      return response.text ?? '';
+    }
+
+    let text = '';
+    const stream = await ai.models.generateContentStream(params);
+    for await (const chunk of stream) {
+      throwIfAborted(request.signal);
+      assertNotBlocked(chunk);
+      const delta = chunk.text ?? '';
+      if (delta) {
+        text += delta;
+        request.onText(delta);
+      }
+    }
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    model,
+
+    async generateContent(request: GenerationRequest): Promise<string> {
+      try {
+        return await generate(request);
+      } catch (err) {
+        throw classifyError(err, request);
+      }
+    },
+  };
+}
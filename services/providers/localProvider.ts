@@ -0,0 +1,45 @@
+import { AIProvider, GenerationRequest } from "../aiProvider";
+import { RECORDED_RESPONSES } from "../fixtures/recordedResponses";
+import { abortableDelay } from "../../lib/abort";
+
+interface LocalProviderOptions {
+  responses?: Record<string, string>;
+  latencyMs?: number; // Total simulated response time
+}
+
+/**
+ * Deterministic offline provider that replays recorded responses by task
+ * (`<task>_JSON` for JSON-mode requests, when recorded).
+ * Media parts are never read, so it works without a key, quota or network.
+ */
+export function createLocalProvider(options: LocalProviderOptions = {}): AIProvider {
+  const responses = { ...RECORDED_RESPONSES, ...options.responses };
+  const latencyMs = options.latencyMs ?? 0;
+
+  return {
+    id: 'local',
+    model: 'local-fixtures',
+
+    async generateContent(request: GenerationRequest): Promise<string> {
+      // JSON-mode requests prefer the structured variant of the fixture
+      const structured = request.responseMimeType === 'application/json' ? responses[`${request.task}_JSON`] : undefined;
+      const response = structured ?? responses[request.task] ?? responses.CUSTOM;
+      if (response === undefined) {
+        throw new Error(`No recorded response for task: ${request.task}`);
+      }
+
+      if (!request.onText) {
+        await abortableDelay(latencyMs, request.signal);
+        return response;
+      }
+
+      // Replay line by line so streaming UIs see sections arrive over time
+      const lines = response.split(/(?<=\n)/);
+      for (const line of lines) {
+        await abortableDelay(latencyMs / lines.length, request.signal);
+        request.onText(line);
+      }
+      return response;
+    },
+  };
+}
@@ -12,6 +12,8 @@ export interface RoundAnalysis {
 export interface FightAnalysis {
   fighter_a_name: string;
   fighter_b_name: string;
+  fighter_a_id?: string; // Library fighters, linked by name when saved
+  fighter_b_id?: string;
   rounds: RoundAnalysis[];
   fighter_a_strengths: string[];
   fighter_a_weaknesses: string[];
@@ -2,22 +2,49 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Cross-origin isolation, so FFmpeg.wasm gets SharedArrayBuffer for its multi-threaded core.
+// `credentialless` (not `require-corp`) keeps the Tailwind CDN and Google Fonts loading.
+// A production host must send the same headers, or ffmpeg falls back to the single-threaded core.
+const CROSS_ORIGIN_ISOLATION_HEADERS = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: CROSS_ORIGIN_ISOLATION_HEADERS,
+      },
+      preview: {
+        headers: CROSS_ORIGIN_ISOLATION_HEADERS,
+      },
+      // FFmpeg loads its worker and core by URL; pre-bundling breaks those URLs
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
+      },
+      // The media worker imports FFmpeg, which starts its own module worker
+      worker: {
+        format: 'es',
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
-        alias: {
-          '@': path.resolve(__dirname, '.'),
-        }
+        alias: [
+          { find: '@', replacement: path.resolve(__dirname, '.') },
+          // The multi-threaded core's pthread worker isn't in the package's exports
+          {
+            find: /^@ffmpeg\/core-mt\/worker(?=\?|$)/,
+            replacement: path.resolve(__dirname, 'node_modules/@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js'),
+          },
+        ]
       }
     };
 });